@@ -1,13 +1,20 @@
-import { NgModule } from '@angular/core';
+import { NgModule, inject, provideAppInitializer } from '@angular/core';
 import { BrowserModule, provideClientHydration, withEventReplay } from '@angular/platform-browser';
 import { BrowserAnimationsModule } from '@angular/platform-browser/animations';
 import { HttpClientModule, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { provideNativeDateAdapter } from '@angular/material/core';
 import { ReactiveFormsModule, FormsModule } from '@angular/forms';
+import { switchMap } from 'rxjs/operators';
+import { provideCharts, withDefaultRegisterables } from 'ng2-charts';
 
 import { AppRoutingModule } from './app-routing-module';
 import { App } from './app';
 import { MaterialModule } from './shared/material.module';
+import { SharedModule } from './shared/shared.module';
 import { authInterceptor } from './interceptors/auth.interceptor';
+import { mockBackendInterceptor } from './interceptors/mock-backend.interceptor';
+import { ConfigService } from './services/config.service';
+import { SkillCatalogService } from './services/skill-catalog.service';
 
 @NgModule({
   declarations: [
@@ -20,11 +27,19 @@ import { authInterceptor } from './interceptors/auth.interceptor';
     ReactiveFormsModule,
     FormsModule,
     AppRoutingModule,
-    MaterialModule
+    MaterialModule,
+    SharedModule
   ],
   providers: [
     provideClientHydration(withEventReplay()),
-    provideHttpClient(withInterceptors([authInterceptor]))
+    // Load config.json, then the skill catalog it points to, before anything reads them
+    provideAppInitializer(() => {
+      const skillCatalog = inject(SkillCatalogService);
+      return inject(ConfigService).load().pipe(switchMap(() => skillCatalog.load()));
+    }),
+    provideHttpClient(withInterceptors([authInterceptor, mockBackendInterceptor])),
+    provideNativeDateAdapter(),
+    provideCharts(withDefaultRegisterables())
   ],
   bootstrap: [App]
 })
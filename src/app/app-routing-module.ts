@@ -1,16 +1,32 @@
 import { NgModule } from '@angular/core';
 import { RouterModule, Routes } from '@angular/router';
 
+import { authGuard, guestGuard } from './guards/auth.guard';
+import { NoPermissionComponent } from './shared/components/no-permission/no-permission.component';
+
 const routes: Routes = [
   { path: '', redirectTo: '/participants', pathMatch: 'full' },
+  {
+    path: 'login',
+    canActivate: [guestGuard],
+    loadChildren: () => import('./features/auth/auth.module').then(m => m.AuthModule)
+  },
   { 
     path: 'participants', 
+    canActivate: [authGuard],
     loadChildren: () => import('./features/participants/participants.module').then(m => m.ParticipantsModule) 
   },
   { 
     path: 'dashboard', 
+    canActivate: [authGuard],
     loadChildren: () => import('./features/dashboard/dashboard.module').then(m => m.DashboardModule) 
   },
+  {
+    path: 'cohorts',
+    canActivate: [authGuard],
+    loadChildren: () => import('./features/cohorts/cohorts.module').then(m => m.CohortsModule)
+  },
+  { path: 'no-permission', canActivate: [authGuard], component: NoPermissionComponent },
   { path: '**', redirectTo: '/participants' }
 ];
 
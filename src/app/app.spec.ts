@@ -1,5 +1,7 @@
 import { TestBed } from '@angular/core/testing';
 import { RouterModule } from '@angular/router';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
 import { App } from './app';
 
 describe('App', () => {
@@ -11,6 +13,11 @@ describe('App', () => {
       declarations: [
         App
       ],
+      providers: [
+        // The shell's services (auth, config, cohorts) talk to the API
+        provideHttpClient(),
+        provideHttpClientTesting()
+      ]
     }).compileComponents();
   });
 
@@ -1,6 +1,13 @@
-import { Component, signal } from '@angular/core';
+import { Component, Inject, Signal, effect, signal, untracked } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
 import { Router } from '@angular/router';
-import { environment } from '../environments/environment';
+import { AuthService } from './services/auth.service';
+import { ConfigService } from './services/config.service';
+import { CohortsService } from './services/cohorts.service';
+import { NotificationService } from './services/notification.service';
+import { AuthUser } from './models/auth.model';
+import { BrandConfig } from './models/app-config.model';
+import { Cohort } from './models/cohort.model';
 
 @Component({
   selector: 'app-root',
@@ -10,9 +17,39 @@ import { environment } from '../environments/environment';
 })
 export class App {
   protected readonly title = signal('Participant Admin');
-  protected readonly brand = environment.brand;
+  protected readonly brand: BrandConfig;
+  protected readonly user: Signal<AuthUser | null>;
+  protected readonly isAuthenticated: Signal<boolean>;
+  protected readonly cohorts: Signal<Cohort[]>;
+  protected readonly selectedCohort: Signal<Cohort | null>;
 
-  constructor(private router: Router) {}
+  constructor(
+    private router: Router,
+    private authService: AuthService,
+    private cohortsService: CohortsService,
+    notificationService: NotificationService,
+    configService: ConfigService,
+    @Inject(DOCUMENT) document: Document
+  ) {
+    this.brand = configService.config().brand;
+    this.user = authService.user;
+    this.isAuthenticated = authService.isAuthenticated;
+    this.cohorts = cohortsService.cohorts;
+    this.selectedCohort = cohortsService.selectedCohort;
+
+    // Cohorts feed the switcher as soon as someone signs in
+    effect(() => {
+      if (this.isAuthenticated()) {
+        untracked(() => cohortsService.load().subscribe({
+          error: (error) => notificationService.showError(error.message)
+        }));
+      }
+    });
+
+    // Brand colors from the runtime configuration override the theme defaults in styles.scss
+    document.documentElement.style.setProperty('--primary-color', this.brand.colors.primary);
+    document.documentElement.style.setProperty('--secondary-color', this.brand.colors.secondary);
+  }
 
   /**
    * Check if the current route is active
@@ -32,4 +69,18 @@ export class App {
       console.error('[App] navigation error', err);
     });
   }
+
+  /**
+   * Scope the list, dashboard and exports to one cohort, or to all with `null`
+   */
+  selectCohort(id: number | null): void {
+    this.cohortsService.select(id);
+  }
+
+  /**
+   * Sign out and return to the login page
+   */
+  logout(): void {
+    this.authService.logout();
+  }
 }
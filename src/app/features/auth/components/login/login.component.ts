@@ -0,0 +1,68 @@
+import { Component, inject, signal } from '@angular/core';
+import { FormBuilder, Validators } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+
+import { AuthService } from '../../../../services/auth.service';
+import { ApiError } from '../../../../models/api-error.model';
+import { ConfigService } from '../../../../services/config.service';
+
+/**
+ * Sign-in page
+ * Returns the user to the page they originally requested after login
+ */
+@Component({
+  selector: 'app-login',
+  templateUrl: './login.component.html',
+  styleUrls: ['./login.component.scss'],
+  standalone: false
+})
+export class LoginComponent {
+  // Injected services
+  private readonly fb = inject(FormBuilder);
+  private readonly authService = inject(AuthService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+
+  readonly brand = inject(ConfigService).config().brand;
+
+  readonly loginForm = this.fb.nonNullable.group({
+    email: ['', [Validators.required, Validators.email]],
+    password: ['', [Validators.required]]
+  });
+
+  // Reactive state
+  readonly submitting = signal<boolean>(false);
+  readonly error = signal<string | null>(null);
+  readonly hidePassword = signal<boolean>(true);
+
+  /**
+   * Sign in and continue to the requested page
+   */
+  onSubmit(): void {
+    if (this.loginForm.invalid) {
+      this.loginForm.markAllAsTouched();
+      return;
+    }
+
+    this.submitting.set(true);
+    this.error.set(null);
+    this.authService.login(this.loginForm.getRawValue()).subscribe({
+      next: () => {
+        this.submitting.set(false);
+        this.router.navigateByUrl(this.safeReturnUrl());
+      },
+      error: (error: ApiError) => {
+        this.submitting.set(false);
+        this.error.set(error.fieldError('email') ?? error.message);
+      }
+    });
+  }
+
+  /**
+   * Only follow in-app return URLs
+   */
+  private safeReturnUrl(): string {
+    const returnUrl = this.route.snapshot.queryParamMap.get('returnUrl');
+    return returnUrl && returnUrl.startsWith('/') && !returnUrl.startsWith('//') ? returnUrl : '/participants';
+  }
+}
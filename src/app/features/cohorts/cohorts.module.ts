@@ -0,0 +1,31 @@
+import { NgModule } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule } from '@angular/forms';
+import { RouterModule, Routes } from '@angular/router';
+
+import { MaterialModule } from '../../shared/material.module';
+import { SharedModule } from '../../shared/shared.module';
+import { permissionGuard } from '../../guards/permission.guard';
+import { CohortsListComponent } from './components/cohorts-list/cohorts-list.component';
+import { CohortFormComponent } from './components/cohort-form/cohort-form.component';
+
+const routes: Routes = [
+  { path: '', component: CohortsListComponent },
+  { path: 'new', component: CohortFormComponent, canActivate: [permissionGuard('cohort.manage')] },
+  { path: ':id', component: CohortFormComponent }
+];
+
+@NgModule({
+  declarations: [
+    CohortsListComponent,
+    CohortFormComponent
+  ],
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MaterialModule,
+    SharedModule,
+    RouterModule.forChild(routes)
+  ]
+})
+export class CohortsModule { }
@@ -0,0 +1,192 @@
+import { Component, OnInit, computed, inject, signal } from '@angular/core';
+import { FormBuilder, Validators } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+
+import { CohortsService } from '../../../../services/cohorts.service';
+import { NotificationService } from '../../../../services/notification.service';
+import { PermissionService } from '../../../../services/permission.service';
+import { Cohort, CreateCohortDto } from '../../../../models/cohort.model';
+import { ApiError } from '../../../../models/api-error.model';
+import { parseDateString, toDateString } from '../../../../utils/date.util';
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  program: 'Program',
+  trainer: 'Trainer',
+  start_date: 'Start date',
+  end_date: 'End date'
+};
+
+/**
+ * Component for creating and editing cohorts
+ * Users without `cohort.manage` see the cohort read-only
+ */
+@Component({
+  selector: 'app-cohort-form',
+  templateUrl: './cohort-form.component.html',
+  styleUrls: ['./cohort-form.component.scss'],
+  standalone: false
+})
+export class CohortFormComponent implements OnInit {
+  // Injected services
+  private readonly fb = inject(FormBuilder);
+  private readonly cohortsService = inject(CohortsService);
+  private readonly notificationService = inject(NotificationService);
+  private readonly permissionService = inject(PermissionService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+
+  readonly cohortForm = this.fb.group({
+    name: ['', [Validators.required, Validators.maxLength(100)]],
+    program: ['', [Validators.maxLength(100)]],
+    trainer: ['', [Validators.maxLength(100)]],
+    start_date: [null as Date | null, [Validators.required]],
+    end_date: [null as Date | null, [Validators.required]]
+  });
+
+  // Reactive state
+  private readonly cohortId = signal<number | null>(null);
+  private readonly currentCohort = signal<Cohort | null>(null);
+  readonly loading = signal<boolean>(false);
+  readonly saving = signal<boolean>(false);
+  readonly editMode = computed(() => this.cohortId() !== null);
+  readonly cohort = this.currentCohort.asReadonly();
+  readonly readOnly = computed(() => !this.permissionService.can('cohort.manage'));
+
+  ngOnInit(): void {
+    const id = Number(this.route.snapshot.paramMap.get('id'));
+    if (Number.isInteger(id) && id > 0) {
+      this.cohortId.set(id);
+      this.loadCohort(id);
+    }
+    if (this.readOnly()) {
+      this.cohortForm.disable();
+    }
+  }
+
+  /**
+   * Save the cohort and return to the list
+   */
+  onSubmit(): void {
+    if (this.readOnly()) {
+      return;
+    }
+    if (this.cohortForm.invalid) {
+      this.cohortForm.markAllAsTouched();
+      this.notificationService.showError('Please fix the validation errors before submitting');
+      return;
+    }
+
+    const id = this.cohortId();
+    const dto = this.toDto();
+    const request$ = id === null ? this.cohortsService.create(dto) : this.cohortsService.update(id, dto);
+
+    this.saving.set(true);
+    request$.subscribe({
+      next: (cohort) => {
+        this.saving.set(false);
+        this.notificationService.showSuccess(`Cohort "${cohort.name}" ${id === null ? 'created' : 'updated'} successfully`);
+        this.router.navigate(['/cohorts']);
+      },
+      error: (error: ApiError) => {
+        this.saving.set(false);
+        this.notificationService.showError(error.message);
+        this.applyServerErrors(error);
+      }
+    });
+  }
+
+  /**
+   * Navigate back to the cohorts list
+   */
+  onCancel(): void {
+    this.router.navigate(['/cohorts']);
+  }
+
+  /**
+   * Get form control error message
+   */
+  getErrorMessage(controlName: string): string {
+    const errors = this.cohortForm.get(controlName)?.errors;
+    const label = FIELD_LABELS[controlName] ?? controlName;
+    if (!errors) {
+      return '';
+    }
+    if (errors['server']) {
+      return errors['server'];
+    }
+    if (errors['required']) {
+      return `${label} is required`;
+    }
+    if (errors['maxlength']) {
+      return `${label} must not exceed ${errors['maxlength'].requiredLength} characters`;
+    }
+    if (errors['matStartDateInvalid'] || errors['matEndDateInvalid']) {
+      return 'The end date must not be before the start date';
+    }
+    if (errors['matDatepickerParse']) {
+      return `${label} is not a valid date`;
+    }
+    return `${label} is invalid`;
+  }
+
+  /**
+   * Get page title based on mode
+   */
+  getPageTitle(): string {
+    if (!this.editMode()) {
+      return 'Add New Cohort';
+    }
+    return this.readOnly() ? 'Cohort Details' : 'Edit Cohort';
+  }
+
+  private loadCohort(id: number): void {
+    this.loading.set(true);
+    this.cohortsService.get(id).subscribe({
+      next: (cohort) => {
+        this.loading.set(false);
+        this.currentCohort.set(cohort);
+        this.cohortForm.patchValue({
+          name: cohort.name,
+          program: cohort.program,
+          trainer: cohort.trainer,
+          start_date: parseDateString(cohort.start_date),
+          end_date: parseDateString(cohort.end_date)
+        });
+      },
+      error: (error: ApiError) => {
+        this.loading.set(false);
+        this.notificationService.showError(error.message);
+        this.router.navigate(['/cohorts']);
+      }
+    });
+  }
+
+  private toDto(): CreateCohortDto {
+    const { name, program, trainer, start_date, end_date } = this.cohortForm.getRawValue();
+    return {
+      name: name?.trim() ?? '',
+      program: program?.trim() ?? '',
+      trainer: trainer?.trim() ?? '',
+      start_date: start_date ? toDateString(start_date) : '',
+      end_date: end_date ? toDateString(end_date) : ''
+    };
+  }
+
+  /**
+   * Show server-side validation messages next to the matching form controls
+   */
+  private applyServerErrors(error: ApiError): void {
+    if (!error.hasFieldErrors()) {
+      return;
+    }
+    Object.keys(error.fieldErrors).forEach(field => {
+      const control = this.cohortForm.get(field);
+      const message = error.fieldError(field);
+      if (control && message) {
+        control.setErrors({ ...control.errors, server: message });
+        control.markAsTouched();
+      }
+    });
+  }
+}
@@ -0,0 +1,129 @@
+import { Component, OnInit, computed, inject } from '@angular/core';
+import { Router } from '@angular/router';
+import { MatDialog } from '@angular/material/dialog';
+import { filter, switchMap } from 'rxjs/operators';
+
+import { CohortsService } from '../../../../services/cohorts.service';
+import { NotificationService } from '../../../../services/notification.service';
+import { PermissionService } from '../../../../services/permission.service';
+import { Permission } from '../../../../models/permission.model';
+import { Cohort, CohortStatus, cohortStatus } from '../../../../models/cohort.model';
+import { parseDateString } from '../../../../utils/date.util';
+import {
+  ConfirmDialogComponent,
+  ConfirmDialogData
+} from '../../../../shared/components/confirm-dialog/confirm-dialog.component';
+
+/**
+ * Overview of all cohorts with their dates, trainer and participant count
+ */
+@Component({
+  selector: 'app-cohorts-list',
+  templateUrl: './cohorts-list.component.html',
+  styleUrls: ['./cohorts-list.component.scss'],
+  standalone: false
+})
+export class CohortsListComponent implements OnInit {
+  // Injected services
+  private readonly cohortsService = inject(CohortsService);
+  private readonly notificationService = inject(NotificationService);
+  private readonly router = inject(Router);
+  private readonly dialog = inject(MatDialog);
+  private readonly permissionService = inject(PermissionService);
+
+  displayedColumns: string[] = ['name', 'program', 'trainer', 'dates', 'status', 'participants_count', 'actions'];
+
+  readonly cohorts = this.cohortsService.cohorts;
+  readonly selectedCohortId = this.cohortsService.selectedCohortId;
+  readonly loading = computed(() => this.cohortsService.loadState().status === 'pending');
+  readonly error = computed(() => this.cohortsService.loadState().error);
+
+  ngOnInit(): void {
+    this.loadCohorts();
+  }
+
+  /**
+   * Load cohorts from the API
+   */
+  loadCohorts(): void {
+    this.cohortsService.load().subscribe({
+      error: (error) => this.notificationService.showError(error.message)
+    });
+  }
+
+  /**
+   * Scope the app to a cohort and show its participants
+   */
+  viewParticipants(cohort: Cohort): void {
+    this.cohortsService.select(cohort.id);
+    this.router.navigate(['/participants']);
+  }
+
+  /**
+   * Navigate to add cohort form
+   */
+  addCohort(): void {
+    this.router.navigate(['/cohorts/new']);
+  }
+
+  /**
+   * Navigate to edit cohort form
+   */
+  editCohort(cohort: Cohort): void {
+    this.router.navigate(['/cohorts', cohort.id]);
+  }
+
+  /**
+   * Delete a cohort after confirmation; its participants stay, without a cohort
+   */
+  deleteCohort(cohort: Cohort): void {
+    if (!this.can('cohort.delete')) {
+      return;
+    }
+    const count = cohort.participants_count;
+    const dialogRef = this.dialog.open<ConfirmDialogComponent, ConfirmDialogData, boolean>(ConfirmDialogComponent, {
+      width: '400px',
+      data: {
+        title: 'Delete Cohort',
+        message: `Are you sure you want to delete "${cohort.name}"?`,
+        details: count
+          ? [`${count} participant${count === 1 ? '' : 's'} will no longer belong to a cohort.`]
+          : undefined,
+        confirmText: 'Delete',
+        cancelText: 'Cancel',
+        type: 'danger'
+      }
+    });
+
+    dialogRef.afterClosed().pipe(
+      filter(confirmed => !!confirmed),
+      switchMap(() => this.cohortsService.remove(cohort.id))
+    ).subscribe({
+      next: () => this.notificationService.showSuccess(`Cohort "${cohort.name}" deleted`),
+      error: (error) => this.notificationService.showError(error.message)
+    });
+  }
+
+  /**
+   * Whether the current user has a permission; the delete button binds its
+   * [disabled] input to this, as MatButton owns that attribute
+   */
+  can(permission: Permission): boolean {
+    return this.permissionService.can(permission);
+  }
+
+  /**
+   * Where a cohort stands today
+   */
+  statusOf(cohort: Cohort): CohortStatus {
+    return cohortStatus(cohort);
+  }
+
+  /**
+   * Format a cohort's start and end date for display
+   */
+  formatDates(cohort: Cohort): string {
+    const format = (value: string) => parseDateString(value)?.toLocaleDateString() ?? value;
+    return `${format(cohort.start_date)} – ${format(cohort.end_date)}`;
+  }
+}
@@ -1,13 +1,54 @@
-import { Component, OnInit, signal, computed, inject } from '@angular/core';
-import { Chart, ChartConfiguration, ChartData, ChartType } from 'chart.js';
+import { Component, OnInit, signal, computed, inject, DestroyRef } from '@angular/core';
+import { takeUntilDestroyed, toObservable, toSignal } from '@angular/core/rxjs-interop';
+import { FormControl, FormGroup } from '@angular/forms';
+import { Router } from '@angular/router';
+import { MatDialog } from '@angular/material/dialog';
+import { Observable, defer, throwError } from 'rxjs';
+import { catchError, skip, tap } from 'rxjs/operators';
+import { ActiveElement, ChartConfiguration, ChartData } from 'chart.js';
 
 import { ParticipantsService } from '../../../../services/participants.service';
 import { NotificationService } from '../../../../services/notification.service';
-import { Participant, ParticipantStats, SkillType } from '../../../../models/participant.model';
+import { CohortsService } from '../../../../services/cohorts.service';
+import { SkillCatalogService } from '../../../../services/skill-catalog.service';
+import { ConfigService } from '../../../../services/config.service';
+import { DashboardReportService } from '../../../../services/dashboard-report.service';
+import { DashboardReport, ReportChart, ReportTable } from '../../../../models/dashboard-report.model';
+import {
+  DEFAULT_PARTICIPANT_QUERY,
+  Participant,
+  ParticipantQuery,
+  SkillCorrelation
+} from '../../../../models/participant.model';
+import { IDLE_REQUEST_STATE, RequestState } from '../../../../models/request-state.model';
+import { ParticipantCondition } from '../../../../models/participant-filter.model';
+import { Skill, SkillBand, SkillField } from '../../../../models/skill.model';
+import {
+  IntakePeriod,
+  SKILL_BAND_ORDER,
+  TrendGranularity,
+  correlationMatrix,
+  participantStats,
+  registeredBetween,
+  registrationTrend,
+  skillBands
+} from '../../../../utils/participant-stats.util';
+import { queryToParams } from '../../../../utils/participant-query.util';
+import { toDateString } from '../../../../utils/date.util';
+import {
+  SkillScatterDialogComponent,
+  SkillScatterDialogData
+} from '../skill-scatter-dialog/skill-scatter-dialog.component';
 
 /**
  * Dashboard component displaying participant analytics and statistics
- * Features: KPIs, charts showing skill distributions and averages
+ * Features: KPIs, charts showing skill distributions and averages,
+ * generated from the active skills of the skill catalog, and registration
+ * trends over time; a registration date range scopes every KPI and chart.
+ * Clicking a KPI card, skill bar, distribution band or trend period opens
+ * the participants list filtered to the participants behind it; a heatmap
+ * of skill correlations opens a scatter plot of any two skills. The whole
+ * dashboard can be exported as a branded PDF report, and single charts as PNG.
  */
 @Component({
   selector: 'app-dashboard',
@@ -19,24 +60,16 @@ export class DashboardComponent implements OnInit {
   // Injected services
   private readonly participantsService = inject(ParticipantsService);
   private readonly notificationService = inject(NotificationService);
-
-  // Chart configurations
-  public barChartType: ChartType = 'bar';
-  public pieChartType: ChartType = 'pie';
-  
-  // Chart data
-  public barChartData: ChartData<'bar'> = {
-    labels: [],
-    datasets: []
-  };
-  
-  public pieChartData: ChartData<'pie'> = {
-    labels: [],
-    datasets: []
-  };
+  private readonly cohortsService = inject(CohortsService);
+  private readonly skillCatalog = inject(SkillCatalogService);
+  private readonly configService = inject(ConfigService);
+  private readonly reportService = inject(DashboardReportService);
+  private readonly router = inject(Router);
+  private readonly dialog = inject(MatDialog);
+  private readonly destroyRef = inject(DestroyRef);
 
   // Chart options
-  public barChartOptions: ChartConfiguration['options'] = {
+  public barChartOptions: ChartConfiguration<'bar'>['options'] = {
     responsive: true,
     plugins: {
       legend: {
@@ -66,7 +99,7 @@ export class DashboardComponent implements OnInit {
     }
   };
 
-  public pieChartOptions: ChartConfiguration['options'] = {
+  public pieChartOptions: ChartConfiguration<'pie'>['options'] = {
     responsive: true,
     plugins: {
       legend: {
@@ -80,39 +113,272 @@ export class DashboardComponent implements OnInit {
     }
   };
 
-  // State signals
-  private readonly participants = this.participantsService.participants;
-  readonly selectedSkillForPie = signal<SkillType>('python_skill');
+  // Active skills in catalog order; the first three get a KPI card
+  readonly skills = this.skillCatalog.activeSkills;
+  readonly kpiSkills = computed(() => this.skills().slice(0, 3));
+
+  // Registration date range; either end may be left open
+  readonly dateRange = new FormGroup({
+    from: new FormControl<Date | null>(null),
+    to: new FormControl<Date | null>(null)
+  });
+  private readonly dateRangeValue = toSignal(this.dateRange.valueChanges, { initialValue: this.dateRange.value });
+  readonly rangeFrom = computed(() => this.dateRangeValue().from ?? null);
+  readonly rangeTo = computed(() => this.dateRangeValue().to ?? null);
+  readonly hasDateRange = computed(() => !!this.rangeFrom() || !!this.rangeTo());
+
+  // State signals: every statistic is computed from the participants in the date range.
+  // The dashboard fetches its own copy, so the participants list page, its
+  // pagination and query are left alone
+  private readonly participants = signal<Participant[]>([]);
+  private readonly scopedParticipants = computed(() =>
+    registeredBetween(this.participants(), this.rangeFrom(), this.rangeTo())
+  );
+  // Skill shown in the distribution: the one picked, else the first of the
+  // catalog; null while the catalog has no active skills
+  private readonly pickedSkillForPie = signal<SkillField | null>(null);
+  readonly selectedSkillForPie = computed<SkillField | null>(() => {
+    const skills = this.skills();
+    const picked = this.pickedSkillForPie();
+    return (skills.find(skill => skill.field === picked) ?? skills[0])?.field ?? null;
+  });
   
-  // Loading and error states
-  readonly loading = this.participantsService.loading;
-  readonly error = this.participantsService.error;
+  // Loading and error states of the dashboard's own request
+  private readonly loadState = signal<RequestState>(IDLE_REQUEST_STATE);
+  readonly loading = computed(() => this.loadState().status === 'pending');
+  readonly error = computed(() => this.loadState().error);
+
+  // The statistics cover the cohort selected in the header, or everyone
+  readonly selectedCohort = this.cohortsService.selectedCohort;
+  private readonly cohortChange$ = toObservable(this.cohortsService.selectedCohortId).pipe(skip(1));
 
   // Computed statistics
-  readonly stats = computed(() => this.calculateStats(this.participants()));
-  readonly skillOptions = [
-    { value: 'python_skill' as SkillType, label: 'Python' },
-    { value: 'angular_skill' as SkillType, label: 'Angular' },
-    { value: 'javascript_skill' as SkillType, label: 'JavaScript' },
-    { value: 'html_skill' as SkillType, label: 'HTML' },
-    { value: 'css_skill' as SkillType, label: 'CSS' },
-    { value: 'java_skill' as SkillType, label: 'Java' }
-  ];
+  // Score bands of the distribution, split where the configuration says
+  private readonly bandThresholds = this.configService.config().skills.bands;
+  private readonly bandRanges = skillBands(this.bandThresholds);
+  readonly bands = SKILL_BAND_ORDER.map(band => ({ band, ...this.bandRanges[band] }));
+
+  readonly stats = computed(() =>
+    participantStats(this.scopedParticipants(), this.skills().map(skill => skill.field), this.bandThresholds)
+  );
+  // Statistics of the skill chosen for the distribution
+  readonly selectedSkillStats = computed(() => {
+    const field = this.selectedSkillForPie();
+    return field ? this.stats().skills[field] ?? null : null;
+  });
+
+  // Average score per skill
+  readonly barChartData = computed<ChartData<'bar'>>(() => {
+    const stats = this.stats();
+    const skills = this.skills();
+    return {
+      labels: skills.map(skill => skill.label),
+      datasets: [
+        {
+          label: 'Average Skill Level',
+          data: skills.map(skill => stats.skills[skill.field]?.mean ?? 0),
+          backgroundColor: skills.map(skill => skill.color),
+          borderColor: skills.map(skill => skill.color),
+          borderWidth: 1
+        }
+      ]
+    };
+  });
+
+  // Score bands of the selected skill, with participants who have no score
+  readonly pieChartData = computed<ChartData<'pie'>>(() => {
+    const statistics = this.selectedSkillStats();
+    if (!statistics) {
+      return { labels: [], datasets: [] };
+    }
+    return {
+      labels: [...this.bands.map(band => band.label), 'Not specified'],
+      datasets: [
+        {
+          data: [...this.bands.map(({ band }) => statistics.bands[band]), statistics.notSpecified],
+          backgroundColor: [
+            '#ff6b6b', // Red for low
+            '#feca57', // Yellow for medium
+            '#48ca26', // Green for high
+            '#bdbdbd'  // Grey for not specified
+          ],
+          borderColor: [
+            '#ee5a52',
+            '#fd9644',
+            '#2ed573',
+            '#9e9e9e'
+          ],
+          borderWidth: 2
+        }
+      ]
+    };
+  });
+
+  // Score bands of every skill side by side, for the report
+  readonly bandsChartData = computed<ChartData<'bar'>>(() => {
+    const stats = this.stats();
+    const skills = this.skills();
+    const colors: Record<SkillBand, string> = { low: '#ff6b6b', medium: '#feca57', high: '#48ca26' };
+    return {
+      labels: skills.map(skill => skill.label),
+      datasets: [
+        ...this.bands.map(({ band, label }) => ({
+          label,
+          data: skills.map(skill => stats.skills[skill.field]?.bands[band] ?? 0),
+          backgroundColor: colors[band]
+        })),
+        {
+          label: 'Not specified',
+          data: skills.map(skill => stats.skills[skill.field]?.notSpecified ?? 0),
+          backgroundColor: '#bdbdbd'
+        }
+      ]
+    };
+  });
+  readonly bandsChartOptions: ChartConfiguration<'bar'>['options'] = {
+    plugins: { legend: { display: true, position: 'top' } },
+    scales: {
+      x: { stacked: true },
+      y: { stacked: true, beginAtZero: true, ticks: { precision: 0 }, title: { display: true, text: 'Participants' } }
+    }
+  };
+
+  // True while the PDF report is being generated
+  readonly exportingReport = signal<boolean>(false);
+
+  // Pairwise correlations of the skill scores, one heatmap row per skill
+  readonly correlationRows = computed(() => {
+    const skills = this.skills();
+    const matrix = correlationMatrix(this.scopedParticipants(), skills.map(skill => skill.field));
+    return skills.map((skill, i) => ({
+      skill,
+      cells: matrix[i].map((correlation, j) => ({ skill: skills[j], correlation, diagonal: i === j }))
+    }));
+  });
+
+  // Registrations per day, week or month over the date range
+  readonly trendGranularity = signal<TrendGranularity>('month');
+  readonly trend = computed(() =>
+    registrationTrend(
+      this.scopedParticipants(),
+      this.trendGranularity(),
+      this.skills().map(skill => skill.field),
+      this.rangeFrom(),
+      this.rangeTo()
+    )
+  );
+
+  readonly registrationsChartOptions: ChartConfiguration<'bar' | 'line'>['options'] = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: 'index', intersect: false },
+    plugins: {
+      legend: { display: true, position: 'top' }
+    },
+    scales: {
+      y: {
+        beginAtZero: true,
+        ticks: { precision: 0 },
+        title: { display: true, text: 'Registrations' }
+      },
+      cumulative: {
+        position: 'right',
+        beginAtZero: true,
+        ticks: { precision: 0 },
+        grid: { drawOnChartArea: false },
+        title: { display: true, text: 'Total' }
+      }
+    }
+  };
+  readonly registrationsChartData = computed<ChartData<'bar' | 'line'>>(() => {
+    const trend = this.trend();
+    return {
+      labels: trend.map(period => this.periodLabel(period)),
+      datasets: [
+        {
+          type: 'bar',
+          label: 'Registrations',
+          data: trend.map(period => period.registrations),
+          backgroundColor: '#004040',
+          order: 2
+        },
+        {
+          type: 'line',
+          label: 'Cumulative total',
+          data: trend.map(period => period.cumulative),
+          yAxisID: 'cumulative',
+          borderColor: '#e6c900',
+          backgroundColor: '#ffdf00',
+          tension: 0.2,
+          order: 1
+        }
+      ]
+    };
+  });
+
+  readonly intakeSkillsChartOptions: ChartConfiguration<'line'>['options'] = {
+    responsive: true,
+    maintainAspectRatio: false,
+    spanGaps: true,
+    interaction: { mode: 'index', intersect: false },
+    plugins: {
+      legend: { display: true, position: 'top' }
+    },
+    scales: {
+      y: {
+        min: 0,
+        max: 10,
+        title: { display: true, text: 'Average skill level (1-10)' }
+      }
+    }
+  };
+  readonly intakeSkillsChartData = computed<ChartData<'line', (number | null)[]>>(() => {
+    const trend = this.trend();
+    return {
+      labels: trend.map(period => this.periodLabel(period)),
+      // Periods without a score leave a gap instead of dropping to 0
+      datasets: this.skills().map(skill => ({
+        label: skill.label,
+        data: trend.map(period => period.averageSkills[skill.field] || null),
+        borderColor: skill.color,
+        backgroundColor: skill.color,
+        tension: 0.2
+      }))
+    };
+  });
 
   ngOnInit(): void {
     this.loadParticipants();
-    
-    // Update charts when data changes
-    this.updateCharts();
+    this.cohortChange$
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(() => this.loadParticipants());
   }
 
   /**
    * Load participants data
    */
   loadParticipants(): void {
-    this.participantsService.list().subscribe({
+    this.fetchParticipants().subscribe({
+      error: (error) => {
+        this.notificationService.showError(error.message);
+      }
+    });
+  }
+
+  /**
+   * Handle skill selection change for pie chart
+   */
+  onSkillSelectionChange(skill: SkillField): void {
+    this.pickedSkillForPie.set(skill);
+  }
+
+  /**
+   * Refresh dashboard data
+   */
+  refresh(): void {
+    this.fetchParticipants().subscribe({
       next: () => {
-        this.updateCharts();
+        this.notificationService.showSuccess('Dashboard data refreshed');
       },
       error: (error) => {
         this.notificationService.showError(error.message);
@@ -121,197 +387,383 @@ export class DashboardComponent implements OnInit {
   }
 
   /**
-   * Calculate statistics from participants data
+   * Get the selected skill label for display
    */
-  private calculateStats(participants: Participant[]): ParticipantStats {
-    if (participants.length === 0) {
-      return {
-        totalCount: 0,
-        averageSkills: {
-          python: 0,
-          angular: 0,
-          javascript: 0,
-          html: 0,
-          css: 0,
-          java: 0
-        },
-        skillDistribution: {} as any
-      };
-    }
-
-    // Calculate average skills (excluding 0 values)
-    const averageSkills = {
-      python: this.calculateAverageSkill(participants, 'python_skill'),
-      angular: this.calculateAverageSkill(participants, 'angular_skill'),
-      javascript: this.calculateAverageSkill(participants, 'javascript_skill'),
-      html: this.calculateAverageSkill(participants, 'html_skill'),
-      css: this.calculateAverageSkill(participants, 'css_skill'),
-      java: this.calculateAverageSkill(participants, 'java_skill')
-    };
+  getSelectedSkillLabel(): string {
+    const skill = this.skills().find(s => s.field === this.selectedSkillForPie());
+    return skill?.label || 'Unknown';
+  }
 
-    // Calculate skill distribution
-    const skillDistribution: ParticipantStats['skillDistribution'] = {} as any;
-    this.skillOptions.forEach(skill => {
-      skillDistribution[skill.value] = this.calculateSkillDistribution(participants, skill.value);
-    });
+  /**
+   * Check if there's data to display
+   */
+  hasData(): boolean {
+    return this.participants().length > 0;
+  }
 
-    return {
-      totalCount: participants.length,
-      averageSkills,
-      skillDistribution
-    };
+  /**
+   * Check if anyone registered in the selected date range
+   */
+  hasDataInRange(): boolean {
+    return this.scopedParticipants().length > 0;
   }
 
   /**
-   * Calculate average skill level (excluding 0 values)
+   * Show every registration date again
    */
-  private calculateAverageSkill(participants: Participant[], skillField: SkillType): number {
-    const validSkills = participants
-      .map(p => p[skillField])
-      .filter(skill => skill > 0);
-    
-    if (validSkills.length === 0) return 0;
-    
-    const sum = validSkills.reduce((acc, skill) => acc + skill, 0);
-    return Math.round((sum / validSkills.length) * 10) / 10; // Round to 1 decimal place
+  clearDateRange(): void {
+    this.dateRange.reset();
   }
 
   /**
-   * Calculate skill level distribution (Low: 1-3, Medium: 4-6, High: 7-10)
+   * Readable date range, e.g. "registered 1/3/2025 – 31/3/2025"
    */
-  private calculateSkillDistribution(participants: Participant[], skillField: SkillType) {
-    const skills = participants
-      .map(p => p[skillField])
-      .filter(skill => skill > 0);
-
-    const distribution = {
-      low: skills.filter(skill => skill >= 1 && skill <= 3).length,
-      medium: skills.filter(skill => skill >= 4 && skill <= 6).length,
-      high: skills.filter(skill => skill >= 7 && skill <= 10).length
-    };
+  describeDateRange(): string {
+    const from = this.rangeFrom()?.toLocaleDateString();
+    const to = this.rangeTo()?.toLocaleDateString();
+    if (from && to) {
+      return `registered ${from} – ${to}`;
+    }
+    return from ? `registered since ${from}` : to ? `registered until ${to}` : '';
+  }
 
-    return distribution;
+  /**
+   * Open the participants list with everyone in the date range
+   */
+  showAllParticipants(): void {
+    this.drillDown(this.inDateRange('All participants'), []);
   }
 
   /**
-   * Update chart data when participants data changes
+   * Open the participants list with everyone who has a score of a skill
    */
-  private updateCharts(): void {
-    this.updateBarChart();
-    this.updatePieChart();
+  showSkill(skill: Skill): void {
+    this.drillDown(this.inDateRange(`${skill.label} specified`), [
+      { type: 'skill', field: skill.field, operator: 'gte', value: 1 }
+    ]);
   }
 
   /**
-   * Update bar chart with average skills data
+   * Open the participants list with the participants whose score of a skill lies in a band
    */
-  private updateBarChart(): void {
-    const stats = this.stats();
-    
-    this.barChartData = {
-      labels: ['Python', 'Angular', 'JavaScript', 'HTML', 'CSS', 'Java'],
-      datasets: [
-        {
-          label: 'Average Skill Level',
-          data: [
-            stats.averageSkills.python,
-            stats.averageSkills.angular,
-            stats.averageSkills.javascript,
-            stats.averageSkills.html,
-            stats.averageSkills.css,
-            stats.averageSkills.java
-          ],
-          backgroundColor: [
-            '#3776ab', // Python blue
-            '#dd0031', // Angular red
-            '#f7df1e', // JavaScript yellow
-            '#e34c26', // HTML orange
-            '#1572b6', // CSS blue
-            '#ed8b00'  // Java orange
-          ],
-          borderColor: [
-            '#2d5d8b',
-            '#b8002a',
-            '#c4b91a',
-            '#c13b1f',
-            '#115a94',
-            '#c7730b'
-          ],
-          borderWidth: 1
-        }
-      ]
-    };
+  showSkillBand(field: SkillField, band: SkillBand): void {
+    const { label, min, max } = this.bandRanges[band];
+    this.drillDown(this.inDateRange(`${this.skillCatalog.label(field)} ${label}`), [
+      { type: 'skill', field, operator: 'gte', value: min },
+      { type: 'skill', field, operator: 'lte', value: max }
+    ]);
   }
 
   /**
-   * Update pie chart with skill distribution data
+   * Open the participants list with everyone who has no score of a skill
    */
-  private updatePieChart(): void {
-    const stats = this.stats();
-    const selectedSkill = this.selectedSkillForPie();
-    const distribution = stats.skillDistribution[selectedSkill];
+  showSkillNotSpecified(field: SkillField): void {
+    this.drillDown(this.inDateRange(`${this.skillCatalog.label(field)} not specified`), [
+      { type: 'skill', field, operator: 'eq', value: 0 }
+    ]);
+  }
 
-    if (!distribution) {
-      this.pieChartData = { labels: [], datasets: [] };
+  /**
+   * Open the participants list with the intake of the clicked trend period,
+   * cut to the date range where it only partly overlaps
+   */
+  onTrendClick({ active }: { active?: object[] }): void {
+    const index = (active?.[0] as ActiveElement | undefined)?.index;
+    const period = index === undefined ? undefined : this.trend()[index];
+    if (!period) {
       return;
     }
+    const from = this.rangeFrom();
+    const to = this.rangeTo();
+    this.drillDown(
+      `Registrations: ${this.periodLabel(period)}`,
+      [],
+      from && from > period.start ? from : period.start,
+      to && to < period.end ? to : period.end
+    );
+  }
 
-    this.pieChartData = {
-      labels: ['Low (1-3)', 'Medium (4-6)', 'High (7-10)'],
-      datasets: [
-        {
-          data: [distribution.low, distribution.medium, distribution.high],
-          backgroundColor: [
-            '#ff6b6b', // Red for low
-            '#feca57', // Yellow for medium
-            '#48ca26'  // Green for high
-          ],
-          borderColor: [
-            '#ee5a52',
-            '#fd9644',
-            '#2ed573'
-          ],
-          borderWidth: 2
+  /**
+   * Compare two skills in a scatter plot; clicking a participant opens their profile
+   */
+  compareSkills(x: Skill, y: Skill, correlation: SkillCorrelation): void {
+    this.dialog
+      .open<SkillScatterDialogComponent, SkillScatterDialogData, number>(SkillScatterDialogComponent, {
+        width: '720px',
+        maxWidth: '95vw',
+        data: { x, y, correlation, participants: this.scopedParticipants() }
+      })
+      .afterClosed()
+      .subscribe(id => {
+        if (id !== undefined) {
+          this.router.navigate(['/participants', id]);
         }
-      ]
-    };
+      });
   }
 
   /**
-   * Handle skill selection change for pie chart
+   * Heatmap color of a correlation as #rrggbb: teal for positive, red for
+   * negative, fading to white towards 0
    */
-  onSkillSelectionChange(skill: SkillType): void {
-    this.selectedSkillForPie.set(skill);
-    this.updatePieChart();
+  correlationColor(correlation: SkillCorrelation): string {
+    const { coefficient } = correlation;
+    if (coefficient === null) {
+      return '#f5f5f5';
+    }
+    const base = coefficient >= 0 ? [0, 64, 64] : [198, 40, 40];
+    const weight = Math.abs(coefficient);
+    return '#' + base.map(channel => Math.round(255 + (channel - 255) * weight).toString(16).padStart(2, '0')).join('');
   }
 
   /**
-   * Refresh dashboard data
+   * Save the dashboard as it is shown, with its scope and data tables, as a PDF
    */
-  refresh(): void {
-    this.participantsService.refresh().subscribe({
-      next: () => {
-        this.notificationService.showSuccess('Dashboard data refreshed');
-        this.updateCharts();
+  exportReport(): void {
+    this.exportingReport.set(true);
+    this.reportService.exportPdf(this.buildReport()).subscribe({
+      next: fileName => {
+        this.exportingReport.set(false);
+        this.notificationService.showSuccess(`Report saved as ${fileName}`);
       },
-      error: (error) => {
-        this.notificationService.showError(error.message);
+      error: (error: Error) => {
+        this.exportingReport.set(false);
+        this.notificationService.showError(`Report failed: ${error.message}`);
       }
     });
   }
 
   /**
-   * Get the selected skill label for display
+   * Save one chart as a PNG image
    */
-  getSelectedSkillLabel(): string {
-    const skill = this.skillOptions.find(s => s.value === this.selectedSkillForPie());
-    return skill?.label || 'Unknown';
+  downloadChart(id: 'registrations' | 'intake-skills' | 'average-skills' | 'distribution'): void {
+    const chart = this.reportCharts().find(candidate => candidate.id === id);
+    if (chart) {
+      const fileName = this.reportService.exportChartPng(chart);
+      this.notificationService.showSuccess(`Chart saved as ${fileName}`);
+    }
   }
 
   /**
-   * Check if there's data to display
+   * Tooltip of a heatmap cell
    */
-  hasData(): boolean {
-    return this.participants().length > 0;
+  describeCorrelation(x: Skill, y: Skill, correlation: SkillCorrelation): string {
+    const pairs = `${correlation.pairs} participant${correlation.pairs === 1 ? '' : 's'} scored in both`;
+    return correlation.coefficient === null
+      ? `${x.label} vs ${y.label}: not enough varied scores (${pairs})`
+      : `${x.label} vs ${y.label}: r = ${correlation.coefficient.toFixed(2)} (${pairs})`;
+  }
+
+  /**
+   * Fetch every participant of the selected cohort, or everyone, into the
+   * dashboard's own state
+   */
+  private fetchParticipants(): Observable<Participant[]> {
+    return defer(() => {
+      this.loadState.set({ status: 'pending', error: null });
+      const cohortId = this.cohortsService.selectedCohortId();
+      const request = cohortId === null
+        ? this.participantsService.listAll()
+        : this.participantsService.listCohort(cohortId);
+
+      return request.pipe(
+        tap(participants => {
+          this.participants.set(participants);
+          this.loadState.set({ status: 'success', error: null });
+        }),
+        catchError(error => {
+          this.loadState.set({ status: 'error', error: 'Failed to load participants' });
+          return throwError(() => error);
+        })
+      );
+    });
+  }
+
+  /**
+   * Snapshot of the dashboard in its current scope
+   */
+  private buildReport(): DashboardReport {
+    const stats = this.stats();
+    const skills = this.skills();
+    const cohort = this.selectedCohort();
+    const { medium, high } = this.bandThresholds;
+
+    return {
+      title: 'Participant Dashboard Report',
+      generatedAt: new Date(),
+      scope: [
+        { label: 'Cohort', value: cohort ? cohort.name : 'All cohorts' },
+        { label: 'Registered', value: this.hasDateRange() ? this.describeDateRange().replace(/^registered /, '') : 'Any date' },
+        { label: 'Participants', value: String(stats.totalCount) },
+        { label: 'Score bands', value: `Low 1-${medium - 1}, Medium ${medium}-${high - 1}, High ${high}-10` },
+        { label: 'Trends grouped by', value: this.trendGranularity() }
+      ],
+      kpis: [
+        { label: 'Total Participants', value: String(stats.totalCount) },
+        ...skills.map(skill => ({
+          label: `Avg ${skill.label} Skill`,
+          value: this.getSkillValue(skill.field) ? String(this.getSkillValue(skill.field)) : 'N/A'
+        }))
+      ],
+      charts: this.reportCharts().filter(chart => chart.id !== 'distribution'),
+      tables: [this.correlationTable()],
+      appendix: [this.statisticsTable(), this.trendTable()]
+    };
+  }
+
+  /**
+   * Charts of the dashboard as Chart.js configurations for exporting
+   */
+  private reportCharts(): ReportChart[] {
+    const granularity = this.trendGranularity();
+    return [
+      {
+        id: 'average-skills',
+        title: 'Average Skills Overview',
+        subtitle: 'Average skill level per technology, leaving out participants without a score',
+        config: { type: 'bar', data: this.barChartData(), options: this.barChartOptions } as ChartConfiguration
+      },
+      {
+        id: 'skill-bands',
+        title: 'Skill Level Distribution',
+        subtitle: 'Participants per score band and without a score, per technology',
+        config: { type: 'bar', data: this.bandsChartData(), options: this.bandsChartOptions } as ChartConfiguration
+      },
+      {
+        id: 'distribution',
+        title: `${this.getSelectedSkillLabel()} Skill Level Distribution`,
+        subtitle: 'Participants per score band and without a score',
+        config: { type: 'pie', data: this.pieChartData(), options: this.pieChartOptions } as ChartConfiguration
+      },
+      {
+        id: 'registrations',
+        title: 'Registrations',
+        subtitle: `New participants per ${granularity} and the running total`,
+        config: {
+          type: 'bar',
+          data: this.registrationsChartData(),
+          options: this.registrationsChartOptions
+        } as ChartConfiguration
+      },
+      {
+        id: 'intake-skills',
+        title: 'Average Skills per Intake',
+        subtitle: `Average skill levels of the participants registered each ${granularity}`,
+        config: {
+          type: 'line',
+          data: this.intakeSkillsChartData(),
+          options: this.intakeSkillsChartOptions
+        } as ChartConfiguration
+      }
+    ];
+  }
+
+  /**
+   * Correlation heatmap as a table with colored cells
+   */
+  private correlationTable(): ReportTable {
+    const rows = this.correlationRows();
+    return {
+      title: 'Skill Correlations (Pearson r, participants scored in both skills)',
+      columns: ['', ...rows.map(row => row.skill.label)],
+      rows: rows.map(row => [
+        row.skill.label,
+        ...row.cells.map(cell => cell.correlation.coefficient === null ? '-' : cell.correlation.coefficient.toFixed(2))
+      ]),
+      fills: rows.map(row => [null, ...row.cells.map(cell => this.correlationColor(cell.correlation))])
+    };
+  }
+
+  /**
+   * Statistics of every skill
+   */
+  private statisticsTable(): ReportTable {
+    const stats = this.stats();
+    return {
+      title: 'Skill Statistics',
+      columns: ['Skill', 'Scored', 'Not specified', 'Mean', 'Median', 'Std dev', 'P25', 'P75', 'P90', 'Low', 'Medium', 'High'],
+      rows: this.skills().map(skill => {
+        const statistics = stats.skills[skill.field];
+        return statistics
+          ? [
+              skill.label,
+              statistics.scored,
+              statistics.notSpecified,
+              statistics.mean,
+              statistics.median,
+              statistics.standardDeviation,
+              statistics.percentiles.p25,
+              statistics.percentiles.p75,
+              statistics.percentiles.p90,
+              statistics.bands.low,
+              statistics.bands.medium,
+              statistics.bands.high
+            ]
+          : [skill.label];
+      })
+    };
+  }
+
+  /**
+   * Registrations and intake averages per trend period
+   */
+  private trendTable(): ReportTable {
+    const skills = this.skills();
+    return {
+      title: `Registrations per ${this.trendGranularity()}`,
+      columns: ['Period', 'Registrations', 'Total', ...skills.map(skill => `Avg ${skill.label}`)],
+      rows: this.trend().map(period => [
+        this.periodLabel(period),
+        period.registrations,
+        period.cumulative,
+        ...skills.map(skill => period.averageSkills[skill.field] || '-')
+      ])
+    };
+  }
+
+  /**
+   * Navigate to the participants list with conditions and a chip describing
+   * the dashboard element; registrations are limited to the date range
+   */
+  private drillDown(
+    description: string,
+    conditions: ParticipantCondition[],
+    from: Date | null = this.rangeFrom(),
+    to: Date | null = this.rangeTo()
+  ): void {
+    if (from || to) {
+      conditions = [
+        ...conditions,
+        { type: 'created', from: from && toDateString(from), to: to && toDateString(to) }
+      ];
+    }
+    const query: ParticipantQuery = {
+      ...DEFAULT_PARTICIPANT_QUERY,
+      conditions,
+      match: 'all',
+      origin: `Dashboard: ${description}`
+    };
+    this.router.navigate(['/participants'], { queryParams: queryToParams(query) });
+  }
+
+  /**
+   * Description of a dashboard element followed by the date range, if any
+   */
+  private inDateRange(description: string): string {
+    return this.hasDateRange() ? `${description}, ${this.describeDateRange()}` : description;
+  }
+
+  /**
+   * Axis label of a trend period
+   */
+  private periodLabel(period: IntakePeriod): string {
+    switch (this.trendGranularity()) {
+      case 'day':
+        return period.start.toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+      case 'week':
+        return `Week of ${period.start.toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}`;
+      case 'month':
+        return period.start.toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+    }
   }
 
   /**
@@ -323,28 +775,18 @@ export class DashboardComponent implements OnInit {
   }
 
   /**
-   * Get appropriate icon for skill type
+   * Safely get the average of a skill
+   * @param skillField The skill field, e.g. `python_skill`
+   * @returns The average or 0 if there is none
    */
-  getSkillIcon(skillType: SkillType): string {
-    const iconMap: { [key in SkillType]: string } = {
-      python_skill: 'code',
-      angular_skill: 'web',
-      javascript_skill: 'javascript',
-      html_skill: 'language',
-      css_skill: 'palette',
-      java_skill: 'coffee'
-    };
-    return iconMap[skillType] || 'code';
+  getSkillValue(skillField: SkillField): number {
+    return this.stats().skills[skillField]?.mean ?? 0;
   }
 
   /**
-   * Safely get skill value from averageSkills object
-   * @param skillType The skill type with or without '_skill' suffix
-   * @returns The skill value or 0 if not found
+   * Number of participants with a score of one skill
    */
-  getSkillValue(skillType: string): number {
-    const skillKey = skillType.replace('_skill', '');
-    const skills = this.stats().averageSkills as Record<string, number>;
-    return skills[skillKey] || 0;
+  getSkillCount(skillField: SkillField): number {
+    return this.stats().skills[skillField]?.scored ?? 0;
   }
 }
@@ -0,0 +1,136 @@
+import { Component, Inject } from '@angular/core';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+import { ActiveElement, ChartConfiguration, ChartData, TooltipItem } from 'chart.js';
+
+import { Participant, SkillCorrelation } from '../../../../models/participant.model';
+import { Skill, skillScore } from '../../../../models/skill.model';
+
+export interface SkillScatterDialogData {
+  x: Skill;
+  y: Skill;
+  correlation: SkillCorrelation;
+  participants: Participant[];
+}
+
+// How far points are spread around their score so equal scores stay apart
+const JITTER = 0.3;
+
+/**
+ * Scatter plot of two skills with one point per participant scored in both
+ * Clicking a point closes the dialog with that participant's id, so the
+ * dashboard can open their profile
+ */
+@Component({
+  selector: 'app-skill-scatter-dialog',
+  templateUrl: './skill-scatter-dialog.component.html',
+  styleUrls: ['./skill-scatter-dialog.component.scss'],
+  standalone: false
+})
+export class SkillScatterDialogComponent {
+  // Participants in the order of the chart points
+  private readonly plotted: Participant[];
+  readonly unscored: number;
+
+  readonly chartData: ChartData<'scatter'>;
+  readonly chartOptions: ChartConfiguration<'scatter'>['options'];
+
+  constructor(
+    public dialogRef: MatDialogRef<SkillScatterDialogComponent, number>,
+    @Inject(MAT_DIALOG_DATA) public data: SkillScatterDialogData
+  ) {
+    const { x, y } = data;
+    this.plotted = data.participants.filter(p => skillScore(p, x.field) > 0 && skillScore(p, y.field) > 0);
+    this.unscored = data.participants.length - this.plotted.length;
+
+    this.chartData = {
+      datasets: [
+        {
+          label: 'Participants',
+          data: this.plotted.map(p => ({
+            x: skillScore(p, x.field) + this.jitter(p.id, 1),
+            y: skillScore(p, y.field) + this.jitter(p.id, 2)
+          })),
+          backgroundColor: 'rgba(0, 64, 64, 0.6)',
+          borderColor: '#004040',
+          pointRadius: 5,
+          pointHoverRadius: 8
+        }
+      ]
+    };
+
+    const axis = (skill: Skill) => ({
+      min: 0.5,
+      max: 10.5,
+      ticks: { stepSize: 1, callback: (value: string | number) => (Number.isInteger(value) ? value : '') },
+      title: { display: true, text: `${skill.label} (1-10)` }
+    });
+    this.chartOptions = {
+      responsive: true,
+      maintainAspectRatio: false,
+      scales: { x: axis(x), y: axis(y) },
+      plugins: {
+        legend: { display: false },
+        tooltip: {
+          callbacks: {
+            label: (item: TooltipItem<'scatter'>) => this.describePoint(item.dataIndex)
+          }
+        }
+      },
+      onHover: (event, elements) => {
+        const canvas = event.native?.target as HTMLElement | undefined;
+        if (canvas) {
+          canvas.style.cursor = elements.length ? 'pointer' : 'default';
+        }
+      }
+    };
+  }
+
+  /**
+   * Open the record of the clicked participant
+   */
+  onChartClick({ active }: { active?: object[] }): void {
+    const index = (active?.[0] as ActiveElement | undefined)?.index;
+    const participant = index === undefined ? undefined : this.plotted[index];
+    if (participant) {
+      this.dialogRef.close(participant.id);
+    }
+  }
+
+  /**
+   * Plain-language reading of the correlation coefficient
+   */
+  describeCorrelation(): string {
+    const { coefficient } = this.data.correlation;
+    if (coefficient === null) {
+      return 'Not enough varied scores to compare';
+    }
+    const size = Math.abs(coefficient);
+    const strength = size >= 0.7 ? 'Strong' : size >= 0.4 ? 'Moderate' : size >= 0.2 ? 'Weak' : 'No clear';
+    const direction = size < 0.2 ? '' : coefficient > 0 ? ' positive' : ' negative';
+    return `${strength}${direction} relation (r = ${coefficient.toFixed(2)})`;
+  }
+
+  /**
+   * Close without opening a participant
+   */
+  onClose(): void {
+    this.dialogRef.close();
+  }
+
+  /**
+   * Tooltip text of a point
+   */
+  private describePoint(index: number): string {
+    const participant = this.plotted[index];
+    const { x, y } = this.data;
+    return `${participant.name}: ${x.label} ${skillScore(participant, x.field)}, ${y.label} ${skillScore(participant, y.field)}`;
+  }
+
+  /**
+   * Offset within ±JITTER that is the same for a participant every time the plot opens
+   */
+  private jitter(id: number, axis: number): number {
+    const hash = Math.sin(id * 12.9898 + axis * 78.233) * 43758.5453;
+    return (hash - Math.floor(hash) - 0.5) * 2 * JITTER;
+  }
+}
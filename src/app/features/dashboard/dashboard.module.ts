@@ -1,10 +1,13 @@
 import { NgModule } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterModule, Routes } from '@angular/router';
-// import { BaseChartDirective } from 'ng2-charts';
+import { ReactiveFormsModule } from '@angular/forms';
+import { BaseChartDirective } from 'ng2-charts';
 
 import { MaterialModule } from '../../shared/material.module';
+import { SharedModule } from '../../shared/shared.module';
 import { DashboardComponent } from './components/dashboard/dashboard.component';
+import { SkillScatterDialogComponent } from './components/skill-scatter-dialog/skill-scatter-dialog.component';
 
 const routes: Routes = [
   { path: '', component: DashboardComponent }
@@ -12,12 +15,15 @@ const routes: Routes = [
 
 @NgModule({
   declarations: [
-    DashboardComponent
+    DashboardComponent,
+    SkillScatterDialogComponent
   ],
   imports: [
     CommonModule,
+    ReactiveFormsModule,
     MaterialModule,
-    // BaseChartDirective, // Will add when component is created
+    SharedModule,
+    BaseChartDirective,
     RouterModule.forChild(routes)
   ]
 })
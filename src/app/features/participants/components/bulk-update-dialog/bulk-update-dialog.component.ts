@@ -0,0 +1,97 @@
+import { Component, Inject, inject } from '@angular/core';
+import { FormBuilder, Validators } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+
+import { SKILL_LEVELS } from '../../../../models/participant.model';
+import { SkillField } from '../../../../models/skill.model';
+import { CohortsService } from '../../../../services/cohorts.service';
+import { SkillCatalogService } from '../../../../services/skill-catalog.service';
+
+export interface BulkUpdateDialogData {
+  mode: 'outcome' | 'skill' | 'cohort';
+  count: number;
+}
+
+/**
+ * Dialog title of each bulk update mode
+ */
+export const BULK_UPDATE_TITLES: Record<BulkUpdateDialogData['mode'], string> = {
+  outcome: 'Update Outcome',
+  skill: 'Adjust Skill',
+  cohort: 'Move to Cohort'
+};
+
+/**
+ * Change collected by the dialog, applied to every selected participant
+ */
+export type BulkUpdateChange =
+  | { kind: 'outcome'; outcome: string }
+  | { kind: 'skill'; skill: SkillField; operation: 'set' | 'increase' | 'decrease'; value: number }
+  | { kind: 'cohort'; cohortId: number | null };
+
+/**
+ * Dialog for entering a bulk outcome, skill or cohort change
+ * Returns the change on apply, or undefined when cancelled
+ */
+@Component({
+  selector: 'app-bulk-update-dialog',
+  templateUrl: './bulk-update-dialog.component.html',
+  styleUrls: ['./bulk-update-dialog.component.scss'],
+  standalone: false
+})
+export class BulkUpdateDialogComponent {
+  private readonly fb = inject(FormBuilder);
+
+  readonly skills = inject(SkillCatalogService).activeSkills;
+  readonly skillLevels = SKILL_LEVELS;
+  readonly cohorts = inject(CohortsService).cohorts;
+
+  readonly form = this.fb.nonNullable.group({
+    outcome: ['', [Validators.maxLength(1000)]],
+    skill: [this.skills()[0]?.field ?? ('' as SkillField)],
+    operation: ['set' as 'set' | 'increase' | 'decrease'],
+    value: [0, [Validators.min(0), Validators.max(10)]],
+    cohortId: [null as number | null]
+  });
+
+  constructor(
+    public dialogRef: MatDialogRef<BulkUpdateDialogComponent, BulkUpdateChange>,
+    @Inject(MAT_DIALOG_DATA) public data: BulkUpdateDialogData
+  ) {}
+
+  /**
+   * Get dialog title based on mode
+   */
+  getTitle(): string {
+    return BULK_UPDATE_TITLES[this.data.mode];
+  }
+
+  /**
+   * Close the dialog with the entered change
+   */
+  onApply(): void {
+    if (this.form.invalid) {
+      return;
+    }
+
+    const { outcome, skill, operation, value, cohortId } = this.form.getRawValue();
+    switch (this.data.mode) {
+      case 'outcome':
+        this.dialogRef.close({ kind: 'outcome', outcome: outcome.trim() });
+        break;
+      case 'skill':
+        this.dialogRef.close({ kind: 'skill', skill, operation, value: Number(value) });
+        break;
+      case 'cohort':
+        this.dialogRef.close({ kind: 'cohort', cohortId });
+        break;
+    }
+  }
+
+  /**
+   * Close without changes
+   */
+  onCancel(): void {
+    this.dialogRef.close();
+  }
+}
@@ -0,0 +1,123 @@
+import { Component, Inject, computed, signal } from '@angular/core';
+import { CdkDragDrop, moveItemInArray } from '@angular/cdk/drag-drop';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+
+import { ColumnOption } from '../../../../models/column-layout.model';
+
+export interface ColumnChooserDialogData {
+  columns: ColumnOption[];
+  pinName: boolean;
+  pinActions: boolean;
+  // Arrangement restored by "Reset"
+  defaults: Omit<ColumnChooserResult, 'resetWidths'>;
+}
+
+/**
+ * Column arrangement chosen in the dialog
+ */
+export interface ColumnChooserResult {
+  columns: ColumnOption[];
+  pinName: boolean;
+  pinActions: boolean;
+  resetWidths: boolean;
+}
+
+/**
+ * Dialog for showing, hiding, reordering and pinning the table columns
+ * Returns the chosen arrangement on apply, or undefined when cancelled
+ */
+@Component({
+  selector: 'app-column-chooser-dialog',
+  templateUrl: './column-chooser-dialog.component.html',
+  styleUrls: ['./column-chooser-dialog.component.scss'],
+  standalone: false
+})
+export class ColumnChooserDialogComponent {
+  readonly columns = signal<ColumnOption[]>([]);
+  readonly pinName = signal(false);
+  readonly pinActions = signal(false);
+  readonly visibleCount = computed(() => this.columns().filter(column => column.visible).length);
+
+  private resetWidths = false;
+
+  constructor(
+    public dialogRef: MatDialogRef<ColumnChooserDialogComponent, ColumnChooserResult>,
+    @Inject(MAT_DIALOG_DATA) public data: ColumnChooserDialogData
+  ) {
+    this.setArrangement(data);
+  }
+
+  /**
+   * Move a column to where it was dropped
+   */
+  onDrop(event: CdkDragDrop<ColumnOption[]>): void {
+    const columns = [...this.columns()];
+    moveItemInArray(columns, event.previousIndex, event.currentIndex);
+    this.columns.set(columns);
+  }
+
+  /**
+   * Show or hide a column
+   */
+  toggle(id: string, visible: boolean): void {
+    this.columns.update(columns =>
+      columns.map(column => (column.id === id ? { ...column, visible } : column))
+    );
+  }
+
+  /**
+   * Move a column one place up or down, for keyboard users
+   */
+  move(index: number, offset: -1 | 1): void {
+    const target = index + offset;
+    if (target < 0 || target >= this.columns().length) {
+      return;
+    }
+    const columns = [...this.columns()];
+    moveItemInArray(columns, index, target);
+    this.columns.set(columns);
+  }
+
+  /**
+   * Restore the default columns, pins and widths
+   */
+  reset(): void {
+    this.setArrangement(this.data.defaults);
+    this.resetWidths = true;
+  }
+
+  /**
+   * Close the dialog with the chosen arrangement
+   */
+  onApply(): void {
+    if (this.visibleCount() === 0) {
+      return;
+    }
+    this.dialogRef.close({
+      columns: this.columns(),
+      pinName: this.pinName(),
+      pinActions: this.pinActions(),
+      resetWidths: this.resetWidths
+    });
+  }
+
+  /**
+   * Close without changing the columns
+   */
+  onCancel(): void {
+    this.dialogRef.close();
+  }
+
+  /**
+   * Track by function for performance optimization
+   */
+  trackByColumn(index: number, column: ColumnOption): string {
+    return column.id;
+  }
+
+  private setArrangement(arrangement: Omit<ColumnChooserResult, 'resetWidths'>): void {
+    this.columns.set(arrangement.columns.map(column => ({ ...column })));
+    this.pinName.set(arrangement.pinName);
+    this.pinActions.set(arrangement.pinActions);
+  }
+}
@@ -0,0 +1,101 @@
+import { Component, Inject, inject } from '@angular/core';
+import { FormBuilder } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+
+import {
+  ExportDateFormat,
+  ExportFormat,
+  ExportOptions,
+  ExportScope,
+  defaultExportFields,
+  exportColumns
+} from '../../../../models/participant-export.model';
+import { SkillCatalogService } from '../../../../services/skill-catalog.service';
+
+export interface ExportDialogData {
+  filteredCount: number;
+  selectedCount: number;
+}
+
+/**
+ * Dialog for choosing export format, rows, columns and date formatting
+ * Returns the options on export, or undefined when cancelled
+ */
+@Component({
+  selector: 'app-export-dialog',
+  templateUrl: './export-dialog.component.html',
+  styleUrls: ['./export-dialog.component.scss'],
+  standalone: false
+})
+export class ExportDialogComponent {
+  private readonly fb = inject(FormBuilder);
+  private readonly skills = inject(SkillCatalogService).skills();
+
+  readonly columns = exportColumns(this.skills);
+  private readonly defaultFields = defaultExportFields(this.skills);
+
+  readonly form = this.fb.nonNullable.group({
+    format: ['csv' as ExportFormat],
+    scope: ['filtered' as ExportScope],
+    dateFormat: ['iso' as ExportDateFormat],
+    fields: this.fb.nonNullable.group(
+      Object.fromEntries(this.columns.map(column => [column.field, this.defaultFields.includes(column.field)]))
+    )
+  });
+
+  constructor(
+    public dialogRef: MatDialogRef<ExportDialogComponent, ExportOptions>,
+    @Inject(MAT_DIALOG_DATA) public data: ExportDialogData
+  ) {
+    // Exporting the rows the user just picked is the likelier intent
+    if (data.selectedCount > 0) {
+      this.form.controls.scope.setValue('selected');
+    }
+  }
+
+  /**
+   * Number of rows the chosen scope exports
+   */
+  get rowCount(): number {
+    return this.form.controls.scope.value === 'selected' ? this.data.selectedCount : this.data.filteredCount;
+  }
+
+  /**
+   * Whether at least one column is ticked
+   */
+  get hasFields(): boolean {
+    return Object.values(this.form.controls.fields.getRawValue()).some(Boolean);
+  }
+
+  /**
+   * Tick or untick every column
+   */
+  setAllFields(checked: boolean): void {
+    const fields = this.form.controls.fields;
+    fields.setValue(Object.fromEntries(Object.keys(fields.controls).map(field => [field, checked])));
+  }
+
+  /**
+   * Close the dialog with the chosen options
+   */
+  onExport(): void {
+    if (!this.hasFields || this.rowCount === 0) {
+      return;
+    }
+
+    const { format, scope, dateFormat, fields } = this.form.getRawValue();
+    this.dialogRef.close({
+      format,
+      scope,
+      dateFormat,
+      fields: this.columns.map(column => column.field).filter(field => fields[field])
+    });
+  }
+
+  /**
+   * Close without exporting
+   */
+  onCancel(): void {
+    this.dialogRef.close();
+  }
+}
@@ -0,0 +1,177 @@
+import { Component, Inject, inject } from '@angular/core';
+import { FormBuilder, FormControl, FormGroup, Validators } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+
+import { SKILL_LEVELS } from '../../../../models/participant.model';
+import {
+  FilterMatch,
+  MissingField,
+  ParticipantCondition,
+  SKILL_OPERATOR_LABELS,
+  SkillOperator,
+  TextOperator
+} from '../../../../models/participant-filter.model';
+import { SkillField } from '../../../../models/skill.model';
+import { SkillCatalogService } from '../../../../services/skill-catalog.service';
+import { parseDateString, toDateString } from '../../../../utils/date.util';
+
+/**
+ * Conditions of the participants list, passed in and returned by the dialog
+ */
+export interface FilterDialogData {
+  match: FilterMatch;
+  conditions: ParticipantCondition[];
+}
+
+/**
+ * Values of one condition row; the row holds the controls of every
+ * condition type and only those of the selected type are read
+ */
+interface ConditionRowValue {
+  type: ParticipantCondition['type'];
+  skill: SkillField;
+  skillOperator: SkillOperator;
+  score: number;
+  textOperator: TextOperator;
+  text: string;
+  from: Date | null;
+  to: Date | null;
+  missing: MissingField;
+}
+
+type ConditionRow = FormGroup<{ [K in keyof ConditionRowValue]: FormControl<ConditionRowValue[K]> }>;
+
+/**
+ * Kinds of condition offered when adding a row
+ */
+const CONDITION_TYPES: { value: ParticipantCondition['type']; label: string }[] = [
+  { value: 'skill', label: 'Skill level' },
+  { value: 'outcome', label: 'Outcome' },
+  { value: 'created', label: 'Registered' },
+  { value: 'missing', label: 'Missing profile' }
+];
+
+/**
+ * Dialog for building the list filter: skill thresholds, outcome text,
+ * registration date range and missing LinkedIn/GitHub, combined with AND or OR
+ * Returns the new filter on apply, or undefined when cancelled
+ */
+@Component({
+  selector: 'app-filter-dialog',
+  templateUrl: './filter-dialog.component.html',
+  styleUrls: ['./filter-dialog.component.scss'],
+  standalone: false
+})
+export class FilterDialogComponent {
+  private readonly fb = inject(FormBuilder);
+
+  readonly skills = inject(SkillCatalogService).activeSkills;
+  readonly skillLevels = SKILL_LEVELS;
+  readonly conditionTypes = CONDITION_TYPES;
+  readonly skillOperators = Object.entries(SKILL_OPERATOR_LABELS) as [SkillOperator, string][];
+
+  readonly match = this.fb.nonNullable.control<FilterMatch>('all');
+  readonly rows = this.fb.array<ConditionRow>([]);
+
+  constructor(
+    public dialogRef: MatDialogRef<FilterDialogComponent, FilterDialogData>,
+    @Inject(MAT_DIALOG_DATA) public data: FilterDialogData
+  ) {
+    this.match.setValue(data.match);
+    data.conditions.forEach(condition => this.rows.push(this.createRow(condition)));
+    if (this.rows.length === 0) {
+      this.addCondition();
+    }
+  }
+
+  /**
+   * Append an empty condition row
+   */
+  addCondition(): void {
+    this.rows.push(this.createRow());
+  }
+
+  /**
+   * Remove a condition row
+   */
+  removeCondition(index: number): void {
+    this.rows.removeAt(index);
+  }
+
+  /**
+   * Remove every condition row
+   */
+  clearAll(): void {
+    this.rows.clear();
+  }
+
+  /**
+   * Whether every row describes a complete condition
+   */
+  canApply(): boolean {
+    return this.rows.valid && this.rows.controls.every(row => !!this.toCondition(row.getRawValue()));
+  }
+
+  /**
+   * Close the dialog with the entered conditions
+   */
+  onApply(): void {
+    if (!this.canApply()) {
+      return;
+    }
+    const conditions = this.rows.controls
+      .map(row => this.toCondition(row.getRawValue()))
+      .filter((condition): condition is ParticipantCondition => !!condition);
+    this.dialogRef.close({ match: this.match.value, conditions });
+  }
+
+  /**
+   * Close without changes
+   */
+  onCancel(): void {
+    this.dialogRef.close();
+  }
+
+  /**
+   * Condition row, filled from an existing condition or with defaults
+   */
+  private createRow(condition?: ParticipantCondition): ConditionRow {
+    return this.fb.nonNullable.group({
+      type: [condition?.type ?? 'skill' as ParticipantCondition['type']],
+      skill: [condition?.type === 'skill' ? condition.field : this.skills()[0]?.field ?? ('' as SkillField)],
+      skillOperator: [condition?.type === 'skill' ? condition.operator : 'gte' as SkillOperator],
+      score: [condition?.type === 'skill' ? condition.value : 7, [Validators.min(0), Validators.max(10)]],
+      textOperator: [condition?.type === 'outcome' ? condition.operator : 'contains' as TextOperator],
+      text: [condition?.type === 'outcome' ? condition.value : '', [Validators.maxLength(1000)]],
+      from: [condition?.type === 'created' ? parseDateString(condition.from) : null as Date | null],
+      to: [condition?.type === 'created' ? parseDateString(condition.to) : null as Date | null],
+      missing: [condition?.type === 'missing' ? condition.field : 'linkedin' as MissingField]
+    });
+  }
+
+  /**
+   * Read the condition described by a row; null while it is incomplete
+   */
+  private toCondition(value: ConditionRowValue): ParticipantCondition | null {
+    switch (value.type) {
+      case 'skill':
+        return value.skill
+          ? { type: 'skill', field: value.skill, operator: value.skillOperator, value: Number(value.score) }
+          : null;
+      case 'outcome':
+        return value.text.trim()
+          ? { type: 'outcome', operator: value.textOperator, value: value.text.trim() }
+          : null;
+      case 'created':
+        return value.from || value.to
+          ? {
+            type: 'created',
+            from: value.from ? toDateString(value.from) : null,
+            to: value.to ? toDateString(value.to) : null
+          }
+          : null;
+      case 'missing':
+        return { type: 'missing', field: value.missing };
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { Component, Inject, WritableSignal, computed, signal } from '@angular/core';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+
+import {
+  Participant,
+  ParticipantField,
+  UpdateParticipantDto,
+  participantFields
+} from '../../../../models/participant.model';
+import { DuplicatePair, ParticipantMerge } from '../../../../models/participant-duplicate.model';
+import { isSkillField, skillScore } from '../../../../models/skill.model';
+import { PARTICIPANT_FIELD_LABELS } from '../../../../shared/participant-validation';
+import { SkillCatalogService } from '../../../../services/skill-catalog.service';
+
+type MergeSide = 'first' | 'second';
+type MergeField = ParticipantField;
+
+/**
+ * Side-by-side merge of a duplicate pair
+ * The user picks the surviving record and, per field, which value to keep;
+ * skills default to the higher score and text fields to the non-empty value.
+ * Retired skills are listed too, so neither record's scores are lost.
+ * Returns the merge on confirm, or undefined when cancelled.
+ */
+@Component({
+  selector: 'app-merge-dialog',
+  templateUrl: './merge-dialog.component.html',
+  styleUrls: ['./merge-dialog.component.scss'],
+  standalone: false
+})
+export class MergeDialogComponent {
+  readonly fields: MergeField[];
+  readonly sides: MergeSide[] = ['first', 'second'];
+
+  readonly survivorSide = signal<MergeSide>('first');
+  readonly choices: WritableSignal<Record<MergeField, MergeSide>>;
+
+  readonly survivor = computed(() => this.record(this.survivorSide()));
+  readonly duplicate = computed(() => this.record(this.survivorSide() === 'first' ? 'second' : 'first'));
+
+  constructor(
+    public dialogRef: MatDialogRef<MergeDialogComponent, ParticipantMerge>,
+    @Inject(MAT_DIALOG_DATA) public data: DuplicatePair,
+    private skillCatalog: SkillCatalogService
+  ) {
+    this.fields = participantFields(this.skillCatalog.skills().map(skill => skill.field));
+    this.choices = signal(this.defaultChoices());
+  }
+
+  /**
+   * Display value of a field on one side
+   */
+  value(side: MergeSide, field: MergeField): string | number {
+    return this.record(side)[field] ?? '';
+  }
+
+  /**
+   * Whether both records hold the same value for a field
+   */
+  isSame(field: MergeField): boolean {
+    return this.value('first', field) === this.value('second', field);
+  }
+
+  isSkill(field: MergeField): boolean {
+    return isSkillField(field);
+  }
+
+  /**
+   * Row label; retired skills are marked as such
+   */
+  fieldLabel(field: MergeField): string {
+    if (!isSkillField(field)) {
+      return PARTICIPANT_FIELD_LABELS[field];
+    }
+    const skill = this.skillCatalog.find(field);
+    return skill?.retired ? `${skill.label} (retired)` : this.skillCatalog.label(field);
+  }
+
+  /**
+   * Keep the value of one side for a field
+   */
+  choose(field: MergeField, side: MergeSide): void {
+    this.choices.update(choices => ({ ...choices, [field]: side }));
+  }
+
+  /**
+   * Close the dialog with the survivor, the duplicate to delete and the
+   * fields whose kept value differs from the survivor's current one
+   */
+  onMerge(): void {
+    const survivor = this.survivor();
+    const choices = this.choices();
+    const changes = Object.fromEntries(
+      this.fields
+        .map(field => [field, this.value(choices[field], field)] as const)
+        .filter(([field, value]) => value !== (survivor[field] ?? ''))
+    ) as UpdateParticipantDto;
+
+    this.dialogRef.close({ survivor, duplicate: this.duplicate(), changes });
+  }
+
+  /**
+   * Close without merging
+   */
+  onCancel(): void {
+    this.dialogRef.close();
+  }
+
+  private record(side: MergeSide): Participant {
+    return side === 'first' ? this.data.first : this.data.second;
+  }
+
+  private defaultChoices(): Record<MergeField, MergeSide> {
+    const { first, second } = this.data;
+    return Object.fromEntries(
+      this.fields.map(field => {
+        if (isSkillField(field)) {
+          return [field, skillScore(second, field) > skillScore(first, field) ? 'second' : 'first'];
+        }
+        return [field, !first[field] && second[field] ? 'second' : 'first'];
+      })
+    ) as Record<MergeField, MergeSide>;
+  }
+}
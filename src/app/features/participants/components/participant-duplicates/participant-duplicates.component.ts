@@ -0,0 +1,131 @@
+import { Component, DestroyRef, OnInit, computed, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Router } from '@angular/router';
+import { MatDialog } from '@angular/material/dialog';
+import { filter, switchMap, tap } from 'rxjs/operators';
+
+import { ParticipantDuplicatesService } from '../../../../services/participant-duplicates.service';
+import { NotificationService } from '../../../../services/notification.service';
+import {
+  DuplicateMatchType,
+  DuplicatePair,
+  ParticipantMerge
+} from '../../../../models/participant-duplicate.model';
+import { Participant } from '../../../../models/participant.model';
+import { MergeDialogComponent } from '../merge-dialog/merge-dialog.component';
+
+/**
+ * Lists likely duplicate registrations and lets reviewers merge or dismiss them
+ */
+@Component({
+  selector: 'app-participant-duplicates',
+  templateUrl: './participant-duplicates.component.html',
+  styleUrls: ['./participant-duplicates.component.scss'],
+  standalone: false
+})
+export class ParticipantDuplicatesComponent implements OnInit {
+  // Injected services
+  private readonly duplicatesService = inject(ParticipantDuplicatesService);
+  private readonly notificationService = inject(NotificationService);
+  private readonly router = inject(Router);
+  private readonly dialog = inject(MatDialog);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly matchIcons: Record<DuplicateMatchType, string> = {
+    whatsapp: 'phone',
+    email: 'email',
+    github_id: 'code',
+    linkedin: 'work',
+    name: 'person'
+  };
+
+  // Reactive state
+  readonly loading = signal<boolean>(false);
+  readonly error = signal<string | null>(null);
+  readonly merging = signal<string | null>(null);
+  private readonly pairs = signal<DuplicatePair[]>([]);
+  // Pairs marked "not a duplicate" stay hidden until the page is reloaded
+  private readonly dismissed = signal<ReadonlySet<string>>(new Set());
+
+  readonly visiblePairs = computed(() => this.pairs().filter(pair => !this.dismissed().has(pair.key)));
+
+  ngOnInit(): void {
+    this.scan();
+  }
+
+  /**
+   * Look for duplicates across all participants
+   */
+  scan(): void {
+    this.loading.set(true);
+    this.error.set(null);
+    this.duplicatesService.scan()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: pairs => {
+          this.pairs.set(pairs);
+          this.loading.set(false);
+        },
+        error: error => {
+          this.error.set(error.message);
+          this.loading.set(false);
+        }
+      });
+  }
+
+  /**
+   * Open the side-by-side merge view and apply the chosen merge
+   */
+  merge(pair: DuplicatePair): void {
+    this.dialog
+      .open<MergeDialogComponent, DuplicatePair, ParticipantMerge>(MergeDialogComponent, {
+        width: '760px',
+        maxWidth: '95vw',
+        data: pair
+      })
+      .afterClosed()
+      .pipe(
+        filter((merge): merge is ParticipantMerge => !!merge),
+        tap(() => this.merging.set(pair.key)),
+        switchMap(merge => this.duplicatesService.merge(merge))
+      )
+      .subscribe({
+        next: survivor => {
+          this.merging.set(null);
+          this.notificationService.showSuccess(`Merged duplicate into "${survivor.name}"`);
+          this.scan();
+        },
+        error: () => {
+          // Failures are rolled back and reported by ParticipantsService
+          this.merging.set(null);
+          this.scan();
+        }
+      });
+  }
+
+  /**
+   * Hide a pair that is not actually the same person
+   */
+  dismiss(pair: DuplicatePair): void {
+    this.dismissed.update(keys => new Set(keys).add(pair.key));
+  }
+
+  viewParticipant(participant: Participant): void {
+    this.router.navigate(['/participants', participant.id]);
+  }
+
+  goToList(): void {
+    this.router.navigate(['/participants']);
+  }
+
+  /**
+   * Confidence as a whole percentage
+   */
+  scorePercent(pair: DuplicatePair): number {
+    return Math.round(pair.score * 100);
+  }
+
+  trackByPair(index: number, pair: DuplicatePair): string {
+    return pair.key;
+  }
+}
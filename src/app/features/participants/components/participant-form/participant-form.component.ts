@@ -1,11 +1,21 @@
-import { Component, OnInit, signal, inject } from '@angular/core';
-import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { Component, OnInit, signal, computed, inject } from '@angular/core';
+import { FormBuilder, FormGroup } from '@angular/forms';
 import { Router, ActivatedRoute } from '@angular/router';
 import { Location } from '@angular/common';
 
 import { ParticipantsService } from '../../../../services/participants.service';
 import { NotificationService } from '../../../../services/notification.service';
+import { CohortsService } from '../../../../services/cohorts.service';
+import { SkillCatalogService } from '../../../../services/skill-catalog.service';
 import { Participant, CreateParticipantDto, UpdateParticipantDto, SKILL_LEVELS } from '../../../../models/participant.model';
+import { isSkillField, skillScore } from '../../../../models/skill.model';
+import { IDLE_REQUEST_STATE } from '../../../../models/request-state.model';
+import { ApiError } from '../../../../models/api-error.model';
+import {
+  PARTICIPANT_VALIDATORS,
+  SKILL_VALIDATORS,
+  describeValidationErrors
+} from '../../../../shared/participant-validation';
 
 /**
  * Component for creating and editing participants
@@ -22,6 +32,8 @@ export class ParticipantFormComponent implements OnInit {
   private readonly fb = inject(FormBuilder);
   private readonly participantsService = inject(ParticipantsService);
   private readonly notificationService = inject(NotificationService);
+  private readonly cohortsService = inject(CohortsService);
+  private readonly skillCatalog = inject(SkillCatalogService);
   private readonly router = inject(Router);
   private readonly route = inject(ActivatedRoute);
   private readonly location = inject(Location);
@@ -29,17 +41,42 @@ export class ParticipantFormComponent implements OnInit {
   // Form and state
   participantForm!: FormGroup;
   skillLevels = SKILL_LEVELS;
+  readonly cohorts = this.cohortsService.cohorts;
+  readonly skills = this.skillCatalog.activeSkills;
   
   // Signals for reactive state
   private readonly isEditMode = signal<boolean>(false);
-  private readonly isLoading = signal<boolean>(false);
   private readonly participantId = signal<number | null>(null);
   private readonly currentParticipant = signal<Participant | null>(null);
+  private readonly accessDenied = signal<boolean>(false);
+
+  // Request status of this participant only, so other rows' activity never blocks the form
+  private readonly loadState = computed(() => {
+    const id = this.participantId();
+    return id === null ? IDLE_REQUEST_STATE : this.participantsService.entityState(id, 'get')();
+  });
+  private readonly saveState = computed(() => {
+    const id = this.participantId();
+    return id === null
+      ? this.participantsService.operationState('create')()
+      : this.participantsService.entityState(id, 'update')();
+  });
 
   // Public readonly signals
-  readonly loading = this.isLoading.asReadonly();
+  readonly saving = computed(() => this.saveState().status === 'pending');
+  readonly loading = computed(() => this.loadState().status === 'pending' || this.saving());
   readonly editMode = this.isEditMode.asReadonly();
   readonly participant = this.currentParticipant.asReadonly();
+  readonly forbidden = this.accessDenied.asReadonly();
+  // Retired skills are not part of the form, so saving leaves their scores untouched
+  readonly retiredScores = computed(() => {
+    const participant = this.currentParticipant();
+    return participant
+      ? this.skillCatalog.retiredSkills()
+        .map(skill => ({ skill, score: skillScore(participant, skill.field) }))
+        .filter(entry => entry.score > 0)
+      : [];
+  });
 
   ngOnInit(): void {
     this.initializeForm();
@@ -47,22 +84,21 @@ export class ParticipantFormComponent implements OnInit {
   }
 
   /**
-   * Initialize the reactive form with validation
+   * Initialize the reactive form with the shared participant validation rules
+   * and one control per active skill
    */
   private initializeForm(): void {
+    const rules = PARTICIPANT_VALIDATORS;
     this.participantForm = this.fb.group({
-      name: ['', [Validators.required, Validators.minLength(2), Validators.maxLength(100)]],
-      email: ['', [Validators.required, Validators.email, Validators.maxLength(255)]],
-      whatsapp: ['', [Validators.required, Validators.pattern(/^[\+]?[0-9\s\-\(\)]{10,20}$/)]],
-      linkedin: ['', [Validators.pattern(/^https?:\/\/(www\.)?linkedin\.com\/.*$/)]],
-      github_id: ['', [Validators.maxLength(50)]],
-      python_skill: [0, [Validators.min(0), Validators.max(10)]],
-      angular_skill: [0, [Validators.min(0), Validators.max(10)]],
-      javascript_skill: [0, [Validators.min(0), Validators.max(10)]],
-      html_skill: [0, [Validators.min(0), Validators.max(10)]],
-      css_skill: [0, [Validators.min(0), Validators.max(10)]],
-      java_skill: [0, [Validators.min(0), Validators.max(10)]],
-      outcome: ['', [Validators.maxLength(1000)]]
+      name: ['', rules.name],
+      email: ['', rules.email],
+      whatsapp: ['', rules.whatsapp],
+      linkedin: ['', rules.linkedin],
+      github_id: ['', rules.github_id],
+      ...Object.fromEntries(this.skills().map(skill => [skill.field, [0, SKILL_VALIDATORS]])),
+      outcome: ['', rules.outcome],
+      // New participants join the cohort currently selected in the header
+      cohort_id: [this.cohortsService.selectedCohortId()]
     });
   }
 
@@ -85,16 +121,17 @@ export class ParticipantFormComponent implements OnInit {
    * Load participant data for editing
    */
   private loadParticipant(id: number): void {
-    this.isLoading.set(true);
     this.participantsService.get(id).subscribe({
       next: (participant) => {
         this.currentParticipant.set(participant);
         this.populateForm(participant);
-        this.isLoading.set(false);
       },
-      error: (error) => {
+      error: (error: ApiError) => {
+        if (error.status === 403) {
+          this.accessDenied.set(true);
+          return;
+        }
         this.notificationService.showError(error.message);
-        this.isLoading.set(false);
         this.router.navigate(['/participants']);
       }
     });
@@ -110,13 +147,9 @@ export class ParticipantFormComponent implements OnInit {
       whatsapp: participant.whatsapp,
       linkedin: participant.linkedin,
       github_id: participant.github_id,
-      python_skill: participant.python_skill,
-      angular_skill: participant.angular_skill,
-      javascript_skill: participant.javascript_skill,
-      html_skill: participant.html_skill,
-      css_skill: participant.css_skill,
-      java_skill: participant.java_skill,
-      outcome: participant.outcome
+      ...Object.fromEntries(this.skills().map(skill => [skill.field, skillScore(participant, skill.field)])),
+      outcome: participant.outcome,
+      cohort_id: participant.cohort_id
     });
   }
 
@@ -125,7 +158,6 @@ export class ParticipantFormComponent implements OnInit {
    */
   onSubmit(): void {
     if (this.participantForm.valid) {
-      this.isLoading.set(true);
       const formData = this.participantForm.value;
 
       if (this.isEditMode()) {
@@ -147,11 +179,10 @@ export class ParticipantFormComponent implements OnInit {
       next: (participant) => {
         this.notificationService.showSuccess(`Participant "${participant.name}" created successfully`);
         this.router.navigate(['/participants']);
-        this.isLoading.set(false);
       },
-      error: (error) => {
-        this.notificationService.showError(error.message);
-        this.isLoading.set(false);
+      error: (error: unknown) => {
+        // The service reverts the optimistic change and notifies the user
+        this.applyServerErrors(error);
       }
     });
   }
@@ -165,12 +196,11 @@ export class ParticipantFormComponent implements OnInit {
       this.participantsService.update(id, data).subscribe({
         next: (participant) => {
           this.notificationService.showSuccess(`Participant "${participant.name}" updated successfully`);
-          this.router.navigate(['/participants']);
-          this.isLoading.set(false);
+          this.router.navigate(['/participants', participant.id]);
         },
-        error: (error) => {
-          this.notificationService.showError(error.message);
-          this.isLoading.set(false);
+        error: (error: unknown) => {
+          // The service reverts the optimistic change and notifies the user
+          this.applyServerErrors(error);
         }
       });
     }
@@ -193,10 +223,11 @@ export class ParticipantFormComponent implements OnInit {
       this.participantForm.reset();
       // Reset skill levels to 0
       Object.keys(this.participantForm.controls).forEach(key => {
-        if (key.includes('_skill')) {
+        if (isSkillField(key)) {
           this.participantForm.get(key)?.setValue(0);
         }
       });
+      this.participantForm.get('cohort_id')?.setValue(this.cohortsService.selectedCohortId());
     }
     this.notificationService.showInfo('Form reset to original values');
   }
@@ -210,55 +241,7 @@ export class ParticipantFormComponent implements OnInit {
       return '';
     }
 
-    const errors = control.errors;
-    
-    if (errors['required']) {
-      return `${this.getFieldLabel(controlName)} is required`;
-    }
-    if (errors['email']) {
-      return 'Please enter a valid email address';
-    }
-    if (errors['minlength']) {
-      return `${this.getFieldLabel(controlName)} must be at least ${errors['minlength'].requiredLength} characters`;
-    }
-    if (errors['maxlength']) {
-      return `${this.getFieldLabel(controlName)} cannot exceed ${errors['maxlength'].requiredLength} characters`;
-    }
-    if (errors['pattern']) {
-      if (controlName === 'whatsapp') {
-        return 'Please enter a valid WhatsApp number (10-20 digits, can include +, -, (, ), spaces)';
-      }
-      if (controlName === 'linkedin') {
-        return 'Please enter a valid LinkedIn URL (https://linkedin.com/...)';
-      }
-      return 'Please enter a valid format';
-    }
-    if (errors['min'] || errors['max']) {
-      return 'Skill level must be between 0 and 10';
-    }
-
-    return 'Invalid input';
-  }
-
-  /**
-   * Get user-friendly field label
-   */
-  private getFieldLabel(controlName: string): string {
-    const labels: { [key: string]: string } = {
-      name: 'Name',
-      email: 'Email',
-      whatsapp: 'WhatsApp',
-      linkedin: 'LinkedIn',
-      github_id: 'GitHub ID',
-      python_skill: 'Python Skill',
-      angular_skill: 'Angular Skill',
-      javascript_skill: 'JavaScript Skill',
-      html_skill: 'HTML Skill',
-      css_skill: 'CSS Skill',
-      java_skill: 'Java Skill',
-      outcome: 'Outcome'
-    };
-    return labels[controlName] || controlName;
+    return describeValidationErrors(controlName, control.errors);
   }
 
   /**
@@ -269,6 +252,25 @@ export class ParticipantFormComponent implements OnInit {
     return !!(control && control.errors && control.touched);
   }
 
+  /**
+   * Show server-side validation messages next to the matching form controls
+   * They are cleared by the control's own validators on the next edit
+   */
+  private applyServerErrors(error: unknown): void {
+    if (!(error instanceof ApiError) || !error.hasFieldErrors()) {
+      return;
+    }
+
+    Object.keys(error.fieldErrors).forEach(field => {
+      const control = this.participantForm.get(field);
+      const message = error.fieldError(field);
+      if (control && message) {
+        control.setErrors({ ...control.errors, server: message });
+        control.markAsTouched();
+      }
+    });
+  }
+
   /**
    * Mark all form fields as touched to show validation errors
    */
@@ -290,7 +292,7 @@ export class ParticipantFormComponent implements OnInit {
    * Get submit button text based on mode
    */
   getSubmitButtonText(): string {
-    if (this.isLoading()) {
+    if (this.saving()) {
       return this.isEditMode() ? 'Updating...' : 'Creating...';
     }
     return this.isEditMode() ? 'Update Participant' : 'Create Participant';
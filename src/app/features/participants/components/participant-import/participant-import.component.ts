@@ -0,0 +1,289 @@
+import { Component, DestroyRef, computed, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { StepperSelectionEvent } from '@angular/cdk/stepper';
+import { Router } from '@angular/router';
+import { Observable, of } from 'rxjs';
+import { tap } from 'rxjs/operators';
+
+import { ParticipantsService } from '../../../../services/participants.service';
+import { ParticipantImportService } from '../../../../services/participant-import.service';
+import { NotificationService } from '../../../../services/notification.service';
+import { CohortsService } from '../../../../services/cohorts.service';
+import { SkillCatalogService } from '../../../../services/skill-catalog.service';
+import { Participant, ParticipantField } from '../../../../models/participant.model';
+import { isSkillField } from '../../../../models/skill.model';
+import {
+  ImportColumnMapping,
+  ImportRow,
+  ImportSheet,
+  REQUIRED_IMPORT_FIELDS
+} from '../../../../models/participant-import.model';
+import { BatchProgress } from '../../../../models/request-state.model';
+import { ApiError } from '../../../../models/api-error.model';
+import { PARTICIPANT_FIELD_LABELS } from '../../../../shared/participant-validation';
+
+/**
+ * Outcome of one imported row that the server rejected
+ */
+interface ImportFailure {
+  row: ImportRow;
+  reason: string;
+}
+
+/**
+ * Step-by-step import of participants from a CSV or Excel registration sheet:
+ * upload, map columns, preview validation and duplicates, then create the
+ * accepted rows with live progress
+ */
+@Component({
+  selector: 'app-participant-import',
+  templateUrl: './participant-import.component.html',
+  styleUrls: ['./participant-import.component.scss'],
+  standalone: false
+})
+export class ParticipantImportComponent {
+  // Injected services
+  private readonly participantsService = inject(ParticipantsService);
+  private readonly importService = inject(ParticipantImportService);
+  private readonly notificationService = inject(NotificationService);
+  private readonly cohortsService = inject(CohortsService);
+  private readonly skillCatalog = inject(SkillCatalogService);
+  private readonly router = inject(Router);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly fields = computed(() => this.importService.importFields());
+  readonly previewColumns = ['rowNumber', 'name', 'email', 'status', 'issues'];
+  // Imported participants join the cohort selected in the header
+  readonly targetCohort = this.cohortsService.selectedCohort;
+
+  // Wizard state
+  readonly reading = signal(false);
+  readonly sheet = signal<ImportSheet | null>(null);
+  readonly mapping = signal<ImportColumnMapping | null>(null);
+  readonly rows = signal<ImportRow[]>([]);
+  readonly previewing = signal(false);
+  readonly skipDuplicates = signal(true);
+  readonly progress = signal<BatchProgress<Participant> | null>(null);
+  readonly failures = signal<ImportFailure[]>([]);
+
+  // Existing participants are fetched once per visit for duplicate checks
+  private existing: Participant[] | null = null;
+
+  readonly missingFields = computed(() => {
+    const mapping = this.mapping();
+    return mapping ? REQUIRED_IMPORT_FIELDS.filter(field => mapping[field] === null) : REQUIRED_IMPORT_FIELDS;
+  });
+  readonly mappingComplete = computed(() => this.mapping() !== null && this.missingFields().length === 0);
+
+  readonly validCount = computed(() => this.rows().filter(row => row.status === 'valid').length);
+  readonly invalidCount = computed(() => this.rows().filter(row => row.status === 'invalid').length);
+  readonly duplicateCount = computed(() => this.rows().filter(row => row.status === 'duplicate').length);
+  readonly issueRows = computed(() => this.rows().filter(row => row.status !== 'valid'));
+  readonly acceptedRows = computed(() =>
+    this.rows().filter(row =>
+      row.status === 'valid' || (row.status === 'duplicate' && !this.skipDuplicates())
+    )
+  );
+
+  readonly importing = computed(() => {
+    const progress = this.progress();
+    return progress !== null && progress.completed < progress.total;
+  });
+  readonly finished = computed(() => {
+    const progress = this.progress();
+    return progress !== null && progress.completed === progress.total;
+  });
+  readonly progressPercent = computed(() => {
+    const progress = this.progress();
+    return progress && progress.total ? (progress.completed / progress.total) * 100 : 0;
+  });
+  readonly createdCount = computed(() => this.progress()?.result.succeeded.length ?? 0);
+
+  /**
+   * Read the chosen file and guess the column mapping from its headers
+   */
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) {
+      return;
+    }
+
+    this.reading.set(true);
+    this.importService.readFile(file)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: sheet => {
+          this.reading.set(false);
+          if (sheet.rows.length === 0) {
+            this.notificationService.showWarning(`${file.name} has no data rows to import`);
+            return;
+          }
+          this.sheet.set(sheet);
+          this.mapping.set(this.importService.detectMapping(sheet.headers));
+          this.rows.set([]);
+        },
+        error: error => {
+          console.error('Failed to read import file:', error);
+          this.reading.set(false);
+          this.notificationService.showError(`Could not read ${file.name}. Please upload a CSV or Excel file.`);
+        }
+      });
+  }
+
+  /**
+   * Change the sheet column used for a field
+   */
+  setMapping(field: ParticipantField, column: number | null): void {
+    this.mapping.update(mapping => (mapping ? { ...mapping, [field]: column } : mapping));
+  }
+
+  /**
+   * Header of the column a field is mapped to, for display
+   */
+  mappedHeader(field: ParticipantField): string {
+    const column = this.mapping()?.[field];
+    return column === null || column === undefined ? '' : this.sheet()?.headers[column] ?? '';
+  }
+
+  /**
+   * Sample value of a mapped column from the first data row
+   */
+  sampleValue(field: ParticipantField): string {
+    const column = this.mapping()?.[field];
+    return column === null || column === undefined ? '' : this.sheet()?.rows[0]?.[column] ?? '';
+  }
+
+  /**
+   * Label of a participant field; skill labels come from the catalog
+   */
+  fieldLabel(field: ParticipantField): string {
+    return isSkillField(field) ? this.skillCatalog.label(field) : PARTICIPANT_FIELD_LABELS[field];
+  }
+
+  isRequired(field: ParticipantField): boolean {
+    return REQUIRED_IMPORT_FIELDS.includes(field);
+  }
+
+  /**
+   * Rebuild the preview whenever the preview step is entered, so edits to
+   * the mapping are always reflected
+   */
+  onStepChange(event: StepperSelectionEvent): void {
+    if (event.selectedIndex === 2) {
+      this.buildPreview();
+    }
+  }
+
+  /**
+   * Validate every row and flag duplicates against existing participants
+   */
+  buildPreview(): void {
+    const sheet = this.sheet();
+    const mapping = this.mapping();
+    if (!sheet || !mapping) {
+      return;
+    }
+
+    this.previewing.set(true);
+    this.loadExisting()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: existing => {
+          this.rows.set(this.importService.buildPreview(sheet, mapping, existing));
+          this.previewing.set(false);
+        },
+        error: (error: ApiError) => {
+          // Without the current participants duplicates cannot be checked, so do not guess
+          this.previewing.set(false);
+          this.rows.set([]);
+          this.notificationService.showError(`Could not check for duplicates: ${error.message}`);
+        }
+      });
+  }
+
+  /**
+   * Human readable list of a row's problems
+   */
+  describeIssues(row: ImportRow): string {
+    const issues = Object.values(row.errors);
+    if (row.duplicate) {
+      const field = row.duplicate.field === 'email' ? 'email' : 'WhatsApp number';
+      issues.push(`Same ${field} as ${row.duplicate.matches}`);
+    }
+    return issues.join('; ');
+  }
+
+  /**
+   * Create all accepted rows, reporting progress as each request settles
+   */
+  startImport(): void {
+    const rows = this.acceptedRows();
+    if (rows.length === 0 || this.importing()) {
+      return;
+    }
+
+    this.failures.set([]);
+    this.progress.set({ completed: 0, total: rows.length, result: { succeeded: [], failed: [] } });
+    const cohortId = this.targetCohort()?.id ?? null;
+    this.participantsService.bulkCreate(rows.map(row => ({ ...row.dto, cohort_id: cohortId })))
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: progress => this.progress.set(progress),
+        complete: () => this.reportImport(rows)
+      });
+  }
+
+  /**
+   * Start over with another file
+   */
+  reset(): void {
+    this.sheet.set(null);
+    this.mapping.set(null);
+    this.rows.set([]);
+    this.progress.set(null);
+    this.failures.set([]);
+    this.existing = null;
+  }
+
+  goToList(): void {
+    this.router.navigate(['/participants']);
+  }
+
+  private loadExisting(): Observable<Participant[]> {
+    if (this.existing) {
+      return of(this.existing);
+    }
+    return this.participantsService.listAll().pipe(tap(participants => (this.existing = participants)));
+  }
+
+  private reportImport(rows: ImportRow[]): void {
+    const result = this.progress()?.result;
+    if (!result) {
+      return;
+    }
+
+    this.failures.set(result.failed.map(({ id, error }) => ({
+      row: rows[id],
+      reason: this.describeFailure(error)
+    })));
+    // Imported participants now exist, so later previews must see them
+    this.existing = null;
+
+    const created = result.succeeded.length;
+    const failed = result.failed.length;
+    if (failed === 0) {
+      this.notificationService.showSuccess(`Imported ${created} participant${created === 1 ? '' : 's'}`);
+    } else if (created > 0) {
+      this.notificationService.showWarning(`Imported ${created} participants; ${failed} rows failed`);
+    } else {
+      this.notificationService.showError(`Import failed for all ${failed} rows`);
+    }
+  }
+
+  private describeFailure(error: ApiError): string {
+    const fieldMessages = Object.values(error.fieldErrors).flat();
+    return fieldMessages.length ? fieldMessages.join('; ') : error.message;
+  }
+}
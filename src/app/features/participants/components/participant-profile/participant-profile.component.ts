@@ -0,0 +1,281 @@
+import { Component, OnInit, signal, computed, inject, DestroyRef } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router } from '@angular/router';
+import { ChartConfiguration, ChartData } from 'chart.js';
+import { map } from 'rxjs/operators';
+
+import { ParticipantsService } from '../../../../services/participants.service';
+import { NotificationService } from '../../../../services/notification.service';
+import { CohortsService } from '../../../../services/cohorts.service';
+import { SkillCatalogService } from '../../../../services/skill-catalog.service';
+import { Participant } from '../../../../models/participant.model';
+import { IDLE_REQUEST_STATE } from '../../../../models/request-state.model';
+import { ApiError } from '../../../../models/api-error.model';
+import { SkillField, skillScore } from '../../../../models/skill.model';
+import { averageSkill } from '../../../../utils/participant-stats.util';
+import { queryToParams } from '../../../../utils/participant-query.util';
+
+/**
+ * Read-only profile of one participant
+ * Features: contact links, skill radar compared with the cohort average,
+ * outcome and timestamps, previous/next through the current list order
+ * (crossing into neighbouring pages) and an Edit button leading to the form
+ */
+@Component({
+  selector: 'app-participant-profile',
+  templateUrl: './participant-profile.component.html',
+  styleUrls: ['./participant-profile.component.scss'],
+  standalone: false
+})
+export class ParticipantProfileComponent implements OnInit {
+  // Injected services
+  private readonly participantsService = inject(ParticipantsService);
+  private readonly notificationService = inject(NotificationService);
+  private readonly cohortsService = inject(CohortsService);
+  private readonly skillCatalog = inject(SkillCatalogService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly skills = this.skillCatalog.activeSkills;
+
+  // Participant shown, read from the entity map so edits elsewhere show up at once
+  private readonly participantId = signal<number | null>(null);
+  readonly participant = computed(() => {
+    const id = this.participantId();
+    return id === null ? undefined : this.participantsService.selectParticipant(id)();
+  });
+  private readonly loadState = computed(() => {
+    const id = this.participantId();
+    return id === null ? IDLE_REQUEST_STATE : this.participantsService.entityState(id, 'get')();
+  });
+  readonly loading = computed(() => this.loadState().status === 'pending' && !this.participant());
+  readonly forbidden = signal<boolean>(false);
+
+  // Participants of the cohort the shown participant belongs to; without a
+  // cohort, everyone, as in the dashboard statistics for all cohorts
+  private readonly comparisonGroup = signal<{ cohortId: number | null; participants: Participant[] } | null>(null);
+  readonly comparisonLabel = computed(() => {
+    const cohortId = this.participant()?.cohort_id ?? null;
+    return cohortId === null
+      ? 'Average of all participants'
+      : `${this.cohortsService.nameOf(cohortId) || 'Cohort'} average`;
+  });
+
+  // Position in the list the profile was opened from
+  private readonly listIds = computed(() => this.participantsService.participants().map(p => p.id));
+  private readonly pagination = this.participantsService.pagination;
+  private readonly listIndex = computed(() => this.listIds().indexOf(this.participantId() ?? NaN));
+  readonly turningPage = signal<boolean>(false);
+  readonly position = computed(() => {
+    const index = this.listIndex();
+    const { currentPage, perPage, total } = this.pagination();
+    return index === -1 ? null : { number: (currentPage - 1) * perPage + index + 1, total };
+  });
+  readonly hasPrevious = computed(() =>
+    this.listIndex() > 0 || (this.listIndex() === 0 && this.pagination().currentPage > 1)
+  );
+  readonly hasNext = computed(() => {
+    const index = this.listIndex();
+    const { currentPage, lastPage } = this.pagination();
+    return index !== -1 && (index < this.listIds().length - 1 || currentPage < lastPage);
+  });
+
+  // Radar chart of the participant's scores against the comparison group average
+  readonly radarOptions: ChartConfiguration<'radar'>['options'] = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      r: {
+        min: 0,
+        max: 10,
+        ticks: { stepSize: 2 }
+      }
+    },
+    plugins: {
+      legend: {
+        display: true,
+        position: 'bottom'
+      }
+    }
+  };
+  readonly radarData = computed<ChartData<'radar'>>(() => {
+    const participant = this.participant();
+    const group = this.comparisonGroup();
+    const skills = this.skills();
+    if (!participant) {
+      return { labels: [], datasets: [] };
+    }
+
+    const datasets: ChartData<'radar'>['datasets'] = [
+      {
+        label: participant.name,
+        data: skills.map(skill => skillScore(participant, skill.field)),
+        backgroundColor: 'rgba(0, 64, 64, 0.2)',
+        borderColor: '#004040',
+        pointBackgroundColor: '#004040'
+      }
+    ];
+    if (group && group.cohortId === (participant.cohort_id ?? null)) {
+      datasets.push({
+        label: this.comparisonLabel(),
+        data: skills.map(skill => averageSkill(group.participants, skill.field)),
+        backgroundColor: 'rgba(255, 223, 0, 0.2)',
+        borderColor: '#e6c900',
+        pointBackgroundColor: '#e6c900',
+        borderDash: [6, 4]
+      });
+    }
+    return { labels: skills.map(skill => skill.label), datasets };
+  });
+
+  ngOnInit(): void {
+    // The component is reused when stepping to the previous or next participant
+    this.route.paramMap
+      .pipe(
+        map(params => Number(params.get('id'))),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(id => this.loadParticipant(id));
+  }
+
+  /**
+   * Open the form for this participant
+   */
+  edit(): void {
+    this.router.navigate(['/participants', this.participantId(), 'edit']);
+  }
+
+  /**
+   * Return to the list page the profile was opened from
+   */
+  backToList(): void {
+    const query = this.participantsService.listQuery();
+    this.router.navigate(['/participants'], { queryParams: query ? queryToParams(query) : {} });
+  }
+
+  /**
+   * Show the previous participant of the list, loading the previous page when needed
+   */
+  previous(): void {
+    const index = this.listIndex();
+    if (index > 0) {
+      this.open(this.listIds()[index - 1]);
+    } else if (this.hasPrevious()) {
+      this.turnPage(this.pagination().currentPage - 1, ids => ids[ids.length - 1]);
+    }
+  }
+
+  /**
+   * Show the next participant of the list, loading the next page when needed
+   */
+  next(): void {
+    const index = this.listIndex();
+    if (index !== -1 && index < this.listIds().length - 1) {
+      this.open(this.listIds()[index + 1]);
+    } else if (this.hasNext()) {
+      this.turnPage(this.pagination().currentPage + 1, ids => ids[0]);
+    }
+  }
+
+  /**
+   * Name of the participant's cohort
+   */
+  cohortName(participant: Participant): string {
+    return this.cohortsService.nameOf(participant.cohort_id);
+  }
+
+  /**
+   * Click-to-chat link for the WhatsApp number
+   */
+  whatsappLink(participant: Participant): string {
+    return `https://wa.me/${participant.whatsapp.replace(/\D/g, '')}`;
+  }
+
+  /**
+   * GitHub profile link; the GitHub ID may be a username or a full URL
+   */
+  githubLink(participant: Participant): string {
+    return /^https?:\/\//.test(participant.github_id)
+      ? participant.github_id
+      : `https://github.com/${participant.github_id}`;
+  }
+
+  /**
+   * Initials shown in the avatar
+   */
+  initials(participant: Participant): string {
+    return participant.name
+      .split(/\s+/)
+      .filter(Boolean)
+      .slice(0, 2)
+      .map(part => part[0].toUpperCase())
+      .join('');
+  }
+
+  /**
+   * Score of a skill, 0 when not specified
+   */
+  score(participant: Participant, field: SkillField): number {
+    return skillScore(participant, field);
+  }
+
+  private open(id: number): void {
+    this.router.navigate(['/participants', id]);
+  }
+
+  private turnPage(page: number, pick: (ids: number[]) => number | undefined): void {
+    const query = this.participantsService.listQuery();
+    if (!query) {
+      return;
+    }
+    this.turningPage.set(true);
+    this.participantsService.list({ ...query, page }).subscribe({
+      next: () => {
+        this.turningPage.set(false);
+        const id = pick(this.listIds());
+        if (id !== undefined) {
+          this.open(id);
+        }
+      },
+      error: (error: ApiError) => {
+        this.turningPage.set(false);
+        this.notificationService.showError(error.message);
+      }
+    });
+  }
+
+  private loadParticipant(id: number): void {
+    this.forbidden.set(false);
+    this.participantId.set(id);
+    this.participantsService.get(id).subscribe({
+      next: participant => this.loadComparisonGroup(participant.cohort_id),
+      error: (error: ApiError) => {
+        if (error.status === 403) {
+          this.forbidden.set(true);
+          return;
+        }
+        this.notificationService.showError(error.message);
+        this.router.navigate(['/participants']);
+      }
+    });
+  }
+
+  /**
+   * Load the participants the skill radar compares with, unless already
+   * loaded: only the participant's cohort, or everyone without a cohort
+   */
+  private loadComparisonGroup(cohortId: number | null): void {
+    if (this.comparisonGroup()?.cohortId === cohortId) {
+      return;
+    }
+    const request = cohortId === null
+      ? this.participantsService.listAll()
+      : this.participantsService.listCohort(cohortId);
+    request.subscribe({
+      next: participants => this.comparisonGroup.set({ cohortId, participants }),
+      error: (error: ApiError) =>
+        this.notificationService.showError(`Average for comparison unavailable: ${error.message}`)
+    });
+  }
+}
@@ -1,18 +1,90 @@
-import { Component, OnInit, signal, computed, inject } from '@angular/core';
-import { Router } from '@angular/router';
+import { Component, OnInit, signal, computed, inject, DestroyRef } from '@angular/core';
+import { takeUntilDestroyed, toObservable } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, ParamMap, Params, Router } from '@angular/router';
 import { MatDialog } from '@angular/material/dialog';
-import { MatTableDataSource } from '@angular/material/table';
 import { LiveAnnouncer } from '@angular/cdk/a11y';
 import { Sort } from '@angular/material/sort';
+import { PageEvent } from '@angular/material/paginator';
+import { Observable, Subject, of } from 'rxjs';
+import { catchError, debounceTime, filter, map, skip, switchMap } from 'rxjs/operators';
 
 import { ParticipantsService } from '../../../../services/participants.service';
 import { NotificationService } from '../../../../services/notification.service';
-import { Participant } from '../../../../models/participant.model';
-import { ConfirmDialogComponent } from '../confirm-dialog/confirm-dialog.component';
+import { ParticipantExportService } from '../../../../services/participant-export.service';
+import { ConfigService } from '../../../../services/config.service';
+import { CohortsService } from '../../../../services/cohorts.service';
+import { SkillCatalogService } from '../../../../services/skill-catalog.service';
+import { SavedViewsService } from '../../../../services/saved-views.service';
+import { ColumnLayoutService } from '../../../../services/column-layout.service';
+import { PermissionService } from '../../../../services/permission.service';
+import {
+  Participant,
+  ParticipantQuery,
+  ParticipantSortField,
+  BatchUpdate,
+  DEFAULT_PARTICIPANT_QUERY
+} from '../../../../models/participant.model';
+import { ParticipantCondition, SKILL_OPERATOR_LABELS } from '../../../../models/participant-filter.model';
+import { SavedView } from '../../../../models/saved-view.model';
+import { ColumnOption, DEFAULT_COLUMN_LAYOUT } from '../../../../models/column-layout.model';
+import { Skill, skillScore } from '../../../../models/skill.model';
+import { BatchResult } from '../../../../models/request-state.model';
+import { ExportOptions } from '../../../../models/participant-export.model';
+import { ApiError } from '../../../../models/api-error.model';
+import { Permission } from '../../../../models/permission.model';
+import { ConfirmDialogComponent, ConfirmDialogData } from '../../../../shared/components/confirm-dialog/confirm-dialog.component';
+import {
+  BULK_UPDATE_TITLES,
+  BulkUpdateChange,
+  BulkUpdateDialogComponent,
+  BulkUpdateDialogData
+} from '../bulk-update-dialog/bulk-update-dialog.component';
+import { ExportDialogComponent, ExportDialogData } from '../export-dialog/export-dialog.component';
+import { FilterDialogComponent, FilterDialogData } from '../filter-dialog/filter-dialog.component';
+import {
+  ColumnChooserDialogComponent,
+  ColumnChooserDialogData,
+  ColumnChooserResult
+} from '../column-chooser-dialog/column-chooser-dialog.component';
+import {
+  SaveViewDialogComponent,
+  SaveViewDialogData,
+  SaveViewResult
+} from '../save-view-dialog/save-view-dialog.component';
+import {
+  formatCondition,
+  formatSort,
+  queryFromParams,
+  queryFromViewState,
+  queryToParams,
+  viewStateFromQuery
+} from '../../../../utils/participant-query.util';
+import { parseDateString } from '../../../../utils/date.util';
+import { matchRanges, parseSearch } from '../../../../utils/participant-search.util';
+
+// Header text of the fixed data columns; skill columns use the catalog label
+const COLUMN_LABELS: Record<string, string> = {
+  name: 'Name',
+  email: 'Email',
+  whatsapp: 'WhatsApp',
+  linkedin: 'LinkedIn',
+  github_id: 'GitHub',
+  outcome: 'Outcome',
+  cohort: 'Cohort',
+  created_at: 'Created'
+};
 
 /**
  * Component for displaying and managing the list of participants
- * Features: search, sort, pagination, CRUD operations
+ * Features: ranked server-side search with highlighted matches, filter
+ * conditions, sort and pagination, CRUD operations, row selection with bulk
+ * delete/outcome/skill actions, export to file
+ *
+ * The list query lives in the URL query params: changes navigate, and the
+ * list follows the URL, so links can be shared and the back button works.
+ * A saved view is opened with `?view={id}` and stays active while only the
+ * page changes. A drill-down from the dashboard (`?from=`) shows one chip
+ * for its conditions until they are changed.
  */
 @Component({
   selector: 'app-participants-list',
@@ -24,69 +96,147 @@ export class ParticipantsListComponent implements OnInit {
   // Injected services
   private readonly participantsService = inject(ParticipantsService);
   private readonly notificationService = inject(NotificationService);
+  private readonly exportService = inject(ParticipantExportService);
+  private readonly configService = inject(ConfigService);
+  private readonly cohortsService = inject(CohortsService);
+  private readonly skillCatalog = inject(SkillCatalogService);
+  private readonly savedViews = inject(SavedViewsService);
+  private readonly columnLayoutService = inject(ColumnLayoutService);
+  private readonly permissionService = inject(PermissionService);
   private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
   private readonly dialog = inject(MatDialog);
   private readonly liveAnnouncer = inject(LiveAnnouncer);
+  private readonly destroyRef = inject(DestroyRef);
 
-  // Table configuration
-  displayedColumns: string[] = [
-    'name', 
-    'email', 
-    'whatsapp', 
-    'linkedin', 
-    'github_id', 
-    'created_at', 
-    'actions'
-  ];
+  // Table configuration: one score column per active catalog skill
+  readonly skills = this.skillCatalog.activeSkills;
+  private readonly dataColumns = computed(() => [
+    'name',
+    'email',
+    'whatsapp',
+    'linkedin',
+    'github_id',
+    ...this.skills().map(skill => skill.field),
+    'outcome',
+    'cohort',
+    'created_at'
+  ]);
+  // Column arrangement of the signed-in user, changed in the column chooser
+  readonly columnLayout = this.columnLayoutService.layout;
+  // Columns chosen by the open saved view, in order; null follows the user's layout
+  readonly viewColumns = signal<string[] | null>(null);
+  readonly tableColumns = computed(() => {
+    const available = this.dataColumns();
+    const viewColumns = this.viewColumns();
+    if (viewColumns) {
+      return viewColumns.filter(column => available.includes(column));
+    }
+    const { hidden } = this.columnLayout();
+    return this.columnLayoutService.arrange(available).filter(column => !hidden.includes(column));
+  });
+  readonly displayedColumns = computed(() => ['select', ...this.tableColumns(), 'actions']);
+
+  // Page size choices offered by the paginator
+  readonly pageSizeOptions = [5, 10, 20, 50];
 
   // Reactive signals
+  readonly query = signal<ParticipantQuery>({ ...DEFAULT_PARTICIPANT_QUERY });
   readonly searchQuery = signal<string>('');
+  readonly conditions = computed(() => this.query().conditions ?? []);
+  // Dashboard chart or card the list was opened from
+  readonly origin = computed(() => this.query().origin ?? null);
+  readonly conditionsSummary = computed(() =>
+    this.conditions().map(condition => this.describeCondition(condition)).join(', ')
+  );
+  // Search of the shown page, for highlighting matches in the cells
+  readonly searchTerms = computed(() => {
+    const search = this.query().search;
+    return search ? parseSearch(search, this.skillCatalog.skills().map(skill => skill.field)) : null;
+  });
+
+  // Saved view opened through `?view={id}`
+  private readonly activeViewId = signal<string | null>(null);
+  readonly activeView = computed(() => {
+    const id = this.activeViewId();
+    return id ? this.savedViews.find(id) ?? null : null;
+  });
   readonly participants = this.participantsService.participants;
-  
-  // Table data source
-  dataSource = new MatTableDataSource<Participant>([]);
-  
-  // Computed filtered participants
-  filteredParticipants = computed(() => {
-    const query = this.searchQuery().toLowerCase().trim();
-    const participants = this.participants();
-    
-    if (!query) {
-      return participants;
-    }
-    
-    return participants.filter(participant => 
-      participant.name.toLowerCase().includes(query) ||
-      participant.email.toLowerCase().includes(query) ||
-      participant.github_id.toLowerCase().includes(query)
-    );
+  readonly pagination = this.participantsService.pagination;
+  readonly pendingIds = this.participantsService.pendingIds;
+
+  // Selection: explicit ids, or every row matching the current query
+  readonly selectedIds = signal<ReadonlySet<number>>(new Set());
+  readonly allMatchingSelected = signal<boolean>(false);
+  readonly selectionCount = computed(() =>
+    this.allMatchingSelected() ? this.pagination().total : this.selectedIds().size
+  );
+  readonly allOnPageSelected = computed(() => {
+    const rows = this.participants();
+    return rows.length > 0 && rows.every(p => this.selectedIds().has(p.id));
   });
+  readonly someOnPageSelected = computed(() =>
+    this.participants().some(p => this.selectedIds().has(p.id)) && !this.allOnPageSelected()
+  );
 
-  // Loading and error states
-  loading = this.participantsService.loading;
-  error = this.participantsService.error;
+  // True while an export file is being generated
+  readonly exporting = signal<boolean>(false);
+
+  // Search input is debounced before it triggers a server request
+  private readonly searchInput$ = new Subject<string>();
+
+  // Cohort chosen in the app shell; the list is scoped to it
+  readonly selectedCohort = this.cohortsService.selectedCohort;
+  private readonly cohortChange$ = toObservable(this.cohortsService.selectedCohortId).pipe(skip(1));
+
+  // Loading and error states of the list request only; row mutations
+  // are tracked per participant through pendingIds
+  private readonly listState = this.participantsService.listState;
+  readonly loading = computed(() => this.listState().status === 'pending');
+  // A 403 on the list shows the "no permission" state instead of an error
+  readonly forbidden = signal<boolean>(false);
+  readonly error = computed(() => this.listState().error);
 
   ngOnInit(): void {
-    this.loadParticipants();
-    
-    // Update data source when filtered participants change
-    this.dataSource.data = this.filteredParticipants();
-    
-    // Watch for changes in filtered participants
-    this.updateDataSource();
+    this.searchInput$
+      .pipe(
+        debounceTime(300),
+        filter(search => search !== (this.query().search ?? '')),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(search => this.applyQuery({ search, page: 1, ...this.sortForSearch(search) }));
+
+    // Later URL changes come from applyQuery, the views sidebar or the browser history
+    this.route.queryParamMap
+      .pipe(skip(1), takeUntilDestroyed(this.destroyRef))
+      .subscribe(params => this.fetchQuery(this.queryFor(params)));
+
+    this.cohortChange$
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(() => {
+        this.clearSelection();
+        this.applyQuery({ page: 1 });
+      });
+
+    // Views are needed to resolve `?view=`; the list still opens when they cannot be loaded
+    this.savedViews.load().pipe(
+      catchError(error => {
+        this.notificationService.showError(`Saved views unavailable: ${error.message}`);
+        return of([]);
+      }),
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe(() => this.openInitialQuery());
   }
 
   /**
    * Load participants from the API
    */
   loadParticipants(): void {
-    this.participantsService.list().subscribe({
+    this.participantsService.list(this.query()).subscribe({
       next: () => {
         this.notificationService.showSuccess('Participants loaded successfully');
       },
-      error: (error) => {
-        this.notificationService.showError(error.message);
-      }
+      error: (error: ApiError) => this.handleListError(error)
     });
   }
 
@@ -95,7 +245,7 @@ export class ParticipantsListComponent implements OnInit {
    */
   onSearchChange(query: string): void {
     this.searchQuery.set(query);
-    this.updateDataSource();
+    this.searchInput$.next(query.trim());
   }
 
   /**
@@ -103,20 +253,189 @@ export class ParticipantsListComponent implements OnInit {
    */
   clearSearch(): void {
     this.searchQuery.set('');
-    this.updateDataSource();
+    this.searchInput$.next('');
+  }
+
+  /**
+   * Edit the filter conditions in the filter dialog
+   */
+  openFilters(): void {
+    const dialogRef = this.dialog.open<FilterDialogComponent, FilterDialogData, FilterDialogData>(
+      FilterDialogComponent,
+      {
+        width: '720px',
+        data: { match: this.query().match ?? 'all', conditions: this.conditions() }
+      }
+    );
+
+    dialogRef.afterClosed()
+      .pipe(filter((result): result is FilterDialogData => !!result))
+      .subscribe(({ match, conditions }) => this.applyQuery({ match, conditions, page: 1 }));
+  }
+
+  /**
+   * Remove one filter condition
+   */
+  removeCondition(index: number): void {
+    this.applyQuery({ conditions: this.conditions().filter((_, i) => i !== index), page: 1 });
+  }
+
+  /**
+   * Remove all filter conditions
+   */
+  clearFilters(): void {
+    this.applyQuery({ conditions: [], match: 'all', page: 1 });
+  }
+
+  /**
+   * Leave a drill-down: its conditions go along with its chip
+   */
+  removeOrigin(): void {
+    this.applyQuery({ conditions: [], match: 'all', origin: undefined, page: 1 });
+  }
+
+  /**
+   * Chip text of a filter condition
+   */
+  describeCondition(condition: ParticipantCondition): string {
+    switch (condition.type) {
+      case 'skill':
+        return `${this.skillCatalog.label(condition.field)} ${SKILL_OPERATOR_LABELS[condition.operator]} ${condition.value}`;
+      case 'outcome':
+        return `Outcome ${condition.operator === 'equals' ? 'is' : 'contains'} "${condition.value}"`;
+      case 'created': {
+        const from = parseDateString(condition.from)?.toLocaleDateString();
+        const to = parseDateString(condition.to)?.toLocaleDateString();
+        return from && to ? `Registered ${from} – ${to}` : from ? `Registered since ${from}` : `Registered until ${to}`;
+      }
+      case 'missing':
+        return condition.field === 'linkedin' ? 'No LinkedIn profile' : 'No GitHub ID';
+    }
+  }
+
+  /**
+   * Save the current search, filters, sort and columns as a named view
+   */
+  saveView(): void {
+    const dialogRef = this.dialog.open<SaveViewDialogComponent, SaveViewDialogData, SaveViewResult>(
+      SaveViewDialogComponent,
+      {
+        width: '440px',
+        data: {
+          mode: 'create',
+          name: '',
+          visibility: 'personal',
+          isDefault: false,
+          canShare: this.permissionService.can('view.share')
+        }
+      }
+    );
+
+    dialogRef.afterClosed().pipe(
+      filter((result): result is SaveViewResult => !!result),
+      switchMap(({ name, visibility, isDefault }) =>
+        this.savedViews.create({
+          name,
+          visibility,
+          state: viewStateFromQuery(this.query(), this.tableColumns())
+        }).pipe(map(view => ({ view, isDefault })))
+      )
+    ).subscribe({
+      next: ({ view, isDefault }) => {
+        if (isDefault) {
+          this.savedViews.setDefault(view.id);
+        }
+        this.notificationService.showSuccess(`View "${view.name}" saved`);
+        this.router.navigate([], {
+          relativeTo: this.route,
+          queryParams: { view: view.id, ...this.pageParams(this.query()) }
+        });
+      },
+      error: (error) => {
+        this.notificationService.showError(error.message);
+      }
+    });
+  }
+
+  /**
+   * Show, hide, reorder and pin columns in the column chooser
+   * The choice becomes the user's layout and replaces the columns of an open view
+   */
+  openColumnChooser(): void {
+    const shown = this.tableColumns();
+    const dialogRef = this.dialog.open<ColumnChooserDialogComponent, ColumnChooserDialogData, ColumnChooserResult>(
+      ColumnChooserDialogComponent,
+      {
+        width: '480px',
+        data: {
+          columns: this.columnOptions(this.columnLayoutService.arrange(this.dataColumns(), shown), shown),
+          pinName: this.columnLayout().pinName,
+          pinActions: this.columnLayout().pinActions,
+          defaults: {
+            columns: this.columnOptions(
+              this.dataColumns(),
+              this.dataColumns().filter(column => !DEFAULT_COLUMN_LAYOUT.hidden.includes(column))
+            ),
+            pinName: DEFAULT_COLUMN_LAYOUT.pinName,
+            pinActions: DEFAULT_COLUMN_LAYOUT.pinActions
+          }
+        }
+      }
+    );
+
+    dialogRef.afterClosed()
+      .pipe(filter((result): result is ColumnChooserResult => !!result))
+      .subscribe(({ columns, pinName, pinActions, resetWidths }) => {
+        this.columnLayoutService.update({
+          order: columns.map(column => column.id),
+          hidden: columns.filter(column => !column.visible).map(column => column.id),
+          pinName,
+          pinActions,
+          ...(resetWidths ? { widths: {} } : {})
+        });
+        this.viewColumns.set(null);
+      });
+  }
+
+  /**
+   * Width of a resized column, undefined for the automatic width
+   */
+  columnWidth(column: string): number | undefined {
+    return this.columnLayout().widths[column];
+  }
+
+  /**
+   * Remember the width a column was dragged to
+   */
+  resizeColumn(column: string, width: number): void {
+    this.columnLayoutService.setWidth(column, width);
   }
 
   /**
    * Handle table sorting
+   * Sorting is delegated to the server and restarts at the first page
    */
   announceSortChange(sortState: Sort): void {
     if (sortState.direction) {
       this.liveAnnouncer.announce(`Sorted ${sortState.direction}ending`);
+      this.applyQuery({
+        sortField: sortState.active as ParticipantSortField,
+        sortDirection: sortState.direction,
+        page: 1
+      });
     } else {
       this.liveAnnouncer.announce('Sorting cleared');
+      this.applyQuery({ sortField: undefined, sortDirection: undefined, page: 1 });
     }
   }
 
+  /**
+   * Handle paginator changes
+   */
+  onPageChange(event: PageEvent): void {
+    this.applyQuery({ page: event.pageIndex + 1, perPage: event.pageSize });
+  }
+
   /**
    * Navigate to create new participant
    */
@@ -125,7 +444,21 @@ export class ParticipantsListComponent implements OnInit {
   }
 
   /**
-   * Navigate to view/edit participant
+   * Navigate to the spreadsheet import wizard
+   */
+  importParticipants(): void {
+    this.router.navigate(['/participants/import']);
+  }
+
+  /**
+   * Navigate to the duplicate review screen
+   */
+  findDuplicates(): void {
+    this.router.navigate(['/participants/duplicates']);
+  }
+
+  /**
+   * Open the read-only profile of a participant
    */
   viewParticipant(participant: Participant): void {
     this.router.navigate(['/participants', participant.id]);
@@ -135,35 +468,194 @@ export class ParticipantsListComponent implements OnInit {
    * Edit participant
    */
   editParticipant(participant: Participant): void {
-    this.router.navigate(['/participants', participant.id]);
+    this.router.navigate(['/participants', participant.id, 'edit']);
   }
 
   /**
    * Delete participant with confirmation
+   * The row disappears at once; the DELETE is only sent when the undo window ends
    */
   deleteParticipant(participant: Participant): void {
+    if (!this.can('participant.delete')) {
+      return;
+    }
     const dialogRef = this.dialog.open(ConfirmDialogComponent, {
       width: '400px',
       data: {
         title: 'Delete Participant',
-        message: `Are you sure you want to delete "${participant.name}"? This action cannot be undone.`,
+        message: `Are you sure you want to delete "${participant.name}"?`,
         confirmText: 'Delete',
         cancelText: 'Cancel',
         type: 'danger'
       }
     });
 
-    dialogRef.afterClosed().subscribe(result => {
-      if (result) {
-        this.participantsService.remove(participant.id).subscribe({
-          next: () => {
-            this.notificationService.showSuccess(`Participant "${participant.name}" deleted successfully`);
-            this.updateDataSource();
-          },
-          error: (error) => {
-            this.notificationService.showError(error.message);
-          }
-        });
+    dialogRef.afterClosed().pipe(
+      filter(confirmed => !!confirmed),
+      switchMap(() => this.participantsService.removeWithUndo(
+        [participant.id],
+        this.offerUndo(`Participant "${participant.name}" deleted`)
+      ))
+    ).subscribe({
+      next: result => {
+        if (!result) {
+          this.notificationService.showInfo(`Participant "${participant.name}" restored`);
+        } else if (result.failed.length === 0) {
+          this.reloadAfterDelete();
+        }
+      },
+      error: () => {
+        // Failures are rolled back and reported by ParticipantsService
+      }
+    });
+  }
+
+  /**
+   * Check whether a row is selected
+   */
+  isSelected(participant: Participant): boolean {
+    return this.allMatchingSelected() || this.selectedIds().has(participant.id);
+  }
+
+  /**
+   * Toggle selection of a single row
+   */
+  toggleRow(participant: Participant): void {
+    if (this.allMatchingSelected()) {
+      // Narrow "all matching" down to the rows on this page, minus the toggled one
+      this.allMatchingSelected.set(false);
+      this.selectedIds.set(new Set(this.participants().map(p => p.id)));
+    }
+    this.selectedIds.update(ids => {
+      const next = new Set(ids);
+      if (next.has(participant.id)) {
+        next.delete(participant.id);
+      } else {
+        next.add(participant.id);
+      }
+      return next;
+    });
+  }
+
+  /**
+   * Select or deselect every row on the current page
+   */
+  togglePage(): void {
+    const pageIds = this.participants().map(p => p.id);
+    const selectAll = !this.allOnPageSelected() && !this.allMatchingSelected();
+    this.allMatchingSelected.set(false);
+    this.selectedIds.update(ids => {
+      const next = new Set(ids);
+      pageIds.forEach(id => (selectAll ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  }
+
+  /**
+   * Extend the selection to every participant matching the current search
+   */
+  selectAllMatching(): void {
+    this.allMatchingSelected.set(true);
+  }
+
+  /**
+   * Clear the selection
+   */
+  clearSelection(): void {
+    this.allMatchingSelected.set(false);
+    this.selectedIds.set(new Set());
+  }
+
+  /**
+   * Delete all selected participants after confirmation
+   */
+  bulkDelete(): void {
+    if (!this.can('participant.delete')) {
+      return;
+    }
+    this.resolveSelection().pipe(
+      switchMap(participants => this.confirmBulk(participants, {
+        title: 'Delete Participants',
+        message: `Are you sure you want to delete ${this.describeCount(participants.length)}?`,
+        confirmText: 'Delete',
+        type: 'danger'
+      })),
+      switchMap(participants => {
+        this.clearSelection();
+        return this.participantsService.removeWithUndo(
+          participants.map(p => p.id),
+          this.offerUndo(`${this.describeCount(participants.length)} deleted`)
+        ).pipe(map(result => ({ participants, result })));
+      })
+    ).subscribe({
+      next: ({ participants, result }) => {
+        if (!result) {
+          this.notificationService.showInfo(`${this.describeCount(participants.length)} restored`);
+          return;
+        }
+        this.reportBatch(result, participants, 'Deleted', 'delete');
+        this.reloadAfterDelete();
+      },
+      error: (error) => {
+        this.notificationService.showError(error.message);
+      }
+    });
+  }
+
+  /**
+   * Set the outcome of all selected participants
+   */
+  bulkUpdateOutcome(): void {
+    this.openBulkUpdate('outcome');
+  }
+
+  /**
+   * Set, raise or lower one skill for all selected participants
+   */
+  bulkAdjustSkill(): void {
+    this.openBulkUpdate('skill');
+  }
+
+  /**
+   * Move all selected participants to another cohort, or out of their cohort
+   */
+  bulkMoveToCohort(): void {
+    this.openBulkUpdate('cohort');
+  }
+
+  /**
+   * Export the current list or the selected rows to a file
+   */
+  exportParticipants(): void {
+    const dialogRef = this.dialog.open<ExportDialogComponent, ExportDialogData, ExportOptions>(
+      ExportDialogComponent,
+      {
+        width: '520px',
+        data: { filteredCount: this.pagination().total, selectedCount: this.selectionCount() }
+      }
+    );
+
+    dialogRef.afterClosed().pipe(
+      filter((options): options is ExportOptions => !!options),
+      switchMap(options => {
+        this.exporting.set(true);
+        const participants$ = options.scope === 'selected'
+          ? this.resolveSelection()
+          : this.participantsService.listMatching(this.query());
+        return participants$.pipe(
+          switchMap(participants => this.exportService.export(participants, options).pipe(
+            map(fileName => ({ fileName, count: participants.length }))
+          ))
+        );
+      })
+    ).subscribe({
+      next: ({ fileName, count }) => {
+        this.exporting.set(false);
+        this.notificationService.showSuccess(`Exported ${this.describeCount(count)} to ${fileName}`);
+      },
+      error: (error) => {
+        this.exporting.set(false);
+        this.notificationService.showError(`Export failed: ${error.message}`);
       }
     });
   }
@@ -172,16 +664,36 @@ export class ParticipantsListComponent implements OnInit {
    * Refresh the participants list
    */
   refresh(): void {
-    this.participantsService.refresh().subscribe({
+    this.participantsService.refresh(this.query()).subscribe({
       next: () => {
         this.notificationService.showSuccess('Participants refreshed');
       },
-      error: (error) => {
-        this.notificationService.showError(error.message);
-      }
+      error: (error: ApiError) => this.handleListError(error)
     });
   }
 
+  /**
+   * Name of a participant's cohort
+   */
+  cohortName(participant: Participant): string {
+    return this.cohortsService.nameOf(participant.cohort_id);
+  }
+
+  /**
+   * Score of one skill, 0 when not specified
+   */
+  score(participant: Participant, skill: Skill): number {
+    return skillScore(participant, skill.field);
+  }
+
+  /**
+   * Whether the search matched the LinkedIn URL, which the table shows only as a link
+   */
+  linkedinMatches(participant: Participant): boolean {
+    const search = this.searchTerms();
+    return !!search && matchRanges(participant.linkedin, 'linkedin', search).length > 0;
+  }
+
   /**
    * Format date for display
    */
@@ -197,10 +709,343 @@ export class ParticipantsListComponent implements OnInit {
   }
 
   /**
-   * Update the data source with filtered results
+   * Merge changes into the current query and navigate to it
+   * When the URL stays the same (e.g. reloading after a delete) the page is fetched directly
+   */
+  private applyQuery(changes: Partial<ParticipantQuery>): void {
+    const next = { ...this.query(), ...changes };
+    // The origin only describes the conditions the list was opened with
+    if (changes.conditions || changes.match) {
+      next.origin = changes.origin;
+    }
+    const view = this.activeView();
+    const queryParams = view && this.matchesView(next, view)
+      ? { view: view.id, ...this.pageParams(next) }
+      : queryToParams(next);
+    const url = this.router.createUrlTree([], { relativeTo: this.route, queryParams });
+    if (this.router.serializeUrl(url) === this.router.url) {
+      this.fetchQuery(next);
+    } else {
+      this.router.navigateByUrl(url);
+    }
+  }
+
+  /**
+   * Searching ranks by relevance: the default sort makes way for the ranking
+   * and comes back when the search is cleared; a sort the user picked stays
+   */
+  private sortForSearch(search: string): Partial<ParticipantQuery> {
+    const { sortField } = this.query();
+    if (search && formatSort(this.query()) === formatSort(DEFAULT_PARTICIPANT_QUERY)) {
+      return { sortField: undefined, sortDirection: undefined };
+    }
+    if (!search && !sortField) {
+      return {
+        sortField: DEFAULT_PARTICIPANT_QUERY.sortField,
+        sortDirection: DEFAULT_PARTICIPANT_QUERY.sortDirection
+      };
+    }
+    return {};
+  }
+
+  /**
+   * Show the query of the initial URL, or land on the default view when
+   * the list is opened without any query params
+   */
+  private openInitialQuery(): void {
+    const params = this.route.snapshot.queryParamMap;
+    const landing = this.savedViews.defaultView();
+    if (params.keys.length === 0 && landing) {
+      this.router.navigate([], { relativeTo: this.route, queryParams: { view: landing.id }, replaceUrl: true });
+      return;
+    }
+    this.restoreQuery(this.queryFor(params));
+    this.loadParticipants();
+  }
+
+  /**
+   * List query described by the URL: the query params, or the open saved
+   * view with the page from the params
+   * Opening a view also applies its columns
+   */
+  private queryFor(params: ParamMap): ParticipantQuery {
+    const viewId = params.get('view');
+    const view = viewId ? this.savedViews.find(viewId) ?? null : null;
+    if (viewId && !view) {
+      this.notificationService.showWarning('This saved view was deleted or is not shared with you');
+    }
+    if (view && view.id !== this.activeViewId()) {
+      this.viewColumns.set(view.state.columns);
+    }
+    this.activeViewId.set(view?.id ?? null);
+
+    const query = queryFromParams(params);
+    return view ? { ...queryFromViewState(view.state), page: query.page, perPage: query.perPage } : query;
+  }
+
+  /**
+   * Column chooser entries for columns in the given order
+   */
+  private columnOptions(order: string[], visible: string[]): ColumnOption[] {
+    return order.map(id => ({
+      id,
+      label: this.skills().find(skill => skill.field === id)?.label ?? COLUMN_LABELS[id] ?? id,
+      visible: visible.includes(id)
+    }));
+  }
+
+  /**
+   * Whether a query shows the same rows in the same order as a view
+   */
+  private matchesView(query: ParticipantQuery, view: SavedView): boolean {
+    const state = viewStateFromQuery(query, null);
+    return state.search === view.state.search &&
+      state.sort === view.state.sort &&
+      state.match === view.state.match &&
+      state.conditions.join('\n') === view.state.conditions.join('\n');
+  }
+
+  /**
+   * Query params of the page and page size only
+   */
+  private pageParams(query: ParticipantQuery): Params {
+    const { page, perPage } = query;
+    return queryToParams({ ...DEFAULT_PARTICIPANT_QUERY, page, perPage });
+  }
+
+  /**
+   * Make a query current and fetch its page; a different search or filter clears the selection
+   */
+  private fetchQuery(query: ParticipantQuery): void {
+    if (this.filterKey(query) !== this.filterKey(this.query())) {
+      this.clearSelection();
+    }
+    this.restoreQuery(query);
+    this.participantsService.list(query).subscribe({
+      error: (error: ApiError) => this.handleListError(error)
+    });
+  }
+
+  /**
+   * Make a query current without fetching it
+   */
+  private restoreQuery(query: ParticipantQuery): void {
+    this.query.set(query);
+    // Keep what is being typed (e.g. a trailing space) when it matches the applied search
+    if (this.searchQuery().trim() !== (query.search ?? '')) {
+      this.searchQuery.set(query.search ?? '');
+    }
+  }
+
+  /**
+   * Identify the rows a query matches, ignoring sort and paging
+   */
+  private filterKey(query: ParticipantQuery): string {
+    const conditions = (query.conditions ?? []).map(formatCondition);
+    return JSON.stringify([query.search ?? '', conditions.length ? query.match ?? 'all' : '', conditions]);
+  }
+
+  /**
+   * Report a failed list request; a 403 switches to the "no permission" state
+   */
+  private handleListError(error: ApiError): void {
+    this.forbidden.set(error.status === 403);
+    if (!this.forbidden()) {
+      this.notificationService.showError(error.message);
+    }
+  }
+
+  /**
+   * Collect the change in a dialog, confirm it and apply it to the selection
+   */
+  private openBulkUpdate(mode: BulkUpdateDialogData['mode']): void {
+    if (!this.can('participant.update')) {
+      return;
+    }
+    const dialogRef = this.dialog.open<BulkUpdateDialogComponent, BulkUpdateDialogData, BulkUpdateChange>(
+      BulkUpdateDialogComponent,
+      { width: '440px', data: { mode, count: this.selectionCount() } }
+    );
+
+    dialogRef.afterClosed().pipe(
+      filter((change): change is BulkUpdateChange => !!change),
+      switchMap(change => this.resolveSelection().pipe(
+        switchMap(participants => this.confirmBulk(participants, {
+          title: BULK_UPDATE_TITLES[mode],
+          message: `${this.describeChange(change)} for ${this.describeCount(participants.length)}?`,
+          confirmText: 'Apply',
+          type: 'warning'
+        })),
+        switchMap(participants => {
+          const updates = participants.map(p => this.toBatchUpdate(p, change));
+          return this.participantsService.bulkUpdate(updates).pipe(
+            map(result => ({ participants, result }))
+          );
+        })
+      ))
+    ).subscribe({
+      next: ({ participants, result }) => {
+        this.clearSelection();
+        if (mode === 'cohort') {
+          this.reportBatch(result, participants, 'Moved', 'move');
+          this.afterCohortMove();
+        } else {
+          this.reportBatch(result, participants, 'Updated', 'update');
+        }
+      },
+      error: (error) => {
+        this.notificationService.showError(error.message);
+      }
+    });
+  }
+
+  /**
+   * Moved participants may have left the selected cohort and changed the
+   * cohort sizes, so both the page and the cohorts are reloaded
+   */
+  private afterCohortMove(): void {
+    this.applyQuery({});
+    this.cohortsService.load().subscribe({
+      error: (error) => this.notificationService.showError(error.message)
+    });
+  }
+
+  /**
+   * Resolve the selection into participants, fetching all matching rows if needed
+   */
+  private resolveSelection(): Observable<Participant[]> {
+    if (this.allMatchingSelected()) {
+      return this.participantsService.listMatching(this.query());
+    }
+    const participants = [...this.selectedIds()]
+      .map(id => this.participantsService.selectParticipant(id)())
+      .filter((p): p is Participant => !!p);
+    return of(participants);
+  }
+
+  /**
+   * Show an "Undo" snackbar for the configured window
+   * Emits true when the window ends without undo, false when undo is clicked
+   */
+  private offerUndo(message: string): Observable<boolean> {
+    return this.notificationService
+      .showAction(message, 'Undo', this.configService.config().deleteUndoWindowMs)
+      .pipe(map(choice => choice !== 'action'));
+  }
+
+  /**
+   * Ask for confirmation with a count summary; emits the participants only when confirmed
+   */
+  private confirmBulk(participants: Participant[], data: ConfirmDialogData): Observable<Participant[]> {
+    const maxNames = 8;
+    const names = participants.slice(0, maxNames).map(p => p.name);
+    if (participants.length > maxNames) {
+      names.push(`...and ${participants.length - maxNames} more`);
+    }
+
+    return this.dialog
+      .open(ConfirmDialogComponent, { width: '440px', data: { ...data, details: names } })
+      .afterClosed()
+      .pipe(
+        filter(confirmed => !!confirmed),
+        map(() => participants)
+      );
+  }
+
+  /**
+   * Build the per-participant update for a bulk change
+   */
+  private toBatchUpdate(participant: Participant, change: BulkUpdateChange): BatchUpdate {
+    if (change.kind === 'outcome') {
+      return { id: participant.id, changes: { outcome: change.outcome } };
+    }
+    if (change.kind === 'cohort') {
+      return { id: participant.id, changes: { cohort_id: change.cohortId } };
+    }
+
+    const current = skillScore(participant, change.skill);
+    const next = change.operation === 'set'
+      ? change.value
+      : current + (change.operation === 'increase' ? change.value : -change.value);
+    return { id: participant.id, changes: { [change.skill]: Math.min(10, Math.max(0, next)) } };
+  }
+
+  /**
+   * Summarize a bulk change for the confirmation dialog
+   */
+  private describeChange(change: BulkUpdateChange): string {
+    if (change.kind === 'outcome') {
+      return change.outcome ? `Set outcome to "${change.outcome}"` : 'Clear the outcome';
+    }
+    if (change.kind === 'cohort') {
+      return change.cohortId === null
+        ? 'Remove from their cohort'
+        : `Move to ${this.cohortsService.nameOf(change.cohortId)}`;
+    }
+    const label = this.skillCatalog.label(change.skill);
+    const verb = change.operation === 'set' ? 'Set' : change.operation === 'increase' ? 'Increase' : 'Decrease';
+    return `${verb} ${label} ${change.operation === 'set' ? 'to' : 'by'} ${change.value}`;
+  }
+
+  private describeCount(count: number): string {
+    return `${count} participant${count === 1 ? '' : 's'}`;
+  }
+
+  /**
+   * Report per-item success and failure of a bulk action
+   */
+  private reportBatch(
+    result: BatchResult<unknown>,
+    participants: Participant[],
+    pastTense: string,
+    verb: string
+  ): void {
+    const total = result.succeeded.length + result.failed.length;
+    if (result.failed.length === 0) {
+      this.notificationService.showSuccess(`${pastTense} ${this.describeCount(total)}`);
+      return;
+    }
+
+    const names = new Map(participants.map(p => [p.id, p.name]));
+    const failures = result.failed
+      .slice(0, 3)
+      .map(f => `${names.get(f.id) ?? '#' + f.id} (${f.error.message})`)
+      .join(', ');
+    const more = result.failed.length > 3 ? ` and ${result.failed.length - 3} more` : '';
+
+    if (result.succeeded.length === 0) {
+      this.notificationService.showError(`Could not ${verb} ${this.describeCount(total)}: ${failures}${more}`, 8000);
+    } else {
+      this.notificationService.showWarning(
+        `${pastTense} ${result.succeeded.length} of ${total}. Failed: ${failures}${more}`,
+        8000
+      );
+    }
+  }
+
+  /**
+   * Reload the current page after a delete so the next row moves up,
+   * stepping back a page when the last row of a page was removed
+   */
+  private reloadAfterDelete(): void {
+    const page = this.query().page;
+    const emptied = this.participants().length === 0 && page > 1;
+    this.applyQuery({ page: emptied ? page - 1 : page });
+  }
+
+  /**
+   * Whether the current user has a permission; buttons shown in 'disable'
+   * mode bind their [disabled] input to this, as MatButton owns that attribute
+   */
+  can(permission: Permission): boolean {
+    return this.permissionService.can(permission);
+  }
+
+  /**
+   * Check whether a row is still waiting for the server to confirm it
    */
-  private updateDataSource(): void {
-    this.dataSource.data = this.filteredParticipants();
+  isPending(participant: Participant): boolean {
+    return this.pendingIds().has(participant.id);
   }
 
   /**
@@ -0,0 +1,71 @@
+import { Component, Inject, inject } from '@angular/core';
+import { FormBuilder, Validators } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+
+import { ViewVisibility } from '../../../../models/saved-view.model';
+
+export interface SaveViewDialogData {
+  mode: 'create' | 'edit';
+  name: string;
+  visibility: ViewVisibility;
+  isDefault: boolean;
+  canShare: boolean;
+}
+
+/**
+ * Name, visibility and landing choice entered for a view
+ */
+export interface SaveViewResult {
+  name: string;
+  visibility: ViewVisibility;
+  isDefault: boolean;
+}
+
+/**
+ * Dialog for naming a new saved view or editing an existing one
+ * Returns the entered settings on save, or undefined when cancelled
+ */
+@Component({
+  selector: 'app-save-view-dialog',
+  templateUrl: './save-view-dialog.component.html',
+  styleUrls: ['./save-view-dialog.component.scss'],
+  standalone: false
+})
+export class SaveViewDialogComponent {
+  private readonly fb = inject(FormBuilder);
+
+  readonly form = this.fb.nonNullable.group({
+    name: ['', [Validators.required, Validators.maxLength(60)]],
+    visibility: ['personal' as ViewVisibility],
+    isDefault: [false]
+  });
+
+  constructor(
+    public dialogRef: MatDialogRef<SaveViewDialogComponent, SaveViewResult>,
+    @Inject(MAT_DIALOG_DATA) public data: SaveViewDialogData
+  ) {
+    this.form.setValue({ name: data.name, visibility: data.visibility, isDefault: data.isDefault });
+    if (!data.canShare && data.visibility === 'personal') {
+      this.form.controls.visibility.disable();
+    }
+  }
+
+  /**
+   * Close the dialog with the entered settings
+   */
+  onSave(): void {
+    const name = this.form.controls.name.value.trim();
+    if (this.form.invalid || !name) {
+      return;
+    }
+    const { visibility, isDefault } = this.form.getRawValue();
+    this.dialogRef.close({ name, visibility, isDefault });
+  }
+
+  /**
+   * Close without saving
+   */
+  onCancel(): void {
+    this.dialogRef.close();
+  }
+}
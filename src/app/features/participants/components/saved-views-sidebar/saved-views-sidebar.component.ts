@@ -0,0 +1,157 @@
+import { Component, inject } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router } from '@angular/router';
+import { MatDialog } from '@angular/material/dialog';
+import { filter, map, switchMap } from 'rxjs/operators';
+
+import { SavedView } from '../../../../models/saved-view.model';
+import { SavedViewsService } from '../../../../services/saved-views.service';
+import { NotificationService } from '../../../../services/notification.service';
+import { PermissionService } from '../../../../services/permission.service';
+import { ConfirmDialogComponent } from '../../../../shared/components/confirm-dialog/confirm-dialog.component';
+import {
+  SaveViewDialogComponent,
+  SaveViewDialogData,
+  SaveViewResult
+} from '../save-view-dialog/save-view-dialog.component';
+
+/**
+ * Sidebar of the participants list with the saved views
+ * Views are links to `/participants?view={id}`; the list applies the view
+ */
+@Component({
+  selector: 'app-saved-views-sidebar',
+  templateUrl: './saved-views-sidebar.component.html',
+  styleUrls: ['./saved-views-sidebar.component.scss'],
+  standalone: false
+})
+export class SavedViewsSidebarComponent {
+  private readonly savedViews = inject(SavedViewsService);
+  private readonly notificationService = inject(NotificationService);
+  private readonly permissionService = inject(PermissionService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly dialog = inject(MatDialog);
+
+  readonly personalViews = this.savedViews.personalViews;
+  readonly sharedViews = this.savedViews.sharedViews;
+  readonly defaultView = this.savedViews.defaultView;
+  readonly activeViewId = toSignal(this.route.queryParamMap.pipe(map(params => params.get('view'))));
+
+  /**
+   * Show the list without a view, search or filters
+   */
+  openAll(): void {
+    this.router.navigate([], { relativeTo: this.route, queryParams: {} });
+  }
+
+  /**
+   * Whether the signed-in user may change a view
+   */
+  canEdit(view: SavedView): boolean {
+    return this.savedViews.canEdit(view);
+  }
+
+  /**
+   * Rename a view or change its visibility and landing setting
+   */
+  edit(view: SavedView): void {
+    const dialogRef = this.dialog.open<SaveViewDialogComponent, SaveViewDialogData, SaveViewResult>(
+      SaveViewDialogComponent,
+      {
+        width: '440px',
+        data: {
+          mode: 'edit',
+          name: view.name,
+          visibility: view.visibility,
+          isDefault: this.defaultView()?.id === view.id,
+          canShare: this.permissionService.can('view.share')
+        }
+      }
+    );
+
+    dialogRef.afterClosed().pipe(
+      filter((result): result is SaveViewResult => !!result),
+      switchMap(({ name, visibility, isDefault }) => {
+        this.setDefault(view, isDefault);
+        return this.savedViews.update(view.id, { name, visibility });
+      })
+    ).subscribe({
+      next: updated => this.notificationService.showSuccess(`View "${updated.name}" saved`),
+      error: error => this.notificationService.showError(error.message)
+    });
+  }
+
+  /**
+   * Make a view the landing view, or stop landing on it
+   */
+  toggleDefault(view: SavedView): void {
+    const isDefault = this.defaultView()?.id !== view.id;
+    this.setDefault(view, isDefault);
+    this.notificationService.showInfo(
+      isDefault ? `"${view.name}" opens when you go to Participants` : 'Participants opens the full list'
+    );
+  }
+
+  /**
+   * Copy the link of a view to the clipboard
+   */
+  copyLink(view: SavedView): void {
+    const path = this.router.serializeUrl(
+      this.router.createUrlTree([], { relativeTo: this.route, queryParams: { view: view.id } })
+    );
+    navigator.clipboard.writeText(`${location.origin}${path}`).then(
+      () => this.notificationService.showSuccess('Link copied'),
+      () => this.notificationService.showError('Could not copy the link')
+    );
+  }
+
+  /**
+   * Delete a view after confirmation
+   */
+  remove(view: SavedView): void {
+    const dialogRef = this.dialog.open(ConfirmDialogComponent, {
+      width: '400px',
+      data: {
+        title: 'Delete View',
+        message: `Delete the view "${view.name}"?` +
+          (view.visibility === 'shared' ? ' It is shared, so it disappears for everyone.' : ''),
+        confirmText: 'Delete',
+        cancelText: 'Cancel',
+        type: 'danger'
+      }
+    });
+
+    const wasDefault = this.defaultView()?.id === view.id;
+    dialogRef.afterClosed().pipe(
+      filter(confirmed => !!confirmed),
+      switchMap(() => this.savedViews.remove(view.id))
+    ).subscribe({
+      next: () => {
+        if (wasDefault) {
+          this.savedViews.setDefault(null);
+        }
+        this.notificationService.showSuccess(`View "${view.name}" deleted`);
+        if (this.activeViewId() === view.id) {
+          this.openAll();
+        }
+      },
+      error: error => this.notificationService.showError(error.message)
+    });
+  }
+
+  /**
+   * Track by function for performance optimization
+   */
+  trackByView(index: number, view: SavedView): string {
+    return view.id;
+  }
+
+  private setDefault(view: SavedView, isDefault: boolean): void {
+    if (isDefault) {
+      this.savedViews.setDefault(view.id);
+    } else if (this.defaultView()?.id === view.id) {
+      this.savedViews.setDefault(null);
+    }
+  }
+}
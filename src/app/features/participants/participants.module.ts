@@ -2,29 +2,63 @@ import { NgModule } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ReactiveFormsModule, FormsModule } from '@angular/forms';
 import { RouterModule, Routes } from '@angular/router';
+import { BaseChartDirective } from 'ng2-charts';
 
 import { MaterialModule } from '../../shared/material.module';
+import { SharedModule } from '../../shared/shared.module';
+import { permissionGuard } from '../../guards/permission.guard';
 import { ParticipantsListComponent } from './components/participants-list/participants-list.component';
 import { ParticipantFormComponent } from './components/participant-form/participant-form.component';
-import { ConfirmDialogComponent } from './components/confirm-dialog/confirm-dialog.component';
+import { BulkUpdateDialogComponent } from './components/bulk-update-dialog/bulk-update-dialog.component';
+import { ExportDialogComponent } from './components/export-dialog/export-dialog.component';
+import { ParticipantImportComponent } from './components/participant-import/participant-import.component';
+import { ParticipantDuplicatesComponent } from './components/participant-duplicates/participant-duplicates.component';
+import { MergeDialogComponent } from './components/merge-dialog/merge-dialog.component';
+import { FilterDialogComponent } from './components/filter-dialog/filter-dialog.component';
+import { SaveViewDialogComponent } from './components/save-view-dialog/save-view-dialog.component';
+import { SavedViewsSidebarComponent } from './components/saved-views-sidebar/saved-views-sidebar.component';
+import { ColumnChooserDialogComponent } from './components/column-chooser-dialog/column-chooser-dialog.component';
+import { ParticipantProfileComponent } from './components/participant-profile/participant-profile.component';
 
 const routes: Routes = [
   { path: '', component: ParticipantsListComponent },
-  { path: 'new', component: ParticipantFormComponent },
-  { path: ':id', component: ParticipantFormComponent }
+  { path: 'new', component: ParticipantFormComponent, canActivate: [permissionGuard('participant.create')] },
+  { path: 'import', component: ParticipantImportComponent, canActivate: [permissionGuard('participant.import')] },
+  {
+    path: 'duplicates',
+    component: ParticipantDuplicatesComponent,
+    canActivate: [permissionGuard('participant.merge')]
+  },
+  { path: ':id', component: ParticipantProfileComponent },
+  {
+    path: ':id/edit',
+    component: ParticipantFormComponent,
+    canActivate: [permissionGuard('participant.update')]
+  }
 ];
 
 @NgModule({
   declarations: [
     ParticipantsListComponent,
     ParticipantFormComponent,
-    ConfirmDialogComponent
+    BulkUpdateDialogComponent,
+    ParticipantImportComponent,
+    ExportDialogComponent,
+    ParticipantDuplicatesComponent,
+    MergeDialogComponent,
+    FilterDialogComponent,
+    SaveViewDialogComponent,
+    SavedViewsSidebarComponent,
+    ColumnChooserDialogComponent,
+    ParticipantProfileComponent
   ],
   imports: [
     CommonModule,
     ReactiveFormsModule,
     FormsModule,
     MaterialModule,
+    SharedModule,
+    BaseChartDirective,
     RouterModule.forChild(routes)
   ]
 })
@@ -0,0 +1,19 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { Permission } from '../models/permission.model';
+import { PermissionService } from '../services/permission.service';
+
+/**
+ * Route guard factory that requires a permission
+ * Users without it see the "no permission" page instead
+ */
+export function permissionGuard(permission: Permission): CanActivateFn {
+  return () => {
+    const permissionService = inject(PermissionService);
+    const router = inject(Router);
+
+    return permissionService.can(permission)
+      ? true
+      : router.createUrlTree(['/no-permission'], { queryParams: { permission } });
+  };
+}
@@ -1,23 +1,41 @@
-import { HttpInterceptorFn, HttpRequest, HttpHandlerFn } from '@angular/common/http';
+import { HttpErrorResponse, HttpInterceptorFn, HttpRequest, HttpHandlerFn } from '@angular/common/http';
 import { inject } from '@angular/core';
-import { environment } from '../../environments/environment';
+import { throwError } from 'rxjs';
+import { catchError, switchMap } from 'rxjs/operators';
+import { AuthService } from '../services/auth.service';
+import { ConfigService } from '../services/config.service';
 
 /**
- * HTTP Interceptor that adds API authentication headers to all requests
- * Adds the API key header as specified in environment configuration
+ * HTTP Interceptor that authenticates API requests
+ * Attaches the session's bearer token (refreshing it first when it is about
+ * to expire) and sends the user to the login page when the API answers 401
  */
 export const authInterceptor: HttpInterceptorFn = (req: HttpRequest<unknown>, next: HttpHandlerFn) => {
   // Only add headers for API requests
-  if (req.url.includes(environment.apiBaseUrl)) {
-    const authReq = req.clone({
-      setHeaders: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        [environment.apiKeyHeaderName]: environment.apiKeyValue
-      }
-    });
-    return next(authReq);
+  if (!req.url.startsWith(inject(ConfigService).config().apiBaseUrl)) {
+    return next(req);
+  }
+
+  const authService = inject(AuthService);
+  const jsonHeaders = {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json'
+  };
+
+  // Auth endpoints set their own Authorization header when they need one
+  if (authService.isAuthEndpoint(req.url)) {
+    return next(req.clone({ setHeaders: jsonHeaders }));
   }
-  
-  return next(req);
+
+  return authService.getValidToken().pipe(
+    switchMap(token => next(req.clone({
+      setHeaders: token ? { ...jsonHeaders, Authorization: `Bearer ${token}` } : jsonHeaders
+    }))),
+    catchError((error: unknown) => {
+      if (error instanceof HttpErrorResponse && error.status === 401) {
+        authService.handleUnauthorized();
+      }
+      return throwError(() => error);
+    })
+  );
 };
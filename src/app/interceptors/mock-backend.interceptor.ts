@@ -0,0 +1,290 @@
+import {
+  HttpErrorResponse,
+  HttpEvent,
+  HttpHandlerFn,
+  HttpInterceptorFn,
+  HttpRequest,
+  HttpResponse
+} from '@angular/common/http';
+import { inject, InjectionToken } from '@angular/core';
+import { Observable, of, throwError, timer } from 'rxjs';
+import { mergeMap } from 'rxjs/operators';
+import { CreateParticipantDto } from '../models/participant.model';
+import { LoginCredentials } from '../models/auth.model';
+import { AuthConfig, MockBackendConfig } from '../models/app-config.model';
+import { MockParticipantsStore } from '../mocks/mock-participants.store';
+import { MockAuthStore } from '../mocks/mock-auth.store';
+import { MockCohortsStore } from '../mocks/mock-cohorts.store';
+import { MOCK_SKILL_CATALOG } from '../mocks/skills.mock-data';
+import { CreateCohortDto } from '../models/cohort.model';
+import { ConfigService } from '../services/config.service';
+import { Permission, ROLE_PERMISSIONS } from '../models/permission.model';
+
+/**
+ * Override point for tests that need a fixed latency or error behavior
+ */
+export const MOCK_BACKEND_CONFIG = new InjectionToken<MockBackendConfig>('MOCK_BACKEND_CONFIG', {
+  providedIn: 'root',
+  factory: () => inject(ConfigService).config().mockBackend
+});
+
+const SIMULATED_ERROR_MESSAGES: { [status: number]: string } = {
+  400: 'Simulated bad request.',
+  401: 'Unauthenticated.',
+  403: 'This action is unauthorized.',
+  404: 'Not Found.',
+  500: 'Server Error'
+};
+
+/**
+ * HTTP Interceptor that answers auth, skill catalog, participant and cohort API calls from in-memory stores
+ * Enabled through the `mockBackend.enabled` setting; all other requests pass through
+ */
+export const mockBackendInterceptor: HttpInterceptorFn = (req: HttpRequest<unknown>, next: HttpHandlerFn) => {
+  const config = inject(MOCK_BACKEND_CONFIG);
+  const { apiBaseUrl, auth } = inject(ConfigService).config();
+  const path = req.url.startsWith(apiBaseUrl) ? req.url.slice(apiBaseUrl.length) : null;
+
+  const authPaths = [auth.loginUrl, auth.refreshUrl, auth.logoutUrl];
+  const isAuthRequest = path !== null && authPaths.includes(path);
+  // The skill catalog is public: it is loaded before anyone signs in
+  const isCatalogRequest = path === '/skills' && req.method === 'GET';
+
+  const resource = path?.startsWith('/participants') ? 'participant' : path?.startsWith('/cohorts') ? 'cohort' : null;
+
+  if (!config.enabled || path === null || (!isAuthRequest && !isCatalogRequest && !resource)) {
+    return next(req);
+  }
+
+  if (isCatalogRequest) {
+    return timer(config.latencyMs).pipe(mergeMap(() => respond(req, 200, { data: MOCK_SKILL_CATALOG })));
+  }
+
+  const store = inject(MockParticipantsStore);
+  const cohortsStore = inject(MockCohortsStore);
+  const authStore = inject(MockAuthStore);
+  const token = MockAuthStore.bearerToken(req.headers.get('Authorization'));
+
+  if (isAuthRequest) {
+    return timer(config.latencyMs).pipe(mergeMap(() => handleAuth(req, path, token, authStore, config, auth)));
+  }
+
+  return timer(config.latencyMs).pipe(
+    mergeMap(() => {
+      if (config.errorStatuses.length && Math.random() < config.errorRate) {
+        const status = config.errorStatuses[Math.floor(Math.random() * config.errorStatuses.length)];
+        return respondWithError(req, status, { message: SIMULATED_ERROR_MESSAGES[status] ?? 'Simulated error' });
+      }
+      const user = authStore.authenticate(token);
+      if (!user) {
+        return respondWithError(req, 401, { message: 'Unauthenticated.' });
+      }
+      if (!ROLE_PERMISSIONS[user.role].includes(requiredPermission(resource!, req.method))) {
+        return respondWithError(req, 403, { message: 'This action is unauthorized.' });
+      }
+      return resource === 'cohort'
+        ? handleCohorts(req, path, cohortsStore)
+        : handleParticipants(req, path, store, cohortsStore);
+    })
+  );
+};
+
+/**
+ * Permission the API policy checks for a request; reading cohorts only
+ * needs access to participants
+ */
+function requiredPermission(resource: 'participant' | 'cohort', method: string): Permission {
+  if (resource === 'cohort') {
+    switch (method) {
+      case 'GET':
+        return 'participant.view';
+      case 'DELETE':
+        return 'cohort.delete';
+      default:
+        return 'cohort.manage';
+    }
+  }
+  switch (method) {
+    case 'POST':
+      return 'participant.create';
+    case 'PUT':
+    case 'PATCH':
+      return 'participant.update';
+    case 'DELETE':
+      return 'participant.delete';
+    default:
+      return 'participant.view';
+  }
+}
+
+/**
+ * Answer the Sanctum-style login, refresh and logout endpoints
+ */
+function handleAuth(
+  req: HttpRequest<unknown>,
+  path: string,
+  token: string | null,
+  authStore: MockAuthStore,
+  config: MockBackendConfig,
+  auth: AuthConfig
+): Observable<HttpEvent<unknown>> {
+  if (req.method !== 'POST') {
+    return respondWithError(req, 405, { message: `The ${req.method} method is not supported for this route.` });
+  }
+
+  switch (path) {
+    case auth.loginUrl: {
+      const session = authStore.login((req.body ?? {}) as Partial<LoginCredentials>, config.tokenTtlMs);
+      return session
+        ? respond(req, 200, session)
+        : respondWithValidationErrors(req, { email: ['These credentials do not match our records.'] });
+    }
+    case auth.refreshUrl: {
+      const session = authStore.refresh(token, config.tokenTtlMs);
+      return session ? respond(req, 200, session) : respondWithError(req, 401, { message: 'Unauthenticated.' });
+    }
+    default:
+      authStore.logout(token);
+      return respond(req, 204, null);
+  }
+}
+
+/**
+ * Route a `/participants` request to the matching store operation
+ */
+function handleParticipants(
+  req: HttpRequest<unknown>,
+  path: string,
+  store: MockParticipantsStore,
+  cohortsStore: MockCohortsStore
+): Observable<HttpEvent<unknown>> {
+  const match = path.match(/^\/participants(?:\/(\d+))?\/?$/);
+  if (!match) {
+    return respondWithError(req, 404, { message: 'Not Found.' });
+  }
+
+  const id = match[1] ? Number(match[1]) : null;
+  const body = (req.body ?? {}) as Partial<CreateParticipantDto>;
+
+  // exists:cohorts,id
+  if (body.cohort_id !== undefined && body.cohort_id !== null && !cohortsStore.find(body.cohort_id)) {
+    return respondWithValidationErrors(req, { cohort_id: ['The selected cohort id is invalid.'] });
+  }
+
+  if (id === null) {
+    switch (req.method) {
+      case 'GET':
+        return respond(req, 200, store.query(req.params));
+      case 'POST': {
+        const created = store.create(body);
+        return MockParticipantsStore.isValidationErrors(created)
+          ? respondWithValidationErrors(req, created)
+          : respond(req, 201, created);
+      }
+    }
+    return respondWithError(req, 405, { message: `The ${req.method} method is not supported for this route.` });
+  }
+
+  const notFound = { message: `No query results for model [App\\Models\\Participant] ${id}` };
+
+  switch (req.method) {
+    case 'GET': {
+      const participant = store.find(id);
+      return participant ? respond(req, 200, participant) : respondWithError(req, 404, notFound);
+    }
+    case 'PUT':
+    case 'PATCH': {
+      const updated = store.update(id, body);
+      if (!updated) {
+        return respondWithError(req, 404, notFound);
+      }
+      return MockParticipantsStore.isValidationErrors(updated)
+        ? respondWithValidationErrors(req, updated)
+        : respond(req, 200, updated);
+    }
+    case 'DELETE':
+      return store.remove(id) ? respond(req, 204, null) : respondWithError(req, 404, notFound);
+  }
+  return respondWithError(req, 405, { message: `The ${req.method} method is not supported for this route.` });
+}
+
+/**
+ * Route a `/cohorts` request to the matching store operation
+ */
+function handleCohorts(
+  req: HttpRequest<unknown>,
+  path: string,
+  store: MockCohortsStore
+): Observable<HttpEvent<unknown>> {
+  const match = path.match(/^\/cohorts(?:\/(\d+))?\/?$/);
+  if (!match) {
+    return respondWithError(req, 404, { message: 'Not Found.' });
+  }
+
+  const id = match[1] ? Number(match[1]) : null;
+  const body = (req.body ?? {}) as Partial<CreateCohortDto>;
+
+  if (id === null) {
+    switch (req.method) {
+      case 'GET':
+        return respond(req, 200, store.all());
+      case 'POST': {
+        const created = store.create(body);
+        return MockParticipantsStore.isValidationErrors(created)
+          ? respondWithValidationErrors(req, created)
+          : respond(req, 201, created);
+      }
+    }
+    return respondWithError(req, 405, { message: `The ${req.method} method is not supported for this route.` });
+  }
+
+  const notFound = { message: `No query results for model [App\\Models\\Cohort] ${id}` };
+
+  switch (req.method) {
+    case 'GET': {
+      const cohort = store.find(id);
+      return cohort ? respond(req, 200, cohort) : respondWithError(req, 404, notFound);
+    }
+    case 'PUT':
+    case 'PATCH': {
+      const updated = store.update(id, body);
+      if (!updated) {
+        return respondWithError(req, 404, notFound);
+      }
+      return MockParticipantsStore.isValidationErrors(updated)
+        ? respondWithValidationErrors(req, updated)
+        : respond(req, 200, updated);
+    }
+    case 'DELETE':
+      return store.remove(id) ? respond(req, 204, null) : respondWithError(req, 404, notFound);
+  }
+  return respondWithError(req, 405, { message: `The ${req.method} method is not supported for this route.` });
+}
+
+function respond(req: HttpRequest<unknown>, status: number, body: unknown): Observable<HttpEvent<unknown>> {
+  return of(new HttpResponse({ status, body, url: req.urlWithParams }));
+}
+
+function respondWithError(req: HttpRequest<unknown>, status: number, error: unknown): Observable<never> {
+  return throwError(() => new HttpErrorResponse({
+    status,
+    error,
+    url: req.urlWithParams,
+    statusText: 'Mock Backend Error'
+  }));
+}
+
+/**
+ * Shape a 422 response the way Laravel's FormRequest does
+ */
+function respondWithValidationErrors(
+  req: HttpRequest<unknown>,
+  errors: Record<string, string[]>
+): Observable<never> {
+  const messages = Object.values(errors).flat();
+  const more = messages.length - 1;
+  const message = more > 0
+    ? `${messages[0]} (and ${more} more error${more > 1 ? 's' : ''})`
+    : messages[0];
+  return respondWithError(req, 422, { message, errors });
+}
@@ -0,0 +1,49 @@
+import { Cohort } from '../models/cohort.model';
+
+/**
+ * Seed cohorts for the in-memory mock backend
+ *
+ * Three consecutive batches covering the seeded registration dates; the
+ * participant count is derived from the participants store on every request.
+ */
+export type MockCohortRecord = Omit<Cohort, 'participants_count'>;
+
+export const MOCK_COHORTS: readonly MockCohortRecord[] = [
+  {
+    id: 1,
+    name: 'Full Stack Batch 1',
+    program: 'Full Stack Web Development',
+    trainer: 'Anitha Ramesh',
+    start_date: '2025-01-13',
+    end_date: '2025-03-28',
+    created_at: '2024-12-16T09:00:00.000Z',
+    updated_at: '2024-12-16T09:00:00.000Z'
+  },
+  {
+    id: 2,
+    name: 'Full Stack Batch 2',
+    program: 'Full Stack Web Development',
+    trainer: 'Anitha Ramesh',
+    start_date: '2025-04-07',
+    end_date: '2025-06-20',
+    created_at: '2025-03-10T09:00:00.000Z',
+    updated_at: '2025-03-10T09:00:00.000Z'
+  },
+  {
+    id: 3,
+    name: 'Data Science Batch 1',
+    program: 'Data Science with Python',
+    trainer: 'Sanjay Menon',
+    start_date: '2025-07-07',
+    end_date: '2025-09-19',
+    created_at: '2025-06-09T09:00:00.000Z',
+    updated_at: '2025-06-09T09:00:00.000Z'
+  }
+];
+
+/**
+ * Fresh copies of the seed cohorts
+ */
+export function createMockCohorts(): MockCohortRecord[] {
+  return MOCK_COHORTS.map(cohort => ({ ...cohort }));
+}
@@ -0,0 +1,96 @@
+import { Injectable } from '@angular/core';
+
+import { AuthTokenResponse, AuthUser, LoginCredentials } from '../models/auth.model';
+
+/**
+ * Demo account accepted by the mock backend
+ */
+interface MockAccount extends AuthUser {
+  password: string;
+}
+
+const MOCK_ACCOUNTS: MockAccount[] = [
+  { id: 1, name: 'Demo Admin', email: 'admin@hereandnowai.com', password: 'password', role: 'admin' },
+  { id: 2, name: 'Demo Coordinator', email: 'coordinator@hereandnowai.com', password: 'password', role: 'coordinator' },
+  { id: 3, name: 'Demo Viewer', email: 'viewer@hereandnowai.com', password: 'password', role: 'viewer' }
+];
+
+/**
+ * MockAuthStore
+ *
+ * Issues and checks tokens for the mock backend the way Laravel Sanctum
+ * does. Tokens encode their user and expiry (`<user id>|<expires at>|<nonce>`)
+ * so a session survives page reloads even though the mock keeps no state
+ * beyond revoked tokens.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MockAuthStore {
+  private readonly revoked = new Set<string>();
+
+  /**
+   * Issue a token for valid credentials; null when they do not match
+   */
+  login(credentials: Partial<LoginCredentials>, ttlMs: number): AuthTokenResponse | null {
+    const account = MOCK_ACCOUNTS.find(candidate =>
+      candidate.email === credentials.email?.trim().toLowerCase() && candidate.password === credentials.password
+    );
+    return account ? this.issue(this.toUser(account), ttlMs) : null;
+  }
+
+  /**
+   * Revoke a valid token and issue a new one for the same user
+   */
+  refresh(token: string | null, ttlMs: number): AuthTokenResponse | null {
+    const user = this.authenticate(token);
+    if (!user || !token) {
+      return null;
+    }
+    this.revoked.add(token);
+    return this.issue(user, ttlMs);
+  }
+
+  /**
+   * Revoke a token
+   */
+  logout(token: string | null): void {
+    if (token) {
+      this.revoked.add(token);
+    }
+  }
+
+  /**
+   * User owning a valid, unexpired and unrevoked token
+   */
+  authenticate(token: string | null): AuthUser | null {
+    if (!token || this.revoked.has(token)) {
+      return null;
+    }
+    const [userId, expiresAt] = token.split('|').map(Number);
+    const account = MOCK_ACCOUNTS.find(candidate => candidate.id === userId);
+    return account && expiresAt > Date.now() ? this.toUser(account) : null;
+  }
+
+  /**
+   * Read the token from an `Authorization: Bearer` header value
+   */
+  static bearerToken(header: string | null): string | null {
+    const match = header?.match(/^Bearer\s+(.+)$/i);
+    return match ? match[1] : null;
+  }
+
+  private issue(user: AuthUser, ttlMs: number): AuthTokenResponse {
+    const expiresAt = Date.now() + ttlMs;
+    const nonce = Math.random().toString(36).slice(2, 12);
+    return {
+      token: `${user.id}|${expiresAt}|${nonce}`,
+      expires_at: new Date(expiresAt).toISOString(),
+      user
+    };
+  }
+
+  private toUser({ password, ...user }: MockAccount): AuthUser {
+    return user;
+  }
+}
@@ -0,0 +1,156 @@
+import { Injectable } from '@angular/core';
+
+import { Cohort, CreateCohortDto } from '../models/cohort.model';
+import { MockCohortRecord, createMockCohorts } from './cohorts.mock-data';
+import { MockParticipantsStore, MockValidationErrors } from './mock-participants.store';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * MockCohortsStore
+ *
+ * In-memory cohort table behind the mock backend interceptor. Mirrors the
+ * Laravel controller: cohorts come with `participants_count`, names are
+ * unique, the end date may not precede the start date and deleting a
+ * cohort leaves its participants unassigned (`nullOnDelete`).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MockCohortsStore {
+  private cohorts: MockCohortRecord[] = createMockCohorts();
+  private nextId = this.cohorts.length + 1;
+
+  constructor(private participants: MockParticipantsStore) {}
+
+  /**
+   * Replace the store contents, e.g. to start a test from known data
+   */
+  reset(cohorts: MockCohortRecord[] = createMockCohorts()): void {
+    this.cohorts = cohorts.map(c => ({ ...c }));
+    this.nextId = Math.max(0, ...this.cohorts.map(c => c.id)) + 1;
+  }
+
+  /**
+   * Answer `GET /cohorts`, newest batch first
+   */
+  all(): Cohort[] {
+    return this.cohorts
+      .map(cohort => this.withCount(cohort))
+      .sort((a, b) => b.start_date.localeCompare(a.start_date));
+  }
+
+  /**
+   * Find a cohort by id
+   */
+  find(id: number): Cohort | undefined {
+    const cohort = this.cohorts.find(c => c.id === id);
+    return cohort ? this.withCount(cohort) : undefined;
+  }
+
+  /**
+   * Validate and insert a cohort
+   */
+  create(body: Partial<CreateCohortDto>): Cohort | MockValidationErrors {
+    const errors = this.validate(body);
+    if (errors) {
+      return errors;
+    }
+
+    const now = new Date().toISOString();
+    const cohort: MockCohortRecord = {
+      name: '',
+      program: '',
+      trainer: '',
+      start_date: '',
+      end_date: '',
+      ...body,
+      id: this.nextId++,
+      created_at: now,
+      updated_at: now
+    };
+    this.cohorts.push(cohort);
+    return this.withCount(cohort);
+  }
+
+  /**
+   * Validate and apply a partial update; undefined when the id is unknown
+   */
+  update(id: number, body: Partial<CreateCohortDto>): Cohort | MockValidationErrors | undefined {
+    const index = this.cohorts.findIndex(c => c.id === id);
+    if (index === -1) {
+      return undefined;
+    }
+
+    const errors = this.validate({ ...this.cohorts[index], ...body }, id);
+    if (errors) {
+      return errors;
+    }
+
+    this.cohorts[index] = {
+      ...this.cohorts[index],
+      ...body,
+      id,
+      updated_at: new Date().toISOString()
+    };
+    return this.withCount(this.cohorts[index]);
+  }
+
+  /**
+   * Delete a cohort and unassign its participants; false when the id is unknown
+   */
+  remove(id: number): boolean {
+    const before = this.cohorts.length;
+    this.cohorts = this.cohorts.filter(c => c.id !== id);
+    if (this.cohorts.length === before) {
+      return false;
+    }
+    this.participants.unassignCohort(id);
+    return true;
+  }
+
+  private withCount(cohort: MockCohortRecord): Cohort {
+    const participantsCount = this.participants.all().filter(p => p.cohort_id === cohort.id).length;
+    return { ...cohort, participants_count: participantsCount };
+  }
+
+  /**
+   * Run the Laravel request rules; on update `body` already holds the merged record
+   */
+  private validate(body: Partial<CreateCohortDto>, ignoreId?: number): MockValidationErrors | null {
+    const errors: MockValidationErrors = {};
+    const add = (field: string, message: string) => {
+      (errors[field] ??= []).push(message);
+    };
+
+    const name = body.name?.trim() ?? '';
+    if (!name) {
+      add('name', 'The name field is required.');
+    } else if (name.length > 100) {
+      add('name', 'The name field must not be greater than 100 characters.');
+    } else if (this.cohorts.some(c => c.id !== ignoreId && c.name.toLowerCase() === name.toLowerCase())) {
+      add('name', 'The name has already been taken.');
+    }
+
+    (['program', 'trainer'] as const).forEach(field => {
+      if ((body[field]?.length ?? 0) > 100) {
+        add(field, `The ${field} field must not be greater than 100 characters.`);
+      }
+    });
+
+    (['start_date', 'end_date'] as const).forEach(field => {
+      const value = body[field] ?? '';
+      if (!value) {
+        add(field, `The ${field.replace('_', ' ')} field is required.`);
+      } else if (!DATE_PATTERN.test(value) || isNaN(Date.parse(value))) {
+        add(field, `The ${field.replace('_', ' ')} field must be a valid date.`);
+      }
+    });
+
+    if (!errors['start_date'] && !errors['end_date'] && body.end_date! < body.start_date!) {
+      add('end_date', 'The end date field must be a date after or equal to start date.');
+    }
+
+    return Object.keys(errors).length ? errors : null;
+  }
+}
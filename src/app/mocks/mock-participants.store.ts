@@ -0,0 +1,330 @@
+import { Injectable } from '@angular/core';
+import { HttpParams } from '@angular/common/http';
+
+import {
+  Participant,
+  CreateParticipantDto,
+  PaginatedResponse
+} from '../models/participant.model';
+import { ParticipantCondition } from '../models/participant-filter.model';
+import { SkillField, isSkillField, skillScore } from '../models/skill.model';
+import { parseCondition } from '../utils/participant-query.util';
+import { isEmptySearch, parseSearch, searchScore } from '../utils/participant-search.util';
+import { toDateString } from '../utils/date.util';
+import { createMockParticipants } from './participants.mock-data';
+
+/**
+ * Laravel-style validation error bag: field name to list of messages
+ */
+export type MockValidationErrors = Record<string, string[]>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const WHATSAPP_PATTERN = /^[\+]?[0-9\s\-\(\)]{10,20}$/;
+const LINKEDIN_PATTERN = /^https?:\/\/(www\.)?linkedin\.com\/.*$/;
+
+/**
+ * MockParticipantsStore
+ *
+ * In-memory participant table behind the mock backend interceptor.
+ * Mirrors the Laravel controller: query params for paging, sorting,
+ * filtering, the ranked search syntax and the filter panel's AND/OR conditions,
+ * `unique:participants,email` and the same field rules as the participant
+ * form, reported as 422 error bags. Any `*_skill` field is accepted as a
+ * skill score, so the store works with every skill catalog.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MockParticipantsStore {
+  private participants: Participant[] = createMockParticipants();
+  private nextId = this.participants.length + 1;
+
+  /**
+   * Replace the store contents, e.g. to start a test from known data
+   */
+  reset(participants: Participant[] = createMockParticipants()): void {
+    this.participants = participants.map(p => ({ ...p }));
+    this.nextId = Math.max(0, ...this.participants.map(p => p.id)) + 1;
+  }
+
+  /**
+   * Snapshot of all stored participants
+   */
+  all(): Participant[] {
+    return this.participants.map(p => ({ ...p }));
+  }
+
+  /**
+   * Find a participant by id
+   */
+  find(id: number): Participant | undefined {
+    const participant = this.participants.find(p => p.id === id);
+    return participant ? { ...participant } : undefined;
+  }
+
+  /**
+   * Answer `GET /participants`; paginates only when a `page` param is present
+   */
+  query(params: HttpParams): Participant[] | PaginatedResponse<Participant> {
+    let rows = this.all();
+
+    const search = parseSearch(params.get('search') ?? '', this.skillFields());
+    const relevance = new Map<number, number>();
+    if (!isEmptySearch(search)) {
+      rows.forEach(p => relevance.set(p.id, searchScore(p, search)));
+      rows = rows.filter(p => (relevance.get(p.id) ?? 0) > 0);
+    }
+
+    params.keys()
+      .filter(key => key.startsWith('filter['))
+      .forEach(key => {
+        const name = key.slice('filter['.length, -1);
+        rows = rows.filter(p => this.matchesFilter(p, name, params.get(key) ?? ''));
+      });
+
+    const conditions = (params.getAll('where[]') ?? [])
+      .map(parseCondition)
+      .filter((condition): condition is ParticipantCondition => !!condition);
+    if (conditions.length) {
+      const any = params.get('match') === 'any';
+      rows = rows.filter(p => any
+        ? conditions.some(condition => this.matchesCondition(p, condition))
+        : conditions.every(condition => this.matchesCondition(p, condition))
+      );
+    }
+
+    const sort = params.get('sort');
+    if (sort) {
+      const direction = sort.startsWith('-') ? -1 : 1;
+      const field = sort.replace(/^-/, '') as keyof Participant;
+      // Participants without a score for a skill sort as 0 ("not specified")
+      const value = (p: Participant) => (isSkillField(field) ? skillScore(p, field) : p[field]);
+      rows.sort((a, b) => {
+        const left = value(a);
+        const right = value(b);
+        if (typeof left === 'number' && typeof right === 'number') {
+          return (left - right) * direction;
+        }
+        return String(left).localeCompare(String(right)) * direction;
+      });
+    } else if (relevance.size) {
+      // Without a sort, search results come best match first
+      rows.sort((a, b) => (relevance.get(b.id) ?? 0) - (relevance.get(a.id) ?? 0));
+    }
+
+    if (!params.has('page')) {
+      return rows;
+    }
+
+    const perPage = Math.max(1, Number(params.get('per_page')) || 15);
+    const lastPage = Math.max(1, Math.ceil(rows.length / perPage));
+    const currentPage = Math.min(Math.max(1, Number(params.get('page')) || 1), lastPage);
+    const start = (currentPage - 1) * perPage;
+
+    return {
+      data: rows.slice(start, start + perPage),
+      total: rows.length,
+      current_page: currentPage,
+      last_page: lastPage,
+      per_page: perPage
+    };
+  }
+
+  /**
+   * Validate and insert a participant
+   */
+  create(body: Partial<CreateParticipantDto>): Participant | MockValidationErrors {
+    const errors = this.validate(body, false);
+    if (errors) {
+      return errors;
+    }
+
+    const now = new Date().toISOString();
+    const participant: Participant = {
+      name: '',
+      whatsapp: '',
+      email: '',
+      linkedin: '',
+      github_id: '',
+      outcome: '',
+      ...body,
+      cohort_id: body.cohort_id ?? null,
+      id: this.nextId++,
+      created_at: now,
+      updated_at: now
+    };
+    this.participants.push(participant);
+    return { ...participant };
+  }
+
+  /**
+   * Validate and apply a partial update; undefined when the id is unknown
+   */
+  update(id: number, body: Partial<CreateParticipantDto>): Participant | MockValidationErrors | undefined {
+    const index = this.participants.findIndex(p => p.id === id);
+    if (index === -1) {
+      return undefined;
+    }
+
+    const errors = this.validate(body, true, id);
+    if (errors) {
+      return errors;
+    }
+
+    const updated: Participant = {
+      ...this.participants[index],
+      ...body,
+      id,
+      updated_at: new Date().toISOString()
+    };
+    this.participants[index] = updated;
+    return { ...updated };
+  }
+
+  /**
+   * Delete a participant; false when the id is unknown
+   */
+  remove(id: number): boolean {
+    const before = this.participants.length;
+    this.participants = this.participants.filter(p => p.id !== id);
+    return this.participants.length < before;
+  }
+
+  /**
+   * Clear the cohort of every participant assigned to it
+   */
+  unassignCohort(cohortId: number): void {
+    this.participants = this.participants.map(p => (p.cohort_id === cohortId ? { ...p, cohort_id: null } : p));
+  }
+
+  /**
+   * Type guard separating a validation error bag from a stored participant
+   */
+  static isValidationErrors(result: unknown): result is MockValidationErrors {
+    return !!result && typeof result === 'object' && !('id' in result);
+  }
+
+  /**
+   * Skill fields stored on any participant; the store has no catalog of its own
+   */
+  private skillFields(): SkillField[] {
+    return [...new Set(this.participants.flatMap(p => Object.keys(p).filter(isSkillField)))];
+  }
+
+  /**
+   * Apply a single `filter[name]=value` constraint
+   */
+  private matchesFilter(participant: Participant, name: string, value: string): boolean {
+    const range = name.match(/^(.+_skill)_(min|max)$/);
+    if (range) {
+      const score = skillScore(participant, range[1] as SkillField);
+      return range[2] === 'min' ? score >= Number(value) : score <= Number(value);
+    }
+
+    const field = participant[name as keyof Participant];
+    if (field === undefined) {
+      return true;
+    }
+    if (field === null) {
+      return false;
+    }
+    if (typeof field === 'number') {
+      return field === Number(value);
+    }
+    return field.toLowerCase().includes(value.toLowerCase());
+  }
+
+  /**
+   * Apply a single `where[]=field:operator:value` condition of the filter panel
+   */
+  private matchesCondition(participant: Participant, condition: ParticipantCondition): boolean {
+    switch (condition.type) {
+      case 'skill': {
+        const score = skillScore(participant, condition.field);
+        return condition.operator === 'gte' ? score >= condition.value
+          : condition.operator === 'lte' ? score <= condition.value
+          : score === condition.value;
+      }
+      case 'outcome': {
+        const outcome = participant.outcome.trim().toLowerCase();
+        const text = condition.value.trim().toLowerCase();
+        return condition.operator === 'equals' ? outcome === text : outcome.includes(text);
+      }
+      case 'created': {
+        const day = toDateString(new Date(participant.created_at));
+        return (!condition.from || day >= condition.from) && (!condition.to || day <= condition.to);
+      }
+      case 'missing':
+        return !participant[condition.field]?.trim();
+    }
+  }
+
+  /**
+   * Run the Laravel request rules; `partial` mirrors `sometimes` on update
+   */
+  private validate(
+    body: Partial<CreateParticipantDto>,
+    partial: boolean,
+    ignoreId?: number
+  ): MockValidationErrors | null {
+    const errors: MockValidationErrors = {};
+    const add = (field: string, message: string) => {
+      (errors[field] ??= []).push(message);
+    };
+    const present = (field: keyof CreateParticipantDto) => !partial || field in body;
+
+    if (present('name')) {
+      const name = body.name?.trim() ?? '';
+      if (!name) {
+        add('name', 'The name field is required.');
+      } else if (name.length < 2) {
+        add('name', 'The name field must be at least 2 characters.');
+      } else if (name.length > 100) {
+        add('name', 'The name field must not be greater than 100 characters.');
+      }
+    }
+
+    if (present('email')) {
+      const email = body.email?.trim() ?? '';
+      if (!email) {
+        add('email', 'The email field is required.');
+      } else if (!EMAIL_PATTERN.test(email) || email.length > 255) {
+        add('email', 'The email field must be a valid email address.');
+      } else if (this.participants.some(p =>
+        p.id !== ignoreId && p.email.toLowerCase() === email.toLowerCase()
+      )) {
+        add('email', 'The email has already been taken.');
+      }
+    }
+
+    if (present('whatsapp')) {
+      const whatsapp = body.whatsapp?.trim() ?? '';
+      if (!whatsapp) {
+        add('whatsapp', 'The whatsapp field is required.');
+      } else if (!WHATSAPP_PATTERN.test(whatsapp)) {
+        add('whatsapp', 'The whatsapp field format is invalid.');
+      }
+    }
+
+    if (body.linkedin && !LINKEDIN_PATTERN.test(body.linkedin)) {
+      add('linkedin', 'The linkedin field format is invalid.');
+    }
+
+    if (body.github_id && body.github_id.length > 50) {
+      add('github_id', 'The github id field must not be greater than 50 characters.');
+    }
+
+    Object.keys(body).filter(isSkillField).forEach(field => {
+      const value = body[field];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0 || value > 10)) {
+        add(field, `The ${field.replace('_', ' ')} field must be between 0 and 10.`);
+      }
+    });
+
+    if (body.outcome && body.outcome.length > 1000) {
+      add('outcome', 'The outcome field must not be greater than 1000 characters.');
+    }
+
+    return Object.keys(errors).length ? errors : null;
+  }
+}
@@ -0,0 +1,85 @@
+import { Participant } from '../models/participant.model';
+import { MOCK_COHORTS } from './cohorts.mock-data';
+
+/**
+ * Seed data for the in-memory mock backend
+ *
+ * Generates a deterministic set of participants so that every offline session
+ * and every test run starts from the same data.
+ */
+
+const FIRST_NAMES = [
+  'Aarav', 'Priya', 'Karthik', 'Divya', 'Rahul', 'Sneha', 'Vikram', 'Ananya',
+  'Arjun', 'Meera', 'Suresh', 'Lakshmi', 'Naveen', 'Kavya', 'Ravi', 'Pooja'
+];
+
+const LAST_NAMES = [
+  'Kumar', 'Sharma', 'Iyer', 'Reddy', 'Nair', 'Menon', 'Pillai', 'Rao',
+  'Krishnan', 'Subramanian'
+];
+
+const OUTCOMES = [
+  '',
+  'Completed the program',
+  'Placed as junior developer',
+  'Needs more practice with fundamentals',
+  'Dropped out after week 3',
+  'Internship offer received'
+];
+
+/**
+ * Small linear congruential generator so the seed is reproducible
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+/**
+ * Participants join the batch whose dates cover their registration, or the
+ * next one to start; registrations after the last batch stay unassigned
+ */
+function cohortFor(createdAt: string): number | null {
+  const day = createdAt.slice(0, 10);
+  return MOCK_COHORTS.find(cohort => day <= cohort.end_date)?.id ?? null;
+}
+
+/**
+ * Build `count` participants with stable ids, contacts, skills and timestamps
+ */
+export function createMockParticipants(count: number = 60, seed: number = 42): Participant[] {
+  const random = createRandom(seed);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const skill = (): number => Math.floor(random() * 11);
+  const start = Date.UTC(2025, 0, 6);
+
+  return Array.from({ length: count }, (_, index) => {
+    const id = index + 1;
+    const first = pick(FIRST_NAMES);
+    const last = pick(LAST_NAMES);
+    const handle = `${first}.${last}${id}`.toLowerCase();
+    const createdAt = new Date(start + Math.floor(random() * 270) * 86400000).toISOString();
+
+    return {
+      id,
+      name: `${first} ${last}`,
+      whatsapp: `+91 9${String(100000000 + Math.floor(random() * 899999999)).slice(0, 9)}`,
+      email: `${handle}@example.com`,
+      linkedin: random() > 0.25 ? `https://www.linkedin.com/in/${handle.replace('.', '-')}` : '',
+      github_id: random() > 0.3 ? handle.replace('.', '') : '',
+      python_skill: skill(),
+      angular_skill: skill(),
+      javascript_skill: skill(),
+      html_skill: skill(),
+      css_skill: skill(),
+      java_skill: skill(),
+      outcome: pick(OUTCOMES),
+      cohort_id: cohortFor(createdAt),
+      created_at: createdAt,
+      updated_at: createdAt
+    };
+  });
+}
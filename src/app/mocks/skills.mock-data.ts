@@ -0,0 +1,18 @@
+import { SkillDefinition } from '../models/skill.model';
+
+/**
+ * Skill catalog served by the mock `GET /skills` endpoint
+ *
+ * Differs from the built-in catalog on purpose: Java is retired (seeded
+ * participants keep their Java scores) and SQL is new (nobody has a score
+ * yet), so both cases can be tried by setting `skills.catalogUrl` to `/skills`.
+ */
+export const MOCK_SKILL_CATALOG: readonly SkillDefinition[] = [
+  { key: 'python', label: 'Python', icon: 'code', color: '#3776ab', order: 1 },
+  { key: 'angular', label: 'Angular', icon: 'web', color: '#dd0031', order: 2 },
+  { key: 'javascript', label: 'JavaScript', icon: 'javascript', color: '#f7df1e', order: 3, aliases: ['js'] },
+  { key: 'html', label: 'HTML', icon: 'language', color: '#e34c26', order: 4 },
+  { key: 'css', label: 'CSS', icon: 'palette', color: '#1572b6', order: 5 },
+  { key: 'sql', label: 'SQL', icon: 'storage', color: '#336791', order: 6 },
+  { key: 'java', label: 'Java', icon: 'coffee', color: '#ed8b00', order: 7, retired: true }
+];
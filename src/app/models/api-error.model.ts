@@ -0,0 +1,111 @@
+import { HttpErrorResponse } from '@angular/common/http';
+
+/**
+ * API Error Model
+ *
+ * Typed error raised by services for every failed API request.
+ * Extends `Error` so existing `error.message` consumers keep working, while
+ * exposing the HTTP status, a machine-readable code, Laravel's per-field
+ * validation messages and the server request id for support tickets.
+ *
+ * @author HERE AND NOW AI Development Team
+ * @version 1.0.0
+ * @since Angular 20.2.1
+ */
+
+/**
+ * Machine-readable error codes; the server may send its own `code` as well
+ */
+export type ApiErrorCode =
+  | 'network_error'
+  | 'bad_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'validation_failed'
+  | 'server_error'
+  | 'unknown_error'
+  | (string & {});
+
+/**
+ * Laravel validation bag: field name to list of messages
+ */
+export type ApiFieldErrors = Record<string, string[]>;
+
+/**
+ * ApiError
+ *
+ * @property {number} status - HTTP status (0 for network failures)
+ * @property {ApiErrorCode} code - Error code from the server or derived from status
+ * @property {string} message - User-friendly message
+ * @property {ApiFieldErrors} fieldErrors - Per-field validation messages (422 only)
+ * @property {string | null} requestId - Value of the `X-Request-Id` response header
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ApiErrorCode,
+    message: string,
+    readonly fieldErrors: ApiFieldErrors = {},
+    readonly requestId: string | null = null
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  /**
+   * Check whether the server reported errors for individual fields
+   */
+  hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+
+  /**
+   * First validation message for a field, if any
+   */
+  fieldError(field: string): string | null {
+    return this.fieldErrors[field]?.[0] ?? null;
+  }
+
+  /**
+   * Build an ApiError with a user-friendly message from an HTTP failure
+   */
+  static fromHttpError(error: HttpErrorResponse): ApiError {
+    const requestId = error.headers?.get('X-Request-Id') ?? null;
+    const body = error.error;
+
+    if (body instanceof ErrorEvent || error.status === 0) {
+      const detail = body instanceof ErrorEvent ? body.message : 'Unable to reach the server.';
+      return new ApiError(0, 'network_error', `Error: ${detail}`, {}, requestId);
+    }
+
+    const serverCode: string | undefined = typeof body?.code === 'string' ? body.code : undefined;
+    const serverMessage: string | undefined = typeof body?.message === 'string' ? body.message : undefined;
+
+    switch (error.status) {
+      case 400:
+        return new ApiError(400, serverCode ?? 'bad_request', 'Bad request. Please check your input.', {}, requestId);
+      case 401:
+        return new ApiError(401, serverCode ?? 'unauthorized', 'Your session has expired. Please sign in again.', {}, requestId);
+      case 403:
+        return new ApiError(403, serverCode ?? 'forbidden', 'Forbidden. You do not have permission to perform this action.', {}, requestId);
+      case 404:
+        return new ApiError(404, serverCode ?? 'not_found', 'Resource not found.', {}, requestId);
+      case 422: {
+        const fieldErrors: ApiFieldErrors = body?.errors ?? {};
+        const message = serverMessage ?? 'Validation error. Please check your input.';
+        return new ApiError(422, serverCode ?? 'validation_failed', message, fieldErrors, requestId);
+      }
+      case 500:
+        return new ApiError(500, serverCode ?? 'server_error', 'Server error. Please try again later.', {}, requestId);
+      default:
+        return new ApiError(
+          error.status,
+          serverCode ?? 'unknown_error',
+          `Error ${error.status}: ${serverMessage || error.message}`,
+          {},
+          requestId
+        );
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { SkillCatalogConfig } from './skill.model';
+import { SavedViewsConfig } from './saved-view.model';
+
+/**
+ * Application Configuration Models
+ *
+ * Shape of the runtime configuration. Defaults come from the build-time
+ * environment file and can be overridden per deployment by `config.json`,
+ * which is fetched before the application starts.
+ *
+ * @author HERE AND NOW AI Development Team
+ * @version 1.0.0
+ * @since Angular 20.2.1
+ */
+
+/**
+ * Auth endpoints (relative to `apiBaseUrl`) and token refresh timing
+ */
+export interface AuthConfig {
+  loginUrl: string;
+  refreshUrl: string;
+  logoutUrl: string;
+  refreshLeewayMs: number;
+}
+
+/**
+ * In-memory backend used for offline development and demos
+ */
+export interface MockBackendConfig {
+  enabled: boolean;
+  latencyMs: number;
+  errorRate: number;
+  errorStatuses: number[];
+  tokenTtlMs: number;
+}
+
+/**
+ * Organization branding shown in the shell and on the login page
+ */
+export interface BrandConfig {
+  organizationName: string;
+  website: string;
+  email: string;
+  mobile: string;
+  slogan: string;
+  colors: {
+    primary: string;
+    secondary: string;
+  };
+  logo: {
+    title: string;
+    favicon: string;
+  };
+  chatbot: {
+    avatar: string;
+    face: string;
+  };
+  socialMedia: {
+    blog: string;
+    linkedin: string;
+    instagram: string;
+    github: string;
+    x: string;
+    youtube: string;
+  };
+}
+
+/**
+ * Complete runtime configuration
+ *
+ * @interface AppConfig
+ * @property {string} apiBaseUrl - Absolute base URL of the Laravel API
+ * @property {AuthConfig} auth - Auth endpoints and refresh timing
+ * @property {number} deleteUndoWindowMs - How long "Undo" is offered before a delete is sent
+ * @property {SkillCatalogConfig} skills - Skill catalog, inline or fetched from the API
+ * @property {SavedViewsConfig} savedViews - Where saved participant list views are kept
+ * @property {MockBackendConfig} mockBackend - In-memory backend settings
+ * @property {BrandConfig} brand - Organization branding
+ */
+export interface AppConfig {
+  apiBaseUrl: string;
+  auth: AuthConfig;
+  deleteUndoWindowMs: number;
+  skills: SkillCatalogConfig;
+  savedViews: SavedViewsConfig;
+  mockBackend: MockBackendConfig;
+  brand: BrandConfig;
+}
+
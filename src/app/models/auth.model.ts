@@ -0,0 +1,66 @@
+import { UserRole } from './permission.model';
+
+/**
+ * Authentication Models
+ *
+ * Types for token-based login against a Laravel Sanctum-style API:
+ * `POST /login` exchanges credentials for a personal access token,
+ * `POST /refresh` trades a valid token for a new one and `POST /logout`
+ * revokes it.
+ *
+ * @author HERE AND NOW AI Development Team
+ * @version 1.0.0
+ * @since Angular 20.2.1
+ */
+
+/**
+ * Signed-in user as returned by the auth endpoints
+ *
+ * @interface AuthUser
+ * @property {number} id - User identifier
+ * @property {string} name - Display name
+ * @property {string} email - Login email
+ * @property {UserRole} role - Role deciding what the user may do
+ */
+export interface AuthUser {
+  id: number;
+  name: string;
+  email: string;
+  role: UserRole;
+}
+
+/**
+ * Credentials submitted by the login form
+ */
+export interface LoginCredentials {
+  email: string;
+  password: string;
+}
+
+/**
+ * Token response of the login and refresh endpoints
+ *
+ * @interface AuthTokenResponse
+ * @property {string} token - Plain-text personal access token
+ * @property {string | null} expires_at - ISO expiry timestamp; null for non-expiring tokens
+ * @property {AuthUser} user - Owner of the token
+ */
+export interface AuthTokenResponse {
+  token: string;
+  expires_at: string | null;
+  user: AuthUser;
+}
+
+/**
+ * Session kept in storage between page loads
+ *
+ * @interface AuthSession
+ * @property {string} token - Bearer token
+ * @property {number | null} expiresAt - Expiry as epoch milliseconds; null when it never expires
+ * @property {AuthUser} user - Signed-in user
+ */
+export interface AuthSession {
+  token: string;
+  expiresAt: number | null;
+  user: AuthUser;
+}
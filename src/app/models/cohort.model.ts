@@ -0,0 +1,70 @@
+import { toDateString } from '../utils/date.util';
+
+/**
+ * Cohort Models
+ *
+ * A cohort is one training batch: participants are assigned to it and the
+ * list, dashboard and exports can be scoped to a single cohort.
+ *
+ * @author HERE AND NOW AI Development Team
+ * @version 1.0.0
+ * @since Angular 20.2.1
+ */
+
+/**
+ * Cohort as returned by the Laravel API
+ *
+ * @interface Cohort
+ * @property {number} id - Unique identifier
+ * @property {string} name - Batch name, e.g. "Full Stack Batch 3"
+ * @property {string} program - Training program the batch follows
+ * @property {string} trainer - Lead trainer
+ * @property {string} start_date - First day (YYYY-MM-DD)
+ * @property {string} end_date - Last day (YYYY-MM-DD)
+ * @property {number} participants_count - Assigned participants (`withCount`)
+ * @property {string} created_at - Creation timestamp (ISO format)
+ * @property {string} updated_at - Last update timestamp (ISO format)
+ */
+export interface Cohort {
+  id: number;
+  name: string;
+  program: string;
+  trainer: string;
+  start_date: string;
+  end_date: string;
+  participants_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * DTO for creating a cohort
+ */
+export interface CreateCohortDto {
+  name: string;
+  program: string;
+  trainer: string;
+  start_date: string;
+  end_date: string;
+}
+
+/**
+ * DTO for updating a cohort
+ */
+export interface UpdateCohortDto extends Partial<CreateCohortDto> {}
+
+/**
+ * Where a cohort stands relative to today
+ */
+export type CohortStatus = 'upcoming' | 'running' | 'completed';
+
+/**
+ * Status of a cohort on the given day
+ */
+export function cohortStatus(cohort: Pick<Cohort, 'start_date' | 'end_date'>, today: Date = new Date()): CohortStatus {
+  const day = toDateString(today);
+  if (day < cohort.start_date) {
+    return 'upcoming';
+  }
+  return day > cohort.end_date ? 'completed' : 'running';
+}
@@ -0,0 +1,49 @@
+/**
+ * Column Layout Models
+ *
+ * How a user arranged the participants table: column order and visibility,
+ * column widths and which columns stay pinned while scrolling sideways.
+ *
+ * @author HERE AND NOW AI Development Team
+ * @version 1.0.0
+ * @since Angular 20.2.1
+ */
+
+/**
+ * Column Layout
+ *
+ * @interface ColumnLayout
+ * @property {string[]} order - Data columns in display order; columns missing here keep their default position
+ * @property {string[]} hidden - Data columns that are not shown
+ * @property {Record<string, number>} widths - Widths in pixels of resized columns
+ * @property {boolean} pinName - Keep the selection and name columns in view
+ * @property {boolean} pinActions - Keep the actions column in view
+ */
+export interface ColumnLayout {
+  order: string[];
+  hidden: string[];
+  widths: Record<string, number>;
+  pinName: boolean;
+  pinActions: boolean;
+}
+
+/**
+ * Layout used until a user customizes the table; the outcome is hidden
+ * because long notes make the rows tall
+ */
+export const DEFAULT_COLUMN_LAYOUT: ColumnLayout = {
+  order: [],
+  hidden: ['outcome'],
+  widths: {},
+  pinName: true,
+  pinActions: true
+};
+
+/**
+ * Data column with its header text, as offered by the column chooser
+ */
+export interface ColumnOption {
+  id: string;
+  label: string;
+  visible: boolean;
+}
@@ -0,0 +1,78 @@
+import { ChartConfiguration } from 'chart.js';
+
+/**
+ * Dashboard Report Models
+ *
+ * Snapshot of the dashboard handed to the report generator: the scope it
+ * was taken in, the KPIs, the charts as Chart.js configurations (rendered
+ * off-screen, so the report does not depend on what is visible) and the
+ * tables behind them. Everything is generated in the browser.
+ *
+ * @author HERE AND NOW AI Development Team
+ * @version 1.0.0
+ * @since Angular 20.2.1
+ */
+
+/**
+ * One KPI card, e.g. "Total Participants: 42"
+ */
+export interface ReportKpi {
+  label: string;
+  value: string;
+}
+
+/**
+ * One line of the report scope, e.g. "Cohort: Batch 7"
+ */
+export interface ReportScope {
+  label: string;
+  value: string;
+}
+
+/**
+ * Chart of the dashboard, exported as an image
+ *
+ * @interface ReportChart
+ * @property {string} id - Identifier used in PNG file names, e.g. `registrations`
+ * @property {string} title - Heading above the chart
+ * @property {string} subtitle - What the chart shows
+ * @property {ChartConfiguration} config - Chart.js configuration of the chart
+ */
+export interface ReportChart {
+  id: string;
+  title: string;
+  subtitle: string;
+  config: ChartConfiguration;
+}
+
+/**
+ * Table of the report; `fills` optionally colors body cells (CSS colors, null for none)
+ */
+export interface ReportTable {
+  title: string;
+  columns: string[];
+  rows: (string | number)[][];
+  fills?: (string | null)[][];
+}
+
+/**
+ * Complete dashboard snapshot
+ *
+ * @interface DashboardReport
+ * @property {string} title - Report title on the first page
+ * @property {Date} generatedAt - When the snapshot was taken
+ * @property {ReportScope[]} scope - Cohort, date range and other settings the numbers depend on
+ * @property {ReportKpi[]} kpis - KPI cards
+ * @property {ReportChart[]} charts - Charts, one after the other
+ * @property {ReportTable[]} tables - Tables shown after the charts
+ * @property {ReportTable[]} appendix - Data tables behind the charts
+ */
+export interface DashboardReport {
+  title: string;
+  generatedAt: Date;
+  scope: ReportScope[];
+  kpis: ReportKpi[];
+  charts: ReportChart[];
+  tables: ReportTable[];
+  appendix: ReportTable[];
+}
@@ -0,0 +1,69 @@
+import { Participant, UpdateParticipantDto } from './participant.model';
+
+/**
+ * Participant Duplicate Models
+ *
+ * Types for finding participants who registered more than once and merging
+ * their records.
+ *
+ * @author HERE AND NOW AI Development Team
+ * @version 1.0.0
+ * @since Angular 20.2.1
+ */
+
+/**
+ * Signal that two participants may be the same person
+ */
+export type DuplicateMatchType = 'whatsapp' | 'email' | 'github_id' | 'linkedin' | 'name';
+
+/**
+ * One matching signal with a short explanation for reviewers
+ */
+export interface DuplicateMatch {
+  type: DuplicateMatchType;
+  detail: string;
+}
+
+/**
+ * Likely duplicate pair; `first` is the older registration
+ *
+ * @interface DuplicatePair
+ * @property {string} key - Stable identifier of the pair
+ * @property {Participant} first - Older registration
+ * @property {Participant} second - Newer registration
+ * @property {DuplicateMatch[]} matches - Signals that matched
+ * @property {number} score - Confidence from 0 to 1
+ */
+export interface DuplicatePair {
+  key: string;
+  first: Participant;
+  second: Participant;
+  matches: DuplicateMatch[];
+  score: number;
+}
+
+/**
+ * Merge decided in the merge view: the survivor is updated with `changes`
+ * and the other participant is deleted
+ */
+export interface ParticipantMerge {
+  survivor: Participant;
+  duplicate: Participant;
+  changes: UpdateParticipantDto;
+}
+
+/**
+ * Confidence contributed by each matching signal
+ */
+export const DUPLICATE_MATCH_WEIGHTS: Record<DuplicateMatchType, number> = {
+  whatsapp: 0.6,
+  email: 0.4,
+  github_id: 0.6,
+  linkedin: 0.6,
+  name: 0.3
+};
+
+/**
+ * Name similarity (0-1) from which two names count as a match
+ */
+export const NAME_SIMILARITY_THRESHOLD = 0.85;
@@ -0,0 +1,84 @@
+import { Participant } from './participant.model';
+import { Skill } from './skill.model';
+
+/**
+ * Participant Export Models
+ *
+ * Options for exporting participants from the list to a file.
+ *
+ * @author HERE AND NOW AI Development Team
+ * @version 1.0.0
+ * @since Angular 20.2.1
+ */
+
+/**
+ * Supported export file formats
+ */
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+/**
+ * How timestamps are written: ISO 8601 or the browser locale
+ */
+export type ExportDateFormat = 'iso' | 'locale';
+
+/**
+ * Which participants are exported
+ */
+export type ExportScope = 'filtered' | 'selected';
+
+/**
+ * Participant field that can be exported
+ */
+export type ExportField = keyof Participant;
+
+/**
+ * Exportable column with its header text
+ */
+export interface ExportColumn {
+  field: ExportField;
+  label: string;
+}
+
+/**
+ * Options chosen in the export dialog
+ *
+ * @interface ExportOptions
+ * @property {ExportFormat} format - Output file format
+ * @property {ExportScope} scope - Current filtered list or selected rows only
+ * @property {ExportField[]} fields - Columns to include, in order
+ * @property {ExportDateFormat} dateFormat - Timestamp formatting
+ */
+export interface ExportOptions {
+  format: ExportFormat;
+  scope: ExportScope;
+  fields: ExportField[];
+  dateFormat: ExportDateFormat;
+}
+
+/**
+ * Every exportable column in export order, with a column per catalog skill
+ * (retired skills included, so their scores can still be exported)
+ */
+export function exportColumns(skills: readonly Skill[]): ExportColumn[] {
+  return [
+    { field: 'id', label: 'ID' },
+    { field: 'name', label: 'Name' },
+    { field: 'email', label: 'Email' },
+    { field: 'whatsapp', label: 'WhatsApp' },
+    { field: 'linkedin', label: 'LinkedIn' },
+    { field: 'github_id', label: 'GitHub ID' },
+    ...skills.map(skill => ({ field: skill.field, label: skill.retired ? `${skill.label} (retired)` : skill.label })),
+    { field: 'outcome', label: 'Outcome' },
+    { field: 'created_at', label: 'Created At' },
+    { field: 'updated_at', label: 'Updated At' }
+  ];
+}
+
+/**
+ * Columns preselected in the export dialog
+ */
+export function defaultExportFields(skills: readonly Skill[]): ExportField[] {
+  return exportColumns(skills.filter(skill => !skill.retired))
+    .map(column => column.field)
+    .filter(field => field !== 'id' && field !== 'updated_at');
+}
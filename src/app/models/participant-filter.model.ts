@@ -0,0 +1,86 @@
+import { SkillField } from './skill.model';
+
+/**
+ * Participant Filter Models
+ *
+ * Conditions built in the participants list filter panel. A list query holds
+ * any number of conditions combined with AND ("all") or OR ("any"). The API
+ * receives one `where[]=field:operator:value` parameter per condition, e.g.
+ * `where[]=angular_skill:gte:7`, plus `match=any` for OR (AND is the default);
+ * the page URL keeps the same tokens as `where` and `match`.
+ *
+ * @author HERE AND NOW AI Development Team
+ * @version 1.0.0
+ * @since Angular 20.2.1
+ */
+
+/**
+ * How conditions are combined: all must match (AND) or any may match (OR)
+ */
+export type FilterMatch = 'all' | 'any';
+
+/**
+ * Comparison of a skill score with a threshold
+ */
+export type SkillOperator = 'gte' | 'lte' | 'eq';
+
+/**
+ * Comparison of the outcome text, ignoring case
+ */
+export type TextOperator = 'contains' | 'equals';
+
+/**
+ * Optional profile field that can be filtered for being empty
+ */
+export type MissingField = 'linkedin' | 'github_id';
+
+/**
+ * Skill threshold, e.g. Angular ≥ 7
+ */
+export interface SkillCondition {
+  type: 'skill';
+  field: SkillField;
+  operator: SkillOperator;
+  value: number;
+}
+
+/**
+ * Outcome contains or equals a text
+ */
+export interface OutcomeCondition {
+  type: 'outcome';
+  operator: TextOperator;
+  value: string;
+}
+
+/**
+ * Registration (`created_at`) within a range of calendar dates (YYYY-MM-DD);
+ * either bound may be left open
+ */
+export interface CreatedCondition {
+  type: 'created';
+  from: string | null;
+  to: string | null;
+}
+
+/**
+ * LinkedIn profile or GitHub ID not filled in
+ */
+export interface MissingCondition {
+  type: 'missing';
+  field: MissingField;
+}
+
+/**
+ * One condition of the filter panel
+ */
+export type ParticipantCondition = SkillCondition | OutcomeCondition | CreatedCondition | MissingCondition;
+
+/**
+ * Symbols shown for skill operators in chips and selects
+ */
+export const SKILL_OPERATOR_LABELS: Record<SkillOperator, string> = {
+  gte: '≥',
+  lte: '≤',
+  eq: '='
+};
@@ -0,0 +1,67 @@
+import { CreateParticipantDto, ParticipantField } from './participant.model';
+
+/**
+ * Participant Import Models
+ *
+ * Types for the spreadsheet import wizard: the raw sheet, the mapping of
+ * sheet columns to participant fields and the validated preview rows.
+ *
+ * @author HERE AND NOW AI Development Team
+ * @version 1.0.0
+ * @since Angular 20.2.1
+ */
+
+/**
+ * Raw contents of an uploaded CSV or XLSX file
+ *
+ * @interface ImportSheet
+ * @property {string} fileName - Name of the uploaded file
+ * @property {string[]} headers - Header row
+ * @property {string[][]} rows - Data rows, one cell per header
+ */
+export interface ImportSheet {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Participant field to sheet column index (null when not mapped)
+ */
+export type ImportColumnMapping = Record<ParticipantField, number | null>;
+
+/**
+ * Why a row is considered a duplicate
+ */
+export interface ImportDuplicate {
+  field: 'email' | 'whatsapp';
+  matches: string;
+}
+
+/**
+ * Validation outcome of an import row
+ */
+export type ImportRowStatus = 'valid' | 'invalid' | 'duplicate';
+
+/**
+ * One sheet row after mapping, validation and duplicate detection
+ *
+ * @interface ImportRow
+ * @property {number} rowNumber - Spreadsheet row number (header is row 1)
+ * @property {CreateParticipantDto} dto - Participant built from the mapped cells
+ * @property {Object} errors - Validation message per invalid field
+ * @property {ImportDuplicate | null} duplicate - Existing participant or earlier row it duplicates
+ * @property {ImportRowStatus} status - Overall row status
+ */
+export interface ImportRow {
+  rowNumber: number;
+  dto: CreateParticipantDto;
+  errors: Partial<Record<ParticipantField, string>>;
+  duplicate: ImportDuplicate | null;
+  status: ImportRowStatus;
+}
+
+/**
+ * Participant fields that must be mapped before an import can continue
+ */
+export const REQUIRED_IMPORT_FIELDS: (ParticipantField)[] = ['name', 'email', 'whatsapp'];
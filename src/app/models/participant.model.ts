@@ -1,3 +1,6 @@
+import { SkillBand, SkillField, SkillScores } from './skill.model';
+import { FilterMatch, ParticipantCondition } from './participant-filter.model';
+
 /**
  * Participant Data Models and Types
  * 
@@ -29,30 +32,22 @@
  * @property {string} email - Email address (unique)
  * @property {string} linkedin - LinkedIn profile URL
  * @property {string} github_id - GitHub username/profile
- * @property {number} python_skill - Python skill level (1-10)
- * @property {number} angular_skill - Angular skill level (1-10)
- * @property {number} javascript_skill - JavaScript skill level (1-10)
- * @property {number} html_skill - HTML skill level (1-10)
- * @property {number} css_skill - CSS skill level (1-10)
- * @property {number} java_skill - Java skill level (1-10)
+ * @property {number} {key}_skill - Skill level (1-10) per skill catalog entry, e.g. `python_skill`;
+ *   scores of retired skills are kept
  * @property {string} outcome - Training outcome/status
+ * @property {number | null} cohort_id - Cohort the participant belongs to, if any
  * @property {string} created_at - Creation timestamp (ISO format)
  * @property {string} updated_at - Last update timestamp (ISO format)
  */
-export interface Participant {
+export interface Participant extends SkillScores {
   id: number;
   name: string;
   whatsapp: string;
   email: string;
   linkedin: string;
   github_id: string;
-  python_skill: number;
-  angular_skill: number;
-  javascript_skill: number;
-  html_skill: number;
-  css_skill: number;
-  java_skill: number;
   outcome: string;
+  cohort_id: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -65,19 +60,31 @@ export interface Participant {
  * 
  * @interface CreateParticipantDto
  */
-export interface CreateParticipantDto {
+export interface CreateParticipantDto extends SkillScores {
   name: string;
   whatsapp: string;
   email: string;
   linkedin: string;
   github_id: string;
-  python_skill: number;
-  angular_skill: number;
-  javascript_skill: number;
-  html_skill: number;
-  css_skill: number;
-  java_skill: number;
   outcome: string;
+  cohort_id?: number | null;
+}
+
+/**
+ * Participant fields other than skill scores; the cohort is assigned separately
+ */
+export type ParticipantDetailField = 'name' | 'email' | 'whatsapp' | 'linkedin' | 'github_id' | 'outcome';
+
+/**
+ * Participant data fields, as entered in the form or mapped from a spreadsheet
+ */
+export type ParticipantField = ParticipantDetailField | SkillField;
+
+/**
+ * Participant fields in form order for the given skills
+ */
+export function participantFields(skillFields: readonly SkillField[]): ParticipantField[] {
+  return ['name', 'email', 'whatsapp', 'linkedin', 'github_id', ...skillFields, 'outcome'];
 }
 
 /**
@@ -103,9 +110,12 @@ export const SKILL_LEVELS = [
 ];
 
 /**
- * Skills that can be tracked
+ * A single participant change within a bulk update
  */
-export type SkillType = 'python_skill' | 'angular_skill' | 'javascript_skill' | 'html_skill' | 'css_skill' | 'java_skill';
+export interface BatchUpdate {
+  id: number;
+  changes: UpdateParticipantDto;
+}
 
 /**
  * API response wrapper for list endpoints
@@ -117,23 +127,141 @@ export interface ApiResponse<T> {
 }
 
 /**
- * Statistics interface for dashboard
+ * Fields the Laravel API accepts in the `sort` query parameter
+ */
+export type ParticipantSortField = 'name' | 'email' | 'created_at' | 'updated_at' | SkillField;
+
+/**
+ * Sort direction for list queries
+ */
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Keys accepted as `filter[...]` query parameters.
+ * Skill fields additionally support `_min` / `_max` range bounds.
+ */
+export type ParticipantFilterKey =
+  | keyof CreateParticipantDto
+  | `${SkillField}_min`
+  | `${SkillField}_max`;
+
+/**
+ * Filter values sent to the API, keyed by filter name
+ */
+export type ParticipantFilters = Partial<Record<ParticipantFilterKey, string | number>>;
+
+/**
+ * Participant List Query
+ *
+ * Describes one page of the participants list as requested from the API.
+ * Serialized into Laravel-style query parameters
+ * (`page`, `per_page`, `sort=-created_at`, `search`, `filter[outcome]=placed`,
+ * `where[]=angular_skill:gte:7`, `match=any`).
+ *
+ * @interface ParticipantQuery
+ * @property {number} page - 1-based page number
+ * @property {number} perPage - Page size
+ * @property {ParticipantSortField} sortField - Field to sort by (optional)
+ * @property {SortDirection} sortDirection - Sort direction (defaults to ascending)
+ * @property {string} search - Ranked, typo-tolerant search with `field:word` and `skill:>n` terms
+ *   (see `participant-search.util.ts`); without a sort, results come best match first
+ * @property {ParticipantFilters} filters - Exact and range filters
+ * @property {ParticipantCondition[]} conditions - Filter panel conditions
+ * @property {FilterMatch} match - Whether all or any of the conditions must match (defaults to all)
+ * @property {string} origin - Where the list was opened from with its conditions, e.g. a dashboard
+ *   chart; shown as a chip and never sent to the API
+ */
+export interface ParticipantQuery {
+  page: number;
+  perPage: number;
+  sortField?: ParticipantSortField;
+  sortDirection?: SortDirection;
+  search?: string;
+  filters?: ParticipantFilters;
+  conditions?: ParticipantCondition[];
+  match?: FilterMatch;
+  origin?: string;
+}
+
+/**
+ * Default query used by the participants list on first load
+ */
+export const DEFAULT_PARTICIPANT_QUERY: ParticipantQuery = {
+  page: 1,
+  perPage: 10,
+  sortField: 'created_at',
+  sortDirection: 'desc'
+};
+
+/**
+ * Laravel paginated response envelope (`LengthAwarePaginator`)
+ */
+export interface PaginatedResponse<T> {
+  data: T[];
+  total: number;
+  current_page: number;
+  last_page: number;
+  per_page: number;
+}
+
+/**
+ * Pagination metadata kept alongside the current page of participants
+ */
+export interface PaginationMeta {
+  total: number;
+  currentPage: number;
+  lastPage: number;
+  perPage: number;
+}
+
+/**
+ * Statistics of one skill; a score of 0 means "not specified" and only
+ * counts towards `notSpecified`
+ *
+ * @interface SkillStatistics
+ * @property {number} scored - Participants with a score of 1-10
+ * @property {number} notSpecified - Participants without a score
+ * @property {number} mean - Average score, 0 when nobody has a score
+ * @property {number} median - Middle score, 0 when nobody has a score
+ * @property {number} standardDeviation - Population standard deviation of the scores
+ * @property {object} percentiles - 25th, 75th and 90th percentile of the scores
+ * @property {Record<SkillBand, number>} bands - Participants per score band
+ */
+export interface SkillStatistics {
+  scored: number;
+  notSpecified: number;
+  mean: number;
+  median: number;
+  standardDeviation: number;
+  percentiles: {
+    p25: number;
+    p75: number;
+    p90: number;
+  };
+  bands: Record<SkillBand, number>;
+}
+
+/**
+ * How closely the scores of two skills go together
+ *
+ * @interface SkillCorrelation
+ * @property {SkillField} x - First skill
+ * @property {SkillField} y - Second skill
+ * @property {number | null} coefficient - Pearson correlation (-1 to 1) rounded to two decimals;
+ *   null with fewer than two participants scored in both or when every score of a skill is the same
+ * @property {number} pairs - Participants with a score in both skills
+ */
+export interface SkillCorrelation {
+  x: SkillField;
+  y: SkillField;
+  coefficient: number | null;
+  pairs: number;
+}
+
+/**
+ * Statistics interface for dashboard, keyed by the active catalog skills
  */
 export interface ParticipantStats {
   totalCount: number;
-  averageSkills: {
-    python: number;
-    angular: number;
-    javascript: number;
-    html: number;
-    css: number;
-    java: number;
-  };
-  skillDistribution: {
-    [skill in SkillType]: {
-      low: number;    // 1-3
-      medium: number; // 4-6
-      high: number;   // 7-10
-    };
-  };
+  skills: Partial<Record<SkillField, SkillStatistics>>;
 }
@@ -0,0 +1,76 @@
+/**
+ * Permission Models
+ *
+ * Roles assigned to signed-in users and the actions each role may perform.
+ * The API enforces the same rules; the client uses them to hide actions and
+ * block routes a user could not complete anyway.
+ *
+ * @author HERE AND NOW AI Development Team
+ * @version 1.0.0
+ * @since Angular 20.2.1
+ */
+
+/**
+ * Role of a signed-in user, from least to most privileged
+ */
+export type UserRole = 'viewer' | 'coordinator' | 'admin';
+
+/**
+ * Action that can be allowed or denied
+ */
+export type Permission =
+  | 'participant.view'
+  | 'participant.export'
+  | 'participant.create'
+  | 'participant.update'
+  | 'participant.import'
+  | 'participant.delete'
+  | 'participant.merge'
+  | 'cohort.manage'
+  | 'cohort.delete'
+  | 'view.share';
+
+const VIEWER_PERMISSIONS: Permission[] = ['participant.view', 'participant.export'];
+
+const COORDINATOR_PERMISSIONS: Permission[] = [
+  ...VIEWER_PERMISSIONS,
+  'participant.create',
+  'participant.update',
+  'participant.import',
+  'cohort.manage',
+  'view.share'
+];
+
+/**
+ * Permissions granted to each role
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  viewer: VIEWER_PERMISSIONS,
+  coordinator: COORDINATOR_PERMISSIONS,
+  admin: [...COORDINATOR_PERMISSIONS, 'participant.delete', 'participant.merge', 'cohort.delete']
+};
+
+/**
+ * Human readable role names
+ */
+export const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: 'Viewer',
+  coordinator: 'Coordinator',
+  admin: 'Admin'
+};
+
+/**
+ * Human readable description of each permission, completing "You need permission to ..."
+ */
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  'participant.view': 'view participants',
+  'participant.export': 'export participants',
+  'participant.create': 'add participants',
+  'participant.update': 'edit participants',
+  'participant.import': 'import participants',
+  'participant.delete': 'delete participants',
+  'participant.merge': 'merge duplicate participants',
+  'cohort.manage': 'create and edit cohorts',
+  'cohort.delete': 'delete cohorts',
+  'view.share': 'share saved views'
+};
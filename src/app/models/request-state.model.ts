@@ -0,0 +1,68 @@
+import { ApiError } from './api-error.model';
+
+/**
+ * Request State Models
+ *
+ * Types describing the lifecycle of API requests so that each operation and
+ * each entity can expose its own loading and error state.
+ *
+ * @author HERE AND NOW AI Development Team
+ * @version 1.0.0
+ * @since Angular 20.2.1
+ */
+
+/**
+ * Lifecycle of a single request
+ */
+export type RequestStatus = 'idle' | 'pending' | 'success' | 'error';
+
+/**
+ * Status of a request together with its user-facing error message
+ *
+ * @interface RequestState
+ * @property {RequestStatus} status - Current lifecycle stage
+ * @property {string | null} error - Error message when status is 'error'
+ */
+export interface RequestState {
+  status: RequestStatus;
+  error: string | null;
+}
+
+/**
+ * Initial state of every operation before its first request
+ */
+export const IDLE_REQUEST_STATE: RequestState = {
+  status: 'idle',
+  error: null
+};
+
+/**
+ * Operations tracked by the participants store
+ */
+export type ParticipantOperation = 'list' | 'get' | 'create' | 'update' | 'delete';
+
+/**
+ * Outcome of a batch of per-participant requests
+ *
+ * @interface BatchResult
+ * @property {Array} succeeded - Ids that succeeded, with the server result
+ * @property {Array} failed - Ids that failed, with the typed error
+ */
+export interface BatchResult<T> {
+  succeeded: { id: number; result: T }[];
+  failed: { id: number; error: ApiError }[];
+}
+
+/**
+ * Running progress of a batch, emitted after each item completes
+ *
+ * @interface BatchProgress
+ * @property {number} completed - Items finished so far (succeeded or failed)
+ * @property {number} total - Items in the batch
+ * @property {BatchResult} result - Outcomes collected so far
+ */
+export interface BatchProgress<T> {
+  completed: number;
+  total: number;
+  result: BatchResult<T>;
+}
@@ -0,0 +1,74 @@
+import { FilterMatch } from './participant-filter.model';
+
+/**
+ * Saved View Models
+ *
+ * Named participant list states (search, filters, sort and columns) that
+ * coordinators reopen instead of rebuilding the same list every time.
+ *
+ * @author HERE AND NOW AI Development Team
+ * @version 1.0.0
+ * @since Angular 20.2.1
+ */
+
+/**
+ * Who can open a view: only its owner, or every signed-in user
+ */
+export type ViewVisibility = 'personal' | 'shared';
+
+/**
+ * List state captured by a view
+ *
+ * @interface SavedViewState
+ * @property {string} search - Free text search, empty for none
+ * @property {string} sort - Sort as sent to the API (`name`, `-created_at`), empty when unsorted
+ * @property {FilterMatch} match - Whether all or any of the conditions must match
+ * @property {string[]} conditions - Filter conditions as `field:operator:value` tokens
+ * @property {string[] | null} columns - Visible table columns, null for the default columns
+ */
+export interface SavedViewState {
+  search: string;
+  sort: string;
+  match: FilterMatch;
+  conditions: string[];
+  columns: string[] | null;
+}
+
+/**
+ * Saved View
+ *
+ * @interface SavedView
+ * @property {string} id - Unique identifier, used in `/participants?view={id}`
+ * @property {string} name - Display name, e.g. "No GitHub yet"
+ * @property {ViewVisibility} visibility - Personal or shared
+ * @property {number} owner_id - User who created the view; only they can change it
+ * @property {string} owner_name - Display name of the owner, shown on shared views
+ * @property {SavedViewState} state - The captured list state
+ * @property {string} created_at - Creation timestamp (ISO string)
+ * @property {string} updated_at - Last update timestamp (ISO string)
+ */
+export interface SavedView {
+  id: string;
+  name: string;
+  visibility: ViewVisibility;
+  owner_id: number;
+  owner_name: string;
+  state: SavedViewState;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Fields entered when saving or editing a view
+ */
+export type SavedViewDraft = Pick<SavedView, 'name' | 'visibility' | 'state'>;
+
+/**
+ * Where saved views are kept
+ *
+ * @interface SavedViewsConfig
+ * @property {string} url - API path (relative to `apiBaseUrl`) of the views resource; empty to keep views in this browser
+ */
+export interface SavedViewsConfig {
+  url: string;
+}
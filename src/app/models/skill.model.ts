@@ -0,0 +1,110 @@
+/**
+ * Skill Catalog Models
+ *
+ * The technologies participants are scored on. The catalog comes from the
+ * runtime configuration or the API; forms, tables, statistics and charts are
+ * generated from it, so adding a skill does not require a code change.
+ *
+ * @author HERE AND NOW AI Development Team
+ * @version 1.0.0
+ * @since Angular 20.2.1
+ */
+
+/**
+ * Participant field holding the score of one skill, e.g. `python_skill`
+ */
+export type SkillField = `${string}_skill`;
+
+/**
+ * Skill Definition
+ *
+ * One catalog entry as written in `config.json` or returned by `GET /skills`.
+ *
+ * @interface SkillDefinition
+ * @property {string} key - Identifier; the score is stored in `{key}_skill`
+ * @property {string} label - Display name, e.g. "JavaScript"
+ * @property {string} icon - Material icon name
+ * @property {string} color - Hex color used in charts and chips
+ * @property {number} order - Position in forms, tables and charts (ascending)
+ * @property {boolean} retired - No longer assessed; existing scores are kept and shown read-only
+ * @property {string[]} aliases - Extra spreadsheet headers recognised by the import
+ */
+export interface SkillDefinition {
+  key: string;
+  label: string;
+  icon: string;
+  color: string;
+  order: number;
+  retired?: boolean;
+  aliases?: string[];
+}
+
+/**
+ * Catalog entry resolved for use in the application
+ */
+export interface Skill extends Required<SkillDefinition> {
+  field: SkillField;
+}
+
+/**
+ * Range of scores grouped together in the skill distribution
+ */
+export type SkillBand = 'low' | 'medium' | 'high';
+
+/**
+ * Scores at which the medium and high bands start; the low band starts at 1
+ * and the high band ends at 10
+ */
+export interface SkillBandThresholds {
+  medium: number;
+  high: number;
+}
+
+/**
+ * Bands used when the configuration does not set any: 1-3, 4-6 and 7-10
+ */
+export const DEFAULT_SKILL_BAND_THRESHOLDS: SkillBandThresholds = {
+  medium: 4,
+  high: 7
+};
+
+/**
+ * Where the skill catalog comes from
+ *
+ * @interface SkillCatalogConfig
+ * @property {string} catalogUrl - API path (relative to `apiBaseUrl`) serving the catalog; empty to use `catalog`
+ * @property {SkillDefinition[]} catalog - Catalog used when no URL is set or the API is unavailable
+ * @property {SkillBandThresholds} bands - Where the low, medium and high bands of the dashboard split
+ */
+export interface SkillCatalogConfig {
+  catalogUrl: string;
+  catalog: SkillDefinition[];
+  bands: SkillBandThresholds;
+}
+
+/**
+ * Scores of a participant keyed by skill field
+ * Skills added after a participant registered have no score yet
+ */
+export type SkillScores = Partial<Record<SkillField, number>>;
+
+/**
+ * Participant field storing the score of a skill key
+ */
+export function skillField(key: string): SkillField {
+  return `${key}_skill`;
+}
+
+/**
+ * Whether a participant field holds a skill score
+ */
+export function isSkillField(field: string): field is SkillField {
+  return field.endsWith('_skill');
+}
+
+/**
+ * Score of one skill, 0 ("not specified") when the participant has none
+ */
+export function skillScore(scores: SkillScores, field: SkillField): number {
+  return scores[field] ?? 0;
+}
@@ -0,0 +1,188 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Router } from '@angular/router';
+import { Observable, of, throwError } from 'rxjs';
+import { catchError, finalize, map, shareReplay, tap } from 'rxjs/operators';
+
+import { AuthSession, AuthTokenResponse, AuthUser, LoginCredentials } from '../models/auth.model';
+import { ApiError } from '../models/api-error.model';
+import { AuthConfig } from '../models/app-config.model';
+import { ConfigService } from './config.service';
+
+const STORAGE_KEY = 'participant-admin.auth';
+
+/**
+ * AuthService
+ *
+ * Signs users in against the Sanctum-style auth endpoints and keeps the
+ * resulting bearer token, its expiry and the user in localStorage.
+ * Tokens close to expiry are refreshed transparently; an expired or
+ * rejected token ends the session and sends the user to the login page.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AuthService {
+  private readonly session = signal<AuthSession | null>(this.restoreSession());
+
+  // Shared while a refresh is in flight so parallel requests wait for the same token
+  private refreshInFlight$: Observable<string> | null = null;
+
+  // Public readonly signals
+  readonly user = computed<AuthUser | null>(() => this.session()?.user ?? null);
+  readonly isAuthenticated = computed(() => this.session() !== null);
+
+  constructor(
+    private http: HttpClient,
+    private router: Router,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * Exchange credentials for a token and start a session
+   */
+  login(credentials: LoginCredentials): Observable<AuthUser> {
+    return this.http
+      .post<AuthTokenResponse>(this.endpoint(this.authConfig.loginUrl), {
+        ...credentials,
+        device_name: 'participant-admin'
+      })
+      .pipe(
+        tap(response => this.startSession(response)),
+        map(response => response.user),
+        catchError((error: HttpErrorResponse) => throwError(() => ApiError.fromHttpError(error)))
+      );
+  }
+
+  /**
+   * Revoke the token on the server (best effort) and end the session
+   */
+  logout(): void {
+    const token = this.session()?.token;
+    this.endSession();
+    this.router.navigate(['/login']);
+
+    if (token) {
+      this.http
+        .post(this.endpoint(this.authConfig.logoutUrl), {}, { headers: { Authorization: `Bearer ${token}` } })
+        .subscribe({
+          error: () => {
+            // The token is already forgotten locally; an unreachable server changes nothing
+          }
+        });
+    }
+  }
+
+  /**
+   * Current token, refreshed first when it is about to expire
+   * Emits null when there is no usable session
+   */
+  getValidToken(): Observable<string | null> {
+    const session = this.session();
+    if (!session) {
+      return of(null);
+    }
+    if (this.isExpired(session)) {
+      this.endSession();
+      return of(null);
+    }
+    if (session.expiresAt !== null && session.expiresAt - Date.now() < this.authConfig.refreshLeewayMs) {
+      return this.refresh().pipe(catchError(() => of(null)));
+    }
+    return of(session.token);
+  }
+
+  /**
+   * Trade the current token for a new one
+   */
+  refresh(): Observable<string> {
+    const session = this.session();
+    if (!session) {
+      return throwError(() => new ApiError(401, 'unauthorized', 'Your session has ended. Please sign in again.'));
+    }
+
+    this.refreshInFlight$ ??= this.http
+      .post<AuthTokenResponse>(this.endpoint(this.authConfig.refreshUrl), {}, {
+        headers: { Authorization: `Bearer ${session.token}` }
+      })
+      .pipe(
+        tap(response => this.startSession(response)),
+        map(response => response.token),
+        catchError((error: HttpErrorResponse) => {
+          this.endSession();
+          return throwError(() => ApiError.fromHttpError(error));
+        }),
+        finalize(() => (this.refreshInFlight$ = null)),
+        shareReplay(1)
+      );
+    return this.refreshInFlight$;
+  }
+
+  /**
+   * End the session after the API rejected the token and ask the user to sign in,
+   * returning to the current page afterwards
+   */
+  handleUnauthorized(): void {
+    this.endSession();
+    if (!this.router.url.startsWith('/login')) {
+      this.router.navigate(['/login'], { queryParams: { returnUrl: this.router.url } });
+    }
+  }
+
+  /**
+   * Whether a request goes to one of the auth endpoints, which never carry the session token
+   */
+  isAuthEndpoint(url: string): boolean {
+    const { loginUrl, refreshUrl, logoutUrl } = this.authConfig;
+    return [loginUrl, refreshUrl, logoutUrl].some(path => url === this.endpoint(path));
+  }
+
+  private get authConfig(): AuthConfig {
+    return this.configService.config().auth;
+  }
+
+  private endpoint(path: string): string {
+    return `${this.configService.config().apiBaseUrl}${path}`;
+  }
+
+  private startSession(response: AuthTokenResponse): void {
+    const expiresAt = response.expires_at ? new Date(response.expires_at).getTime() : null;
+    const session: AuthSession = { token: response.token, expiresAt, user: response.user };
+    this.session.set(session);
+    this.writeStorage(session);
+  }
+
+  private endSession(): void {
+    this.session.set(null);
+    this.writeStorage(null);
+  }
+
+  private isExpired(session: AuthSession): boolean {
+    return session.expiresAt !== null && session.expiresAt <= Date.now();
+  }
+
+  /**
+   * Load a stored session, discarding it when unreadable or expired
+   */
+  private restoreSession(): AuthSession | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const session = stored ? (JSON.parse(stored) as AuthSession) : null;
+      return session?.token && !this.isExpired(session) ? session : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeStorage(session: AuthSession | null): void {
+    try {
+      if (session) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+      } else {
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch {
+      // Storage can be unavailable (private mode); the session then lasts for this tab only
+    }
+  }
+}
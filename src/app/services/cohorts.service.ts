@@ -0,0 +1,160 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, throwError } from 'rxjs';
+import { catchError, tap } from 'rxjs/operators';
+
+import { Cohort, CreateCohortDto, UpdateCohortDto } from '../models/cohort.model';
+import { IDLE_REQUEST_STATE, RequestState } from '../models/request-state.model';
+import { ApiError } from '../models/api-error.model';
+import { ConfigService } from './config.service';
+
+const STORAGE_KEY = 'participant-admin.cohort';
+
+/**
+ * CohortsService
+ *
+ * CRUD for training cohorts and the cohort currently selected in the app
+ * shell. The selection scopes the participants list, the dashboard and
+ * exports (see ParticipantsService) and is remembered between visits;
+ * `null` means all cohorts.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CohortsService {
+  private readonly cohortList = signal<Cohort[]>([]);
+  private readonly loadRequest = signal<RequestState>(IDLE_REQUEST_STATE);
+  private readonly selectedId = signal<number | null>(this.restoreSelection());
+
+  // Public readonly signals
+  readonly cohorts = this.cohortList.asReadonly();
+  readonly loadState = this.loadRequest.asReadonly();
+  readonly selectedCohortId = this.selectedId.asReadonly();
+  readonly selectedCohort = computed(() =>
+    this.cohortList().find(cohort => cohort.id === this.selectedId()) ?? null
+  );
+
+  constructor(
+    private http: HttpClient,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * Fetch all cohorts, newest first
+   * A remembered selection that no longer exists falls back to all cohorts
+   */
+  load(): Observable<Cohort[]> {
+    this.loadRequest.set({ status: 'pending', error: null });
+    return this.http.get<Cohort[]>(this.apiUrl).pipe(
+      tap(cohorts => {
+        this.cohortList.set(cohorts);
+        this.loadRequest.set({ status: 'success', error: null });
+        if (!cohorts.some(cohort => cohort.id === this.selectedId())) {
+          this.select(null);
+        }
+      }),
+      catchError((error: HttpErrorResponse) => {
+        this.loadRequest.set({ status: 'error', error: 'Failed to load cohorts' });
+        return this.handleError(error);
+      })
+    );
+  }
+
+  /**
+   * Get a single cohort by ID
+   */
+  get(id: number): Observable<Cohort> {
+    return this.http.get<Cohort>(`${this.apiUrl}/${id}`).pipe(
+      tap(cohort => this.upsert(cohort)),
+      catchError((error: HttpErrorResponse) => this.handleError(error))
+    );
+  }
+
+  /**
+   * Create a cohort
+   */
+  create(dto: CreateCohortDto): Observable<Cohort> {
+    return this.http.post<Cohort>(this.apiUrl, dto).pipe(
+      tap(cohort => this.upsert(cohort)),
+      catchError((error: HttpErrorResponse) => this.handleError(error))
+    );
+  }
+
+  /**
+   * Update a cohort
+   */
+  update(id: number, dto: UpdateCohortDto): Observable<Cohort> {
+    return this.http.put<Cohort>(`${this.apiUrl}/${id}`, dto).pipe(
+      tap(cohort => this.upsert(cohort)),
+      catchError((error: HttpErrorResponse) => this.handleError(error))
+    );
+  }
+
+  /**
+   * Delete a cohort; its participants become unassigned
+   */
+  remove(id: number): Observable<void> {
+    return this.http.delete<void>(`${this.apiUrl}/${id}`).pipe(
+      tap(() => {
+        this.cohortList.update(cohorts => cohorts.filter(cohort => cohort.id !== id));
+        if (this.selectedId() === id) {
+          this.select(null);
+        }
+      }),
+      catchError((error: HttpErrorResponse) => this.handleError(error))
+    );
+  }
+
+  /**
+   * Scope the app to one cohort, or to all cohorts with `null`
+   */
+  select(id: number | null): void {
+    this.selectedId.set(id);
+    try {
+      if (id === null) {
+        localStorage.removeItem(STORAGE_KEY);
+      } else {
+        localStorage.setItem(STORAGE_KEY, String(id));
+      }
+    } catch {
+      // Storage can be unavailable (private mode); the selection then lasts for this tab only
+    }
+  }
+
+  /**
+   * Display name of a cohort id, for tables and chips
+   */
+  nameOf(id: number | null): string {
+    return this.cohortList().find(cohort => cohort.id === id)?.name ?? '';
+  }
+
+  private get apiUrl(): string {
+    return `${this.configService.config().apiBaseUrl}/cohorts`;
+  }
+
+  /**
+   * Insert or replace a cohort, keeping the newest batch first
+   */
+  private upsert(cohort: Cohort): void {
+    this.cohortList.update(cohorts =>
+      [...cohorts.filter(c => c.id !== cohort.id), cohort]
+        .sort((a, b) => b.start_date.localeCompare(a.start_date))
+    );
+  }
+
+  private restoreSelection(): number | null {
+    try {
+      const stored = Number(localStorage.getItem(STORAGE_KEY));
+      return Number.isInteger(stored) && stored > 0 ? stored : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Handle HTTP errors and rethrow them as typed ApiErrors
+   */
+  private handleError(error: HttpErrorResponse): Observable<never> {
+    return throwError(() => ApiError.fromHttpError(error));
+  }
+}
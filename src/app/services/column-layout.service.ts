@@ -0,0 +1,84 @@
+import { Injectable, computed, signal } from '@angular/core';
+
+import { ColumnLayout, DEFAULT_COLUMN_LAYOUT } from '../models/column-layout.model';
+import { AuthService } from './auth.service';
+
+const STORAGE_KEY = 'participant-admin.column-layouts';
+
+/**
+ * ColumnLayoutService
+ *
+ * The participants table layout of the signed-in user, remembered per user
+ * in `localStorage` so people sharing a browser keep their own columns.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ColumnLayoutService {
+  private readonly layouts = signal<Record<number, ColumnLayout>>(this.restoreLayouts());
+
+  // Public readonly signal
+  readonly layout = computed(() => {
+    const userId = this.authService.user()?.id;
+    return (userId !== undefined && this.layouts()[userId]) || DEFAULT_COLUMN_LAYOUT;
+  });
+
+  constructor(private authService: AuthService) {}
+
+  /**
+   * Replace parts of the layout
+   */
+  update(changes: Partial<ColumnLayout>): void {
+    const userId = this.authService.user()?.id;
+    if (userId === undefined) {
+      return;
+    }
+    this.layouts.update(layouts => ({ ...layouts, [userId]: { ...this.layout(), ...changes } }));
+    this.persist();
+  }
+
+  /**
+   * Remember the width of one column
+   */
+  setWidth(column: string, width: number): void {
+    this.update({ widths: { ...this.layout().widths, [column]: Math.round(width) } });
+  }
+
+  /**
+   * Go back to the default layout
+   */
+  reset(): void {
+    this.update(DEFAULT_COLUMN_LAYOUT);
+  }
+
+  /**
+   * Put the available columns in the order of the layout; columns the layout
+   * does not know yet (e.g. a new skill) follow the column they come after by default
+   */
+  arrange(available: string[], order: string[] = this.layout().order): string[] {
+    const arranged = order.filter(column => available.includes(column));
+    available.forEach((column, index) => {
+      if (!arranged.includes(column)) {
+        arranged.splice(index === 0 ? 0 : arranged.indexOf(available[index - 1]) + 1, 0, column);
+      }
+    });
+    return arranged;
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.layouts()));
+    } catch {
+      // Storage can be unavailable (private mode); the layout then lasts for this tab only
+    }
+  }
+
+  private restoreLayouts(): Record<number, ColumnLayout> {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+      return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+    } catch {
+      return {};
+    }
+  }
+}
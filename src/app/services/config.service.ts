@@ -0,0 +1,102 @@
+import { Injectable, signal } from '@angular/core';
+import { HttpBackend, HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, of } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+
+import { AppConfig } from '../models/app-config.model';
+import {
+  ConfigRule,
+  absoluteUrl,
+  fraction,
+  hexColor,
+  mergeConfig,
+  nonNegativeNumber,
+  positiveNumber,
+  relativePath
+} from '../utils/config.util';
+import { checkSkillBands, checkSkillCatalog } from '../utils/skill-catalog.util';
+import { environment } from '../../environments/environment';
+
+/**
+ * Deployment-specific overrides, served next to index.html
+ */
+const CONFIG_URL = 'config.json';
+
+/**
+ * Build-time defaults used for every setting config.json leaves out
+ */
+const DEFAULT_CONFIG: AppConfig = {
+  apiBaseUrl: environment.apiBaseUrl,
+  auth: environment.auth,
+  deleteUndoWindowMs: environment.deleteUndoWindowMs,
+  skills: environment.skills,
+  savedViews: environment.savedViews,
+  mockBackend: environment.mockBackend,
+  brand: environment.brand
+};
+
+const CONFIG_RULES: Record<string, ConfigRule> = {
+  'apiBaseUrl': absoluteUrl,
+  'auth.loginUrl': relativePath,
+  'auth.refreshUrl': relativePath,
+  'auth.logoutUrl': relativePath,
+  'auth.refreshLeewayMs': nonNegativeNumber,
+  'deleteUndoWindowMs': nonNegativeNumber,
+  'skills.catalogUrl': value => (value === '' ? null : relativePath(value)),
+  'skills.catalog': checkSkillCatalog,
+  'skills.bands': checkSkillBands,
+  'savedViews.url': value => (value === '' ? null : relativePath(value)),
+  'mockBackend.latencyMs': nonNegativeNumber,
+  'mockBackend.errorRate': fraction,
+  'mockBackend.tokenTtlMs': positiveNumber,
+  'brand.colors.primary': hexColor,
+  'brand.colors.secondary': hexColor
+};
+
+/**
+ * ConfigService
+ *
+ * Holds the runtime configuration. `load()` runs as an app initializer and
+ * merges `config.json` over the environment defaults, so one build can be
+ * pointed at another backend or rebranded by replacing a single file.
+ * Invalid settings are logged and keep their defaults; a missing or
+ * unreadable file leaves the defaults in place.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ConfigService {
+  private readonly current = signal<AppConfig>(DEFAULT_CONFIG);
+
+  // Public readonly signal
+  readonly config = this.current.asReadonly();
+
+  // Bypasses the interceptors, which themselves depend on the configuration
+  private readonly http: HttpClient;
+
+  constructor(httpBackend: HttpBackend) {
+    this.http = new HttpClient(httpBackend);
+  }
+
+  /**
+   * Fetch config.json and apply it over the defaults
+   * Never errors, so the application always starts
+   */
+  load(): Observable<AppConfig> {
+    return this.http.get<unknown>(CONFIG_URL).pipe(
+      map(overrides => this.apply(overrides)),
+      catchError((error: HttpErrorResponse) => {
+        console.warn(`[ConfigService] Could not load ${CONFIG_URL}, using the built-in defaults:`, error.message);
+        return of(this.current());
+      })
+    );
+  }
+
+  private apply(overrides: unknown): AppConfig {
+    const { config, problems } = mergeConfig(DEFAULT_CONFIG, overrides, CONFIG_RULES);
+    problems.forEach(problem => console.warn(`[ConfigService] ${CONFIG_URL}: ${problem}`));
+
+    this.current.set({ ...config, apiBaseUrl: config.apiBaseUrl.replace(/\/+$/, '') });
+    return this.current();
+  }
+}
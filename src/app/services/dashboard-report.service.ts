@@ -0,0 +1,333 @@
+import { Injectable } from '@angular/core';
+import { Observable, defer, from } from 'rxjs';
+import type { jsPDF } from 'jspdf';
+
+import { BrandConfig } from '../models/app-config.model';
+import { DashboardReport, ReportChart, ReportTable } from '../models/dashboard-report.model';
+import { renderChartImage } from '../utils/chart-image.util';
+import { dataUrlToBlob, datedFileName, saveBlob } from '../utils/download.util';
+import { ConfigService } from './config.service';
+
+// A4 portrait in millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const HEADER_HEIGHT = 24;
+const CONTENT_TOP = HEADER_HEIGHT + 10;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 18;
+
+// Charts are drawn at this size in CSS pixels and scaled to the content width
+const CHART_WIDTH = 900;
+const CHART_HEIGHT = 420;
+
+const TABLE_ROW_HEIGHT = 6;
+const LOGO_TIMEOUT_MS = 5000;
+
+/**
+ * DashboardReportService
+ *
+ * Turns a dashboard snapshot into a branded multi-page A4 PDF, or a single
+ * chart into a PNG, entirely in the browser. Every page carries the brand
+ * header (logo, organization name and slogan on the brand colors) and a
+ * footer with the contact details and page numbers. jsPDF is loaded only
+ * when a PDF is requested; a logo that cannot be loaded is left out.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DashboardReportService {
+  constructor(private configService: ConfigService) {}
+
+  /**
+   * Generate the PDF and hand it to the browser; emits the file name once saved
+   */
+  exportPdf(report: DashboardReport): Observable<string> {
+    return defer(() => from(this.generatePdf(report)));
+  }
+
+  /**
+   * Save one chart as a PNG image titled with the chart title; returns the file name
+   */
+  exportChartPng(chart: ReportChart): string {
+    const fileName = datedFileName(`dashboard-${chart.id}`, 'png');
+    const image = renderChartImage(chart.config, CHART_WIDTH, CHART_HEIGHT, chart.title);
+    saveBlob(dataUrlToBlob(image), fileName);
+    return fileName;
+  }
+
+  private async generatePdf(report: DashboardReport): Promise<string> {
+    const brand = this.configService.config().brand;
+    const [{ jsPDF }, logo] = await Promise.all([import('jspdf'), this.loadLogo(brand.logo.title)]);
+    const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+    const layout = new PdfLayout(doc, brand);
+
+    layout.title(report.title, `Generated ${report.generatedAt.toLocaleString()}`);
+    layout.scope(report.scope);
+    layout.kpis(report.kpis);
+    report.charts.forEach(chart => layout.chart(chart));
+    report.tables.forEach(table => layout.table(table));
+
+    if (report.appendix.length) {
+      layout.newPage();
+      layout.heading('Appendix: Data Tables', 14);
+      report.appendix.forEach(table => layout.table(table));
+    }
+
+    layout.frameAllPages(logo);
+
+    const fileName = datedFileName('dashboard-report', 'pdf');
+    saveBlob(doc.output('blob'), fileName);
+    return fileName;
+  }
+
+  /**
+   * Load the brand logo as a PNG data URL with its aspect ratio; null when it
+   * cannot be fetched (offline, or served without CORS headers)
+   */
+  private loadLogo(url: string): Promise<{ image: string; ratio: number } | null> {
+    return new Promise(resolve => {
+      const image = new Image();
+      const timer = setTimeout(() => resolve(null), LOGO_TIMEOUT_MS);
+      image.crossOrigin = 'anonymous';
+      image.onload = () => {
+        clearTimeout(timer);
+        try {
+          const canvas = document.createElement('canvas');
+          canvas.width = image.naturalWidth;
+          canvas.height = image.naturalHeight;
+          canvas.getContext('2d')?.drawImage(image, 0, 0);
+          resolve({ image: canvas.toDataURL('image/png'), ratio: image.naturalWidth / image.naturalHeight });
+        } catch (error) {
+          // A canvas tainted by a cross-origin image cannot be read back
+          console.warn('[DashboardReportService] The logo cannot be embedded:', error);
+          resolve(null);
+        }
+      };
+      image.onerror = () => {
+        clearTimeout(timer);
+        console.warn(`[DashboardReportService] Could not load the logo from ${url}`);
+        resolve(null);
+      };
+      image.src = url;
+    });
+  }
+}
+
+/**
+ * Writes report sections top to bottom, starting a new page when a section
+ * does not fit on the current one
+ */
+class PdfLayout {
+  private y = CONTENT_TOP;
+
+  constructor(private doc: jsPDF, private brand: BrandConfig) {}
+
+  newPage(): void {
+    this.doc.addPage();
+    this.y = CONTENT_TOP;
+  }
+
+  title(text: string, subtitle: string): void {
+    this.doc.setTextColor(this.brand.colors.secondary);
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(20);
+    this.doc.text(text, MARGIN, this.y);
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.setFontSize(10);
+    this.doc.setTextColor('#666666');
+    this.doc.text(subtitle, MARGIN, this.y + 7);
+    this.y += 16;
+  }
+
+  heading(text: string, size = 12): void {
+    this.ensureSpace(size / 2 + 4);
+    this.doc.setTextColor(this.brand.colors.secondary);
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(size);
+    this.doc.text(text, MARGIN, this.y);
+    this.y += size / 2 + 2;
+  }
+
+  scope(entries: { label: string; value: string }[]): void {
+    this.heading('Scope');
+    this.doc.setFontSize(10);
+    entries.forEach(({ label, value }) => {
+      this.ensureSpace(6);
+      this.doc.setFont('helvetica', 'bold');
+      this.doc.setTextColor('#333333');
+      this.doc.text(`${label}:`, MARGIN, this.y);
+      this.doc.setFont('helvetica', 'normal');
+      this.doc.text(fitText(this.doc, value, CONTENT_WIDTH - 45), MARGIN + 45, this.y);
+      this.y += 6;
+    });
+    this.y += 4;
+  }
+
+  kpis(kpis: { label: string; value: string }[]): void {
+    if (!kpis.length) {
+      return;
+    }
+    this.heading('Key Figures');
+    const perRow = 4;
+    const gap = 4;
+    const width = (CONTENT_WIDTH - gap * (perRow - 1)) / perRow;
+    const height = 20;
+    kpis.forEach((kpi, index) => {
+      const column = index % perRow;
+      if (column === 0) {
+        this.ensureSpace(height + gap);
+      }
+      const x = MARGIN + column * (width + gap);
+      this.doc.setFillColor('#f5f5f5');
+      this.doc.rect(x, this.y, width, height, 'F');
+      this.doc.setFillColor(this.brand.colors.primary);
+      this.doc.rect(x, this.y, width, 1.5, 'F');
+      this.doc.setTextColor(this.brand.colors.secondary);
+      this.doc.setFont('helvetica', 'bold');
+      this.doc.setFontSize(16);
+      this.doc.text(kpi.value, x + 4, this.y + 10);
+      this.doc.setTextColor('#666666');
+      this.doc.setFont('helvetica', 'normal');
+      this.doc.setFontSize(8);
+      this.doc.text(fitText(this.doc, kpi.label, width - 8), x + 4, this.y + 16);
+      if (column === perRow - 1 || index === kpis.length - 1) {
+        this.y += height + gap;
+      }
+    });
+    this.y += 4;
+  }
+
+  chart(chart: ReportChart): void {
+    const height = (CONTENT_WIDTH * CHART_HEIGHT) / CHART_WIDTH;
+    this.ensureSpace(height + 16);
+    this.heading(chart.title);
+    this.doc.setTextColor('#666666');
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.setFontSize(9);
+    this.doc.text(fitText(this.doc, chart.subtitle, CONTENT_WIDTH), MARGIN, this.y);
+    this.y += 3;
+    const image = renderChartImage(chart.config, CHART_WIDTH, CHART_HEIGHT);
+    this.doc.addImage(image, 'PNG', MARGIN, this.y, CONTENT_WIDTH, height);
+    this.y += height + 8;
+  }
+
+  table(table: ReportTable): void {
+    const widths = columnWidths(table.columns.length);
+    this.ensureSpace(10 + TABLE_ROW_HEIGHT * 2);
+    this.heading(table.title);
+    this.tableHeader(table.columns, widths);
+
+    table.rows.forEach((row, rowIndex) => {
+      if (this.y + TABLE_ROW_HEIGHT > CONTENT_BOTTOM) {
+        this.newPage();
+        this.tableHeader(table.columns, widths);
+      }
+      let x = MARGIN;
+      row.forEach((cell, column) => {
+        const fill = table.fills?.[rowIndex]?.[column] ?? (rowIndex % 2 ? '#f5f5f5' : null);
+        if (fill) {
+          this.doc.setFillColor(fill);
+          this.doc.rect(x, this.y, widths[column], TABLE_ROW_HEIGHT, 'F');
+        }
+        this.doc.setTextColor(fill && isDark(fill) ? '#ffffff' : '#333333');
+        this.doc.setFont('helvetica', column === 0 ? 'bold' : 'normal');
+        this.doc.setFontSize(8);
+        this.doc.text(fitText(this.doc, String(cell), widths[column] - 3), x + 1.5, this.y + 4.2);
+        x += widths[column];
+      });
+      this.y += TABLE_ROW_HEIGHT;
+    });
+    this.y += 8;
+  }
+
+  /**
+   * Draw the brand header and the footer on every page
+   */
+  frameAllPages(logo: { image: string; ratio: number } | null): void {
+    const pages = this.doc.getNumberOfPages();
+    for (let page = 1; page <= pages; page++) {
+      this.doc.setPage(page);
+
+      this.doc.setFillColor(this.brand.colors.secondary);
+      this.doc.rect(0, 0, PAGE_WIDTH, HEADER_HEIGHT, 'F');
+      this.doc.setFillColor(this.brand.colors.primary);
+      this.doc.rect(0, HEADER_HEIGHT, PAGE_WIDTH, 1.5, 'F');
+
+      let textX = MARGIN;
+      if (logo) {
+        const logoHeight = 14;
+        const logoWidth = Math.min(logoHeight * logo.ratio, 60);
+        this.doc.addImage(logo.image, 'PNG', MARGIN, (HEADER_HEIGHT - logoHeight) / 2, logoWidth, logoHeight);
+        textX += logoWidth + 5;
+      }
+      this.doc.setTextColor('#ffffff');
+      this.doc.setFont('helvetica', 'bold');
+      this.doc.setFontSize(14);
+      this.doc.text(this.brand.organizationName, textX, 11);
+      this.doc.setTextColor(this.brand.colors.primary);
+      this.doc.setFont('helvetica', 'italic');
+      this.doc.setFontSize(9);
+      this.doc.text(this.brand.slogan, textX, 17);
+
+      this.doc.setDrawColor('#e0e0e0');
+      this.doc.setLineWidth(0.3);
+      this.doc.line(MARGIN, PAGE_HEIGHT - 13, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 13);
+      this.doc.setTextColor('#666666');
+      this.doc.setFont('helvetica', 'normal');
+      this.doc.setFontSize(8);
+      this.doc.text(`${this.brand.website}  ·  ${this.brand.email}  ·  ${this.brand.mobile}`, MARGIN, PAGE_HEIGHT - 8);
+      this.doc.text(`Page ${page} of ${pages}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 8, { align: 'right' });
+    }
+  }
+
+  private tableHeader(columns: string[], widths: number[]): void {
+    this.doc.setFillColor(this.brand.colors.secondary);
+    this.doc.rect(MARGIN, this.y, CONTENT_WIDTH, TABLE_ROW_HEIGHT, 'F');
+    this.doc.setTextColor('#ffffff');
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(8);
+    let x = MARGIN;
+    columns.forEach((column, index) => {
+      this.doc.text(fitText(this.doc, column, widths[index] - 3), x + 1.5, this.y + 4.2);
+      x += widths[index];
+    });
+    this.y += TABLE_ROW_HEIGHT;
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y + height > CONTENT_BOTTOM) {
+      this.newPage();
+    }
+  }
+}
+
+/**
+ * Column widths filling the content width; the first column is twice as wide
+ */
+function columnWidths(count: number): number[] {
+  const unit = CONTENT_WIDTH / (count + 1);
+  return Array.from({ length: count }, (_, index) => (index === 0 ? unit * 2 : unit));
+}
+
+/**
+ * Text shortened with "..." to fit a width in the current font
+ */
+function fitText(doc: jsPDF, text: string, width: number): string {
+  if (doc.getTextWidth(text) <= width) {
+    return text;
+  }
+  let fitted = text;
+  while (fitted.length > 1 && doc.getTextWidth(`${fitted}...`) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+}
+
+/**
+ * Whether white text reads better than dark text on a #rrggbb color
+ */
+function isDark(hex: string): boolean {
+  const [r, g, b] = [1, 3, 5].map(start => parseInt(hex.slice(start, start + 2), 16));
+  return 0.299 * r + 0.587 * g + 0.114 * b < 140;
+}
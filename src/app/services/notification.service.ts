@@ -1,9 +1,18 @@
 import { Injectable } from '@angular/core';
 import { MatSnackBar, MatSnackBarConfig } from '@angular/material/snack-bar';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+
+/**
+ * How an action notification ended: the user clicked its action, or it
+ * closed on timeout or because another notification replaced it
+ */
+export type NotificationChoice = 'action' | 'dismissed';
 
 /**
  * Service for displaying user notifications using Material Snackbar
- * Provides methods for showing success, error, and info messages
+ * Provides methods for showing success, error, and info messages,
+ * and messages with an action button such as "Undo"
  */
 @Injectable({
   providedIn: 'root'
@@ -60,4 +69,19 @@ export class NotificationService {
       panelClass: ['warning-snackbar']
     });
   }
+
+  /**
+   * Show a message with an action button
+   * Emits once when the snackbar closes, telling whether the action was clicked
+   */
+  showAction(message: string, action: string, duration?: number): Observable<NotificationChoice> {
+    return this.snackBar
+      .open(message, action, {
+        ...this.defaultConfig,
+        duration: duration || 5000,
+        panelClass: ['action-snackbar']
+      })
+      .afterDismissed()
+      .pipe(map(({ dismissedByAction }) => (dismissedByAction ? 'action' : 'dismissed')));
+  }
 }
@@ -0,0 +1,235 @@
+import { Injectable } from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { map, switchMap } from 'rxjs/operators';
+
+import { Participant } from '../models/participant.model';
+import {
+  DUPLICATE_MATCH_WEIGHTS,
+  DuplicateMatch,
+  DuplicatePair,
+  NAME_SIMILARITY_THRESHOLD,
+  ParticipantMerge
+} from '../models/participant-duplicate.model';
+import {
+  emailLocalPart,
+  normalizeEmail,
+  normalizeGithub,
+  normalizeLinkedin,
+  normalizeName,
+  normalizePhone
+} from '../utils/participant-identity.util';
+import { bagDistance, nameSimilarity } from '../utils/text-similarity.util';
+import { ParticipantsService } from './participants.service';
+
+/**
+ * Email local parts shorter than this are too generic ("info", "me") to match on
+ */
+const MIN_EMAIL_LOCAL_PART = 4;
+
+/**
+ * Names sharing a common word are compared in smaller blocks beyond this size
+ */
+const MAX_NAME_BLOCK = 50;
+
+/**
+ * ParticipantDuplicatesService
+ *
+ * Finds participants who probably registered twice, using normalized phone
+ * numbers, email local parts, GitHub ids, LinkedIn profiles and fuzzy name
+ * similarity, and merges a confirmed pair into one record.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ParticipantDuplicatesService {
+  constructor(private participantsService: ParticipantsService) {}
+
+  /**
+   * Fetch every participant and return likely duplicate pairs, best match first
+   */
+  scan(): Observable<DuplicatePair[]> {
+    return this.participantsService.listAll().pipe(
+      map(participants => this.findDuplicates(participants))
+    );
+  }
+
+  /**
+   * Find likely duplicate pairs among the given participants, best match first
+   */
+  findDuplicates(participants: Participant[]): DuplicatePair[] {
+    const pairs = new Map<string, DuplicatePair>();
+
+    const addMatch = (a: Participant, b: Participant, match: DuplicateMatch) => {
+      const [first, second] = this.byRegistration(a, b);
+      const key = `${first.id}-${second.id}`;
+      const pair = pairs.get(key) ?? { key, first, second, matches: [], score: 0 };
+      if (!pair.matches.some(existing => existing.type === match.type)) {
+        pair.matches.push(match);
+      }
+      pairs.set(key, pair);
+    };
+
+    this.matchByKey(participants, p => normalizePhone(p.whatsapp), (a, b) =>
+      addMatch(a, b, { type: 'whatsapp', detail: 'Same WhatsApp number' }));
+    this.matchByKey(participants, p => this.emailKey(p), (a, b) =>
+      addMatch(a, b, { type: 'email', detail: `Same email name "${this.emailKey(a)}"` }));
+    this.matchByKey(participants, p => normalizeGithub(p.github_id), (a, b) =>
+      addMatch(a, b, { type: 'github_id', detail: 'Same GitHub id' }));
+    this.matchByKey(participants, p => normalizeLinkedin(p.linkedin), (a, b) =>
+      addMatch(a, b, { type: 'linkedin', detail: 'Same LinkedIn profile' }));
+    this.matchByName(participants, (a, b, score) =>
+      addMatch(a, b, { type: 'name', detail: `Names ${Math.round(score * 100)}% similar` }));
+
+    return [...pairs.values()]
+      .map(pair => ({ ...pair, score: this.score(pair) }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Save the merged values on the survivor and delete the duplicate.
+   * An email taken over from the duplicate is only applied after the
+   * duplicate is gone, so the server's unique email rule is not violated.
+   */
+  merge({ survivor, duplicate, changes }: ParticipantMerge): Observable<Participant> {
+    const { email, ...otherChanges } = changes;
+    const takesDuplicateEmail = email !== undefined
+      && normalizeEmail(email) === normalizeEmail(duplicate.email)
+      && normalizeEmail(email) !== normalizeEmail(survivor.email);
+
+    return this.participantsService.update(survivor.id, takesDuplicateEmail ? otherChanges : changes).pipe(
+      switchMap(updated => this.participantsService.remove(duplicate.id).pipe(map(() => updated))),
+      switchMap(updated => takesDuplicateEmail
+        ? this.participantsService.update(survivor.id, { email })
+        : of(updated))
+    );
+  }
+
+  /**
+   * Group participants by a normalized key and report every pair sharing one
+   */
+  private matchByKey(
+    participants: Participant[],
+    keyOf: (participant: Participant) => string,
+    onMatch: (a: Participant, b: Participant) => void
+  ): void {
+    const groups = new Map<string, Participant[]>();
+    participants.forEach(participant => {
+      const key = keyOf(participant);
+      if (key) {
+        groups.set(key, [...(groups.get(key) ?? []), participant]);
+      }
+    });
+
+    groups.forEach(group => {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          onMatch(group[i], group[j]);
+        }
+      }
+    });
+  }
+
+  /**
+   * Compare names that share a block key (see nameBlocks) instead of every
+   * pair, so a scan of thousands of participants stays fast. Identical names
+   * are grouped first and compared once; names whose letters alone differ too
+   * much to reach the threshold are skipped before computing the edit distance.
+   */
+  private matchByName(
+    participants: Participant[],
+    onMatch: (a: Participant, b: Participant, score: number) => void
+  ): void {
+    const byName = new Map<string, Participant[]>();
+    participants.forEach(participant => {
+      const name = normalizeName(participant.name);
+      if (name.length >= 2) {
+        byName.set(name, [...(byName.get(name) ?? []), participant]);
+      }
+    });
+
+    const reportAll = (first: Participant[], second: Participant[] | null, score: number) =>
+      first.forEach((a, i) => (second ?? first.slice(i + 1)).forEach(b => onMatch(a, b, score)));
+
+    byName.forEach(group => reportAll(group, null, 1));
+
+    const names = [...byName.keys()];
+    // A pair sharing several keys is compared once
+    const compared = new Set<number>();
+    this.nameBlocks(names).forEach(block => {
+      for (let i = 0; i < block.length; i++) {
+        for (let j = i + 1; j < block.length; j++) {
+          const pairId = block[i] * names.length + block[j];
+          if (compared.has(pairId)) {
+            continue;
+          }
+          compared.add(pairId);
+          const [a, b] = [names[block[i]], names[block[j]]];
+          const longest = Math.max(a.length, b.length);
+          if (bagDistance(a, b) > longest * (1 - NAME_SIMILARITY_THRESHOLD)) {
+            continue;
+          }
+          const score = nameSimilarity(a, b);
+          if (score >= NAME_SIMILARITY_THRESHOLD) {
+            reportAll(byName.get(a)!, byName.get(b)!, score);
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Group distinct normalized names by the first and the last three letters
+   * of each word; names similar enough to match share a word start or ending,
+   * even with a typo or the words in another order. Common words ("kumar")
+   * would make huge blocks, so past MAX_NAME_BLOCK they are split further by
+   * the first two letters of the name's other words.
+   */
+  private nameBlocks(names: string[]): number[][] {
+    const wordKeys = names.map(name => {
+      const words = name.split(' ').filter(word => word.length >= 2);
+      return words.length
+        ? words.map(word => ({ word, keys: [`${word.slice(0, 3)}*`, `*${word.slice(-3)}`] }))
+        : [{ word: name, keys: [name] }]; // Initials only, e.g. "a b"
+    });
+
+    const frequency = new Map<string, number>();
+    wordKeys.forEach(words => new Set(words.flatMap(({ keys }) => keys))
+      .forEach(key => frequency.set(key, (frequency.get(key) ?? 0) + 1)));
+
+    const blocks = new Map<string, Set<number>>();
+    const addToBlock = (key: string, index: number) =>
+      blocks.set(key, (blocks.get(key) ?? new Set()).add(index));
+
+    wordKeys.forEach((words, index) => words.forEach(({ word, keys }) => keys.forEach(key => {
+      const others = words.filter(other => other.word !== word);
+      if ((frequency.get(key) ?? 0) <= MAX_NAME_BLOCK || !others.length) {
+        addToBlock(key, index);
+      } else {
+        others.forEach(other => addToBlock(`${key}|${other.word.slice(0, 2)}`, index));
+      }
+    })));
+
+    return [...blocks.values()].map(block => [...block]);
+  }
+
+  private emailKey(participant: Participant): string {
+    const local = emailLocalPart(participant.email);
+    return local.length >= MIN_EMAIL_LOCAL_PART ? local : '';
+  }
+
+  /**
+   * Combined confidence of a pair's signals, capped at 1
+   */
+  private score(pair: DuplicatePair): number {
+    const total = pair.matches.reduce((sum, match) => sum + DUPLICATE_MATCH_WEIGHTS[match.type], 0);
+    return Math.min(1, total);
+  }
+
+  /**
+   * Order a pair so the earlier registration comes first
+   */
+  private byRegistration(a: Participant, b: Participant): [Participant, Participant] {
+    const byDate = a.created_at.localeCompare(b.created_at);
+    return byDate < 0 || (byDate === 0 && a.id < b.id) ? [a, b] : [b, a];
+  }
+}
@@ -0,0 +1,124 @@
+import { Injectable } from '@angular/core';
+import { Observable, defer, from } from 'rxjs';
+
+import { Participant } from '../models/participant.model';
+import {
+  ExportColumn,
+  ExportDateFormat,
+  ExportField,
+  ExportOptions,
+  exportColumns
+} from '../models/participant-export.model';
+import { isSkillField, skillScore } from '../models/skill.model';
+import { toCsv } from '../utils/csv.util';
+import { datedFileName, saveBlob } from '../utils/download.util';
+import { SkillCatalogService } from './skill-catalog.service';
+
+/**
+ * Rows converted between yields to the browser
+ */
+const CHUNK_SIZE = 500;
+
+const DATE_FIELDS: ExportField[] = ['created_at', 'updated_at'];
+
+/**
+ * ParticipantExportService
+ *
+ * Writes participants to CSV, XLSX or JSON entirely in the browser. Rows are
+ * converted in chunks that yield back to the event loop, so large exports
+ * keep the table responsive. SheetJS is loaded only when an XLSX file is
+ * requested.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ParticipantExportService {
+  constructor(private skillCatalog: SkillCatalogService) {}
+
+  /**
+   * Generate the file and hand it to the browser; emits the file name once saved
+   */
+  export(participants: Participant[], options: ExportOptions): Observable<string> {
+    return defer(() => from(this.generate(participants, options)));
+  }
+
+  private async generate(participants: Participant[], options: ExportOptions): Promise<string> {
+    // Columns in the order the user chose
+    const columns = exportColumns(this.skillCatalog.skills());
+    const fields = options.fields
+      .map(field => columns.find(column => column.field === field))
+      .filter((column): column is ExportColumn => column !== undefined);
+    const rows = await this.toRows(participants, fields.map(column => column.field), options.dateFormat);
+    const fileName = datedFileName('participants', options.format);
+
+    switch (options.format) {
+      case 'csv': {
+        const csv = toCsv([fields.map(column => column.label), ...rows]);
+        // The byte order mark makes Excel open the file as UTF-8
+        saveBlob(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }), fileName);
+        break;
+      }
+      case 'json': {
+        const records = rows.map(row =>
+          Object.fromEntries(fields.map((column, index) => [column.field, row[index]]))
+        );
+        saveBlob(new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' }), fileName);
+        break;
+      }
+      case 'xlsx': {
+        const XLSX = await import('xlsx');
+        const sheet = XLSX.utils.aoa_to_sheet([fields.map(column => column.label), ...rows]);
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, sheet, 'Participants');
+        const data: ArrayBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+        saveBlob(
+          new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+          fileName
+        );
+        break;
+      }
+    }
+
+    return fileName;
+  }
+
+  /**
+   * Convert participants to rows of cell values, yielding between chunks
+   */
+  private async toRows(
+    participants: Participant[],
+    fields: ExportField[],
+    dateFormat: ExportDateFormat
+  ): Promise<(string | number)[][]> {
+    const rows: (string | number)[][] = [];
+    for (let start = 0; start < participants.length; start += CHUNK_SIZE) {
+      participants.slice(start, start + CHUNK_SIZE).forEach(participant => {
+        rows.push(fields.map(field => this.formatValue(participant, field, dateFormat)));
+      });
+      await new Promise(resolve => setTimeout(resolve));
+    }
+    return rows;
+  }
+
+  private formatValue(participant: Participant, field: ExportField, dateFormat: ExportDateFormat): string | number {
+    if (isSkillField(field)) {
+      return skillScore(participant, field);
+    }
+    const value = participant[field];
+    if (DATE_FIELDS.includes(field)) {
+      return this.formatDate(value as string, dateFormat);
+    }
+    return value ?? '';
+  }
+
+  private formatDate(value: string, dateFormat: ExportDateFormat): string {
+    if (!value) {
+      return '';
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      return value;
+    }
+    return dateFormat === 'iso' ? date.toISOString() : date.toLocaleString();
+  }
+}
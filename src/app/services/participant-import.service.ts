@@ -0,0 +1,234 @@
+import { Injectable } from '@angular/core';
+import { Observable, defer, from } from 'rxjs';
+import { map } from 'rxjs/operators';
+
+import {
+  CreateParticipantDto,
+  Participant,
+  ParticipantDetailField,
+  ParticipantField,
+  participantFields
+} from '../models/participant.model';
+import { Skill } from '../models/skill.model';
+import {
+  ImportColumnMapping,
+  ImportDuplicate,
+  ImportRow,
+  ImportSheet
+} from '../models/participant-import.model';
+import { validateParticipant } from '../shared/participant-validation';
+import { parseCsv } from '../utils/csv.util';
+import { normalizeEmail, normalizePhone } from '../utils/participant-identity.util';
+import { SkillCatalogService } from './skill-catalog.service';
+
+/**
+ * Header spellings recognised for each field, compared after lower-casing
+ * and stripping everything except letters and digits; skill headers are
+ * derived from the skill catalog
+ */
+const HEADER_ALIASES: Record<ParticipantDetailField, string[]> = {
+  name: ['name', 'fullname', 'participant', 'participantname', 'studentname', 'candidatename'],
+  email: ['email', 'emailaddress', 'emailid', 'mail', 'mailid'],
+  whatsapp: ['whatsapp', 'whatsappnumber', 'whatsappno', 'phone', 'phonenumber', 'mobile', 'mobilenumber', 'contact', 'contactnumber'],
+  linkedin: ['linkedin', 'linkedinurl', 'linkedinprofile', 'linkedinid'],
+  github_id: ['github', 'githubid', 'githubusername', 'githubprofile', 'githuburl', 'githubhandle'],
+  outcome: ['outcome', 'notes', 'remarks', 'result', 'status']
+};
+
+/**
+ * ParticipantImportService
+ *
+ * Reads registration spreadsheets (CSV or XLSX), maps their columns onto
+ * participant fields and validates every row with the same rules as the
+ * participant form. Rows that repeat an existing participant's email or
+ * WhatsApp number (or an earlier row of the same file) are flagged as
+ * duplicates. Scores can be imported for every active skill of the catalog.
+ *
+ * The SheetJS parser is loaded on demand so it stays out of the main bundle.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ParticipantImportService {
+  constructor(private skillCatalog: SkillCatalogService) {}
+
+  /**
+   * Fields a sheet column can be mapped to, in form order
+   */
+  importFields(): ParticipantField[] {
+    return participantFields(this.skillCatalog.activeSkills().map(skill => skill.field));
+  }
+
+  /**
+   * Read the first sheet of a CSV or XLSX file
+   */
+  readFile(file: File): Observable<ImportSheet> {
+    const isCsv = /\.(csv|txt)$/i.test(file.name) || file.type === 'text/csv';
+
+    const rows$ = isCsv
+      ? defer(() => from(file.text())).pipe(map(text => parseCsv(text)))
+      : defer(() => from(this.readWorkbook(file)));
+
+    return rows$.pipe(
+      map(([headers = [], ...rows]) => ({
+        fileName: file.name,
+        headers: headers.map(header => header.trim()),
+        rows
+      }))
+    );
+  }
+
+  /**
+   * Guess which column holds each field from the header row
+   */
+  detectMapping(headers: string[]): ImportColumnMapping {
+    const normalized = headers.map(header => this.normalizeHeader(header));
+    const used = new Set<number>();
+    const mapping = {} as ImportColumnMapping;
+
+    const aliases = this.headerAliases();
+    const fields = this.importFields();
+    const assign = (field: ParticipantField, matches: (header: string) => boolean) => {
+      const index = normalized.findIndex((header, i) => !used.has(i) && matches(header));
+      if (index !== -1) {
+        mapping[field] = index;
+        used.add(index);
+      }
+    };
+
+    fields.forEach(field => (mapping[field] = null));
+    // Exact header matches win over partial ones for every field
+    fields.forEach(field => assign(field, header => aliases[field].includes(header)));
+    // Then accept headers such as "Your WhatsApp number (with country code)"
+    fields
+      .filter(field => mapping[field] === null)
+      .forEach(field => assign(field, header =>
+        aliases[field].some(alias => alias.length > 3 && header.includes(alias))
+      ));
+
+    return mapping;
+  }
+
+  /**
+   * Build, validate and dedupe the participant for every sheet row
+   */
+  buildPreview(sheet: ImportSheet, mapping: ImportColumnMapping, existing: Participant[]): ImportRow[] {
+    const knownEmails = new Map(existing.map(p => [normalizeEmail(p.email), p.name]));
+    const knownPhones = new Map(
+      existing
+        .filter(p => normalizePhone(p.whatsapp))
+        .map(p => [normalizePhone(p.whatsapp), p.name])
+    );
+
+    const skillFields = this.skillCatalog.activeSkills().map(skill => skill.field);
+
+    return sheet.rows.map((cells, index) => {
+      const rowNumber = index + 2;
+      const dto = this.toDto(cells, mapping, this.skillCatalog.activeSkills());
+      const errors = validateParticipant(dto, skillFields);
+      // min/max validators let non-numeric input through, so check scores explicitly
+      skillFields
+        .filter(field => !Number.isInteger(dto[field]))
+        .forEach(field => (errors[field] = 'Skill level must be a whole number between 0 and 10'));
+      const duplicate = this.findDuplicate(dto, knownEmails, knownPhones);
+
+      // Later rows repeating this one are flagged against it
+      const email = normalizeEmail(dto.email);
+      const phone = normalizePhone(dto.whatsapp);
+      if (email && !knownEmails.has(email)) {
+        knownEmails.set(email, `row ${rowNumber}`);
+      }
+      if (phone && !knownPhones.has(phone)) {
+        knownPhones.set(phone, `row ${rowNumber}`);
+      }
+
+      return {
+        rowNumber,
+        dto,
+        errors,
+        duplicate,
+        status: Object.keys(errors).length ? 'invalid' : duplicate ? 'duplicate' : 'valid'
+      };
+    });
+  }
+
+  /**
+   * Lazily load SheetJS and convert the first worksheet to rows of text
+   */
+  private async readWorkbook(file: File): Promise<string[][]> {
+    const XLSX = await import('xlsx');
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) {
+      return [];
+    }
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '' });
+    return rows
+      .map(row => row.map(cell => String(cell ?? '')))
+      .filter(row => row.some(cell => cell.trim() !== ''));
+  }
+
+  /**
+   * Build a participant from the mapped cells of one row
+   */
+  private toDto(cells: string[], mapping: ImportColumnMapping, skills: Skill[]): CreateParticipantDto {
+    const cell = (field: ParticipantField): string => {
+      const index = mapping[field];
+      return index === null || index === undefined ? '' : (cells[index] ?? '').trim();
+    };
+
+    const dto: CreateParticipantDto = {
+      name: cell('name'),
+      email: cell('email').toLowerCase(),
+      whatsapp: cell('whatsapp'),
+      linkedin: cell('linkedin'),
+      github_id: cell('github_id').replace(/^(https?:\/\/)?(www\.)?github\.com\//i, '').replace(/\/$/, ''),
+      outcome: cell('outcome')
+    };
+
+    skills.forEach(({ field }) => {
+      const value = cell(field);
+      // Non-numeric scores are kept as NaN so validation reports them
+      dto[field] = value === '' ? 0 : Number(value);
+    });
+
+    return dto;
+  }
+
+  private findDuplicate(
+    dto: CreateParticipantDto,
+    knownEmails: Map<string, string>,
+    knownPhones: Map<string, string>
+  ): ImportDuplicate | null {
+    const emailMatch = dto.email ? knownEmails.get(normalizeEmail(dto.email)) : undefined;
+    if (emailMatch) {
+      return { field: 'email', matches: emailMatch };
+    }
+    const phone = normalizePhone(dto.whatsapp);
+    const phoneMatch = phone ? knownPhones.get(phone) : undefined;
+    if (phoneMatch) {
+      return { field: 'whatsapp', matches: phoneMatch };
+    }
+    return null;
+  }
+
+  /**
+   * Recognised headers per import field, including the active skills'
+   * key, label and configured aliases
+   */
+  private headerAliases(): Record<ParticipantField, string[]> {
+    const aliases: Record<ParticipantField, string[]> = { ...HEADER_ALIASES };
+    this.skillCatalog.activeSkills().forEach(skill => {
+      const names = new Set([skill.key, skill.label].map(name => this.normalizeHeader(name)));
+      aliases[skill.field] = [
+        ...[...names].flatMap(name => [name, `${name}skill`, `${name}level`]),
+        ...skill.aliases.map(alias => this.normalizeHeader(alias))
+      ];
+    });
+    return aliases;
+  }
+
+  private normalizeHeader(header: string): string {
+    return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+}
@@ -1,34 +1,62 @@
-import { Injectable, signal } from '@angular/core';
-import { HttpClient, HttpErrorResponse } from '@angular/common/http';
-import { Observable, throwError, BehaviorSubject } from 'rxjs';
-import { catchError, tap, map } from 'rxjs/operators';
+import { Injectable, Signal } from '@angular/core';
+import { HttpClient, HttpErrorResponse, HttpParams } from '@angular/common/http';
+import { Observable, throwError, defer, from, of } from 'rxjs';
+import { catchError, tap, map, mergeMap, last, scan, switchMap, take } from 'rxjs/operators';
 import { 
   Participant, 
   CreateParticipantDto, 
   UpdateParticipantDto, 
-  ApiResponse 
+  ParticipantQuery,
+  PaginatedResponse,
+  PaginationMeta,
+  BatchUpdate
 } from '../models/participant.model';
-import { environment } from '../../environments/environment';
+import { BatchProgress, BatchResult, ParticipantOperation, RequestState } from '../models/request-state.model';
+import { ApiError } from '../models/api-error.model';
+import { formatCondition, formatSort } from '../utils/participant-query.util';
+import { CohortsService } from './cohorts.service';
+import { ConfigService } from './config.service';
+import { NotificationService } from './notification.service';
+import { ParticipantsStore } from './participants.store';
+
+/**
+ * Participant removed from the store, with its list position (-1 when it
+ * was not on the current page) for restoring it
+ */
+interface RemovedParticipant {
+  id: number;
+  index: number;
+  participant: Participant | undefined;
+}
 
 /**
  * ParticipantsService
  * 
  * Core service for managing participant data with Laravel REST API integration.
- * Uses Angular Signals for reactive state management and provides comprehensive
- * CRUD operations with error handling and loading states.
+ * Keeps its state in the normalized ParticipantsStore and provides comprehensive
+ * CRUD operations with error handling and per-request status tracking.
  * 
  * Features:
  * - Signal-based state management for reactive UI updates
- * - HTTP error handling with user-friendly messages
- * - Loading state management for UI feedback
+ * - HTTP errors rethrown as typed ApiErrors with per-field validation messages
+ * - Per-operation and per-participant request status
  * - Real-time data synchronization with API
+ * - Optimistic create/update/delete with automatic rollback on failure
+ * - Bulk create/update/delete reporting per-item success and failure
+ * - List and export requests scoped to the cohort selected in the app shell
  * - TypeScript interfaces for type safety
  * 
  * State Signals:
- * - participants: Current participant list
- * - loading: Loading state for operations
- * - error: Error messages for user feedback
- * - selectedParticipant: Currently selected participant
+ * - participants: Current participant list (current page when paginated)
+ * - pagination: Total count and page metadata of the last list request
+ * - listQuery: Query of the current list page, null for the full collection
+ * - listState: Status of the last list request
+ * - pendingIds: Ids of rows with an unconfirmed optimistic change
+ * 
+ * Selectors:
+ * - operationState(op): Status of list/get/create/update/delete
+ * - entityState(id, op): Status of an operation on one participant
+ * - selectParticipant(id): A participant from the entity map
  * 
  * @author HERE AND NOW AI Development Team
  * @version 1.0.0
@@ -38,198 +66,512 @@ import { environment } from '../../environments/environment';
   providedIn: 'root'
 })
 export class ParticipantsService {
-  private readonly apiUrl = `${environment.apiBaseUrl}/participants`;
-  
-  // Signals for reactive state management
-  private readonly participantsSignal = signal<Participant[]>([]);
-  private readonly loadingSignal = signal<boolean>(false);
-  private readonly errorSignal = signal<string | null>(null);
+  // Number of requests a bulk action keeps in flight at once
+  private readonly batchConcurrency = 4;
+
+  // Temporary ids for optimistic creates count down from -1
+  private nextTempId = -1;
   
   // Public readonly signals
-  public readonly participants = this.participantsSignal.asReadonly();
-  public readonly loading = this.loadingSignal.asReadonly();
-  public readonly error = this.errorSignal.asReadonly();
+  public readonly participants: Signal<Participant[]>;
+  public readonly pagination: Signal<PaginationMeta>;
+  public readonly listQuery: Signal<ParticipantQuery | null>;
+  public readonly pendingIds: Signal<ReadonlySet<number>>;
+  public readonly listState: Signal<RequestState>;
 
-  constructor(private http: HttpClient) {}
+  constructor(
+    private http: HttpClient,
+    private notificationService: NotificationService,
+    private store: ParticipantsStore,
+    private configService: ConfigService,
+    private cohortsService: CohortsService
+  ) {
+    this.participants = store.participants;
+    this.pagination = store.pagination;
+    this.listQuery = store.listQuery;
+    this.pendingIds = store.pendingIds;
+    this.listState = store.selectOperation('list');
+  }
 
   /**
-   * Fetch all participants from the API
-   * Updates the participants signal with the response
+   * Fetch participants from the API
+   * Without a query the full collection is requested; with a query a single
+   * page is requested and the paginated envelope is unwrapped. Both are
+   * limited to the selected cohort.
+   * Replaces the current list in the store with the response
    */
-  list(): Observable<Participant[]> {
-    this.setLoading(true);
-    this.setError(null);
-    
-    return this.http.get<Participant[]>(this.apiUrl).pipe(
-      tap(participants => {
-        this.participantsSignal.set(participants);
-        this.setLoading(false);
-      }),
-      catchError(error => {
-        this.setLoading(false);
-        this.setError('Failed to load participants');
-        return this.handleError(error);
-      })
-    );
+  list(query?: ParticipantQuery): Observable<PaginatedResponse<Participant>> {
+    return defer(() => {
+      this.store.setOperationState('list', 'pending');
+      const params = this.scoped(query ? this.buildQueryParams(query) : new HttpParams());
+
+      return this.http
+        .get<Participant[] | PaginatedResponse<Participant>>(this.apiUrl, { params })
+        .pipe(
+          map(response => this.toPaginatedResponse(response)),
+          tap(page => {
+            this.store.setList(page.data, {
+              total: page.total,
+              currentPage: page.current_page,
+              lastPage: page.last_page,
+              perPage: page.per_page
+            }, query ?? null);
+            this.store.setOperationState('list', 'success');
+          }),
+          catchError(error => {
+            this.store.setOperationState('list', 'error', 'Failed to load participants');
+            return this.handleError(error);
+          })
+        );
+    });
   }
 
   /**
    * Get a single participant by ID
+   * The result is stored in the entity map without touching the list
    */
   get(id: number): Observable<Participant> {
-    this.setLoading(true);
-    this.setError(null);
-    
-    return this.http.get<Participant>(`${this.apiUrl}/${id}`).pipe(
-      tap(() => this.setLoading(false)),
-      catchError(error => {
-        this.setLoading(false);
-        this.setError('Failed to load participant');
-        return this.handleError(error);
-      })
-    );
+    return defer(() => {
+      this.track(id, 'get', 'pending');
+
+      return this.http.get<Participant>(`${this.apiUrl}/${id}`).pipe(
+        tap(participant => {
+          this.store.upsert(participant);
+          this.track(id, 'get', 'success');
+        }),
+        catchError(error => {
+          this.track(id, 'get', 'error', 'Failed to load participant');
+          return this.handleError(error);
+        })
+      );
+    });
   }
 
   /**
    * Create a new participant
+   * The row is added immediately under a temporary negative id and swapped
+   * for the server record once the request succeeds
    */
   create(dto: CreateParticipantDto): Observable<Participant> {
-    this.setLoading(true);
-    this.setError(null);
-    
-    return this.http.post<Participant>(this.apiUrl, dto).pipe(
-      tap(newParticipant => {
-        // Add to local state
-        const currentParticipants = this.participantsSignal();
-        this.participantsSignal.set([...currentParticipants, newParticipant]);
-        this.setLoading(false);
-      }),
-      catchError(error => {
-        this.setLoading(false);
-        this.setError('Failed to create participant');
-        return this.handleError(error);
-      })
-    );
+    return this.createOne(dto, true);
   }
 
   /**
    * Update an existing participant
+   * Changes are applied locally right away and reverted if the request fails
    */
   update(id: number, dto: UpdateParticipantDto): Observable<Participant> {
-    this.setLoading(true);
-    this.setError(null);
-    
-    return this.http.put<Participant>(`${this.apiUrl}/${id}`, dto).pipe(
-      tap(updatedParticipant => {
-        // Update local state
-        const currentParticipants = this.participantsSignal();
-        const index = currentParticipants.findIndex(p => p.id === id);
-        if (index !== -1) {
-          const updated = [...currentParticipants];
-          updated[index] = updatedParticipant;
-          this.participantsSignal.set(updated);
-        }
-        this.setLoading(false);
-      }),
-      catchError(error => {
-        this.setLoading(false);
-        this.setError('Failed to update participant');
-        return this.handleError(error);
-      })
-    );
+    return this.updateOne(id, dto, true);
   }
 
   /**
    * Delete a participant by ID
+   * The row disappears immediately and is put back in place if the request fails
    */
   remove(id: number): Observable<void> {
-    this.setLoading(true);
-    this.setError(null);
-    
+    return this.removeOne(id, true);
+  }
+
+  /**
+   * Delete participants once an undo window has passed
+   * The rows disappear immediately; nothing is sent until `commit` emits.
+   * `true` sends the deletes and emits their outcome, `false` puts the rows
+   * back and emits null.
+   */
+  removeWithUndo(ids: number[], commit: Observable<boolean>): Observable<BatchResult<void> | null> {
+    return defer(() => {
+      const snapshots = ids
+        .map(id => this.takeSnapshot(id))
+        .sort((a, b) => a.index - b.index);
+      ids.forEach(id => {
+        this.store.remove(id);
+        this.track(id, 'delete', 'pending');
+      });
+
+      return commit.pipe(
+        take(1),
+        switchMap(confirmed => {
+          if (!confirmed) {
+            // Restore in list order so every row returns to its original position
+            snapshots.forEach(snapshot => {
+              this.restoreSnapshot(snapshot);
+              this.track(snapshot.id, 'delete', 'idle');
+            });
+            return of(null);
+          }
+          const byId = new Map(snapshots.map(snapshot => [snapshot.id, snapshot]));
+          return this.runBatch(ids, id => this.sendDelete(byId.get(id)!, ids.length === 1));
+        })
+      );
+    });
+  }
+
+  /**
+   * Apply a set of updates, one request per participant
+   * Failed items are rolled back individually; the result lists every
+   * success and failure and the observable itself never errors
+   */
+  bulkUpdate(updates: BatchUpdate[]): Observable<BatchResult<Participant>> {
+    const changes = new Map(updates.map(update => [update.id, update.changes]));
+    return this.runBatch([...changes.keys()], id => this.updateOne(id, changes.get(id)!, false));
+  }
+
+  /**
+   * Create several participants, one request per participant
+   * Emits progress after every item; result ids are indexes into `dtos`
+   */
+  bulkCreate(dtos: CreateParticipantDto[]): Observable<BatchProgress<Participant>> {
+    return this.runBatchWithProgress(dtos.map((_, index) => index), index => this.createOne(dtos[index], false));
+  }
+
+  /**
+   * Delete several participants, one request per participant
+   */
+  bulkRemove(ids: number[]): Observable<BatchResult<void>> {
+    return this.runBatch(ids, id => this.removeOne(id, false));
+  }
+
+  /**
+   * Fetch the complete participant collection of every cohort without
+   * changing the list page; results are cached in the entity map
+   */
+  listAll(): Observable<Participant[]> {
+    return this.http
+      .get<Participant[] | PaginatedResponse<Participant>>(this.apiUrl)
+      .pipe(
+        map(response => this.toPaginatedResponse(response).data),
+        tap(participants => this.store.upsertMany(participants)),
+        catchError(error => this.handleError(error))
+      );
+  }
+
+  /**
+   * Fetch every participant of one cohort, whichever cohort is selected in the
+   * shell, without changing the list page; results are cached in the entity map
+   */
+  listCohort(cohortId: number): Observable<Participant[]> {
+    const params = new HttpParams().set('filter[cohort_id]', cohortId);
+
+    return this.http
+      .get<Participant[] | PaginatedResponse<Participant>>(this.apiUrl, { params })
+      .pipe(
+        map(response => this.toPaginatedResponse(response).data),
+        tap(participants => this.store.upsertMany(participants)),
+        catchError(error => this.handleError(error))
+      );
+  }
+
+  /**
+   * Fetch every participant of the selected cohort matching a list query's
+   * search and filters, regardless of page; results are cached in the entity map but the
+   * current list page is left untouched
+   */
+  listMatching(query: ParticipantQuery): Observable<Participant[]> {
+    const perPage = Math.max(query.perPage, this.store.pagination().total, 1);
+    const params = this.scoped(this.buildQueryParams({ ...query, page: 1, perPage }));
+
+    return this.http
+      .get<Participant[] | PaginatedResponse<Participant>>(this.apiUrl, { params })
+      .pipe(
+        map(response => this.toPaginatedResponse(response).data),
+        tap(participants => this.store.upsertMany(participants)),
+        catchError(error => this.handleError(error))
+      );
+  }
+
+  /**
+   * Refresh the participants list from the server
+   */
+  refresh(query?: ParticipantQuery): Observable<PaginatedResponse<Participant>> {
+    return this.list(query);
+  }
+
+  /**
+   * Select the status of an operation across all participants
+   */
+  operationState(operation: ParticipantOperation): Signal<RequestState> {
+    return this.store.selectOperation(operation);
+  }
+
+  /**
+   * Select the status of an operation on a single participant
+   */
+  entityState(id: number, operation: ParticipantOperation): Signal<RequestState> {
+    return this.store.selectEntityState(id, operation);
+  }
+
+  /**
+   * Select a participant from the entity map
+   */
+  selectParticipant(id: number): Signal<Participant | undefined> {
+    return this.store.selectParticipant(id);
+  }
+
+  /**
+   * Clear the error state of the list
+   */
+  clearError(): void {
+    this.store.clearOperationState('list');
+  }
+
+  /**
+   * Participants endpoint, read on every call so the runtime configuration applies
+   */
+  private get apiUrl(): string {
+    return `${this.configService.config().apiBaseUrl}/participants`;
+  }
+
+  /**
+   * Optimistically create one participant; `notify` controls the rollback snackbar
+   */
+  private createOne(dto: CreateParticipantDto, notify: boolean): Observable<Participant> {
+    return defer(() => {
+      const now = new Date().toISOString();
+      const tempId = this.nextTempId--;
+      const optimistic: Participant = {
+        ...dto,
+        cohort_id: dto.cohort_id ?? null,
+        id: tempId,
+        created_at: now,
+        updated_at: now
+      };
+
+      this.store.upsert(optimistic, this.store.getIds().length);
+      this.track(tempId, 'create', 'pending');
+
+      return this.http.post<Participant>(this.apiUrl, dto).pipe(
+        tap(newParticipant => {
+          this.store.replaceId(tempId, newParticipant);
+          this.track(newParticipant.id, 'create', 'success');
+        }),
+        catchError(error => this.rollback(error, `"${dto.name}" was removed from the list`, message => {
+          this.store.remove(tempId);
+          this.track(tempId, 'create', 'error', message);
+        }, notify))
+      );
+    });
+  }
+
+  /**
+   * Optimistically update one participant; `notify` controls the rollback snackbar
+   */
+  private updateOne(id: number, dto: UpdateParticipantDto, notify: boolean): Observable<Participant> {
+    return defer(() => {
+      const previous = this.store.getParticipant(id);
+
+      if (previous) {
+        this.store.upsert({ ...previous, ...dto });
+      }
+      this.track(id, 'update', 'pending');
+
+      return this.http.put<Participant>(`${this.apiUrl}/${id}`, dto).pipe(
+        tap(updatedParticipant => {
+          this.store.upsert(updatedParticipant);
+          this.track(id, 'update', 'success');
+        }),
+        catchError(error => {
+          const name = previous?.name ?? dto.name ?? `#${id}`;
+          return this.rollback(error, `previous values of "${name}" were restored`, message => {
+            if (previous) {
+              this.store.upsert(previous);
+            }
+            this.track(id, 'update', 'error', message);
+          }, notify);
+        })
+      );
+    });
+  }
+
+  /**
+   * Optimistically delete one participant; `notify` controls the rollback snackbar
+   */
+  private removeOne(id: number, notify: boolean): Observable<void> {
+    return defer(() => {
+      const snapshot = this.takeSnapshot(id);
+
+      this.store.remove(id);
+      this.track(id, 'delete', 'pending');
+
+      return this.sendDelete(snapshot, notify);
+    });
+  }
+
+  /**
+   * Send the DELETE for a participant already removed locally, restoring
+   * the snapshot if the request fails
+   */
+  private sendDelete(snapshot: RemovedParticipant, notify: boolean): Observable<void> {
+    const { id, participant } = snapshot;
+
     return this.http.delete<void>(`${this.apiUrl}/${id}`).pipe(
-      tap(() => {
-        // Remove from local state
-        const currentParticipants = this.participantsSignal();
-        const filtered = currentParticipants.filter(p => p.id !== id);
-        this.participantsSignal.set(filtered);
-        this.setLoading(false);
-      }),
+      tap(() => this.track(id, 'delete', 'success')),
       catchError(error => {
-        this.setLoading(false);
-        this.setError('Failed to delete participant');
-        return this.handleError(error);
+        const name = participant?.name ?? `#${id}`;
+        return this.rollback(error, `"${name}" was restored`, message => {
+          this.restoreSnapshot(snapshot);
+          this.track(id, 'delete', 'error', message);
+        }, notify);
       })
     );
   }
 
   /**
-   * Refresh the participants list from the server
+   * Remember a participant and its list position before removing it locally
    */
-  refresh(): Observable<Participant[]> {
-    return this.list();
+  private takeSnapshot(id: number): RemovedParticipant {
+    return { id, index: this.store.getIds().indexOf(id), participant: this.store.getParticipant(id) };
   }
 
   /**
-   * Clear the error state
+   * Put a locally removed participant back where it was
    */
-  clearError(): void {
-    this.setError(null);
+  private restoreSnapshot({ index, participant }: RemovedParticipant): void {
+    if (participant) {
+      this.store.upsert(participant, index !== -1 ? index : undefined);
+    }
+  }
+
+  /**
+   * Run one request per id with limited concurrency and collect the outcomes
+   */
+  private runBatch<T>(ids: number[], run: (id: number) => Observable<T>): Observable<BatchResult<T>> {
+    return this.runBatchWithProgress(ids, run).pipe(
+      last(),
+      map(progress => progress.result)
+    );
   }
 
   /**
-   * Set loading state
+   * Run one request per id with limited concurrency, emitting progress after each
    */
-  private setLoading(loading: boolean): void {
-    this.loadingSignal.set(loading);
+  private runBatchWithProgress<T>(
+    ids: number[],
+    run: (id: number) => Observable<T>
+  ): Observable<BatchProgress<T>> {
+    const initial: BatchProgress<T> = {
+      completed: 0,
+      total: ids.length,
+      result: { succeeded: [], failed: [] }
+    };
+    if (ids.length === 0) {
+      return of(initial);
+    }
+
+    return from(ids).pipe(
+      mergeMap(id => run(id).pipe(
+        last(),
+        map(result => ({ id, ok: true as const, result })),
+        catchError(error => of({ id, ok: false as const, error: error as ApiError }))
+      ), this.batchConcurrency),
+      scan((progress, outcome) => ({
+        completed: progress.completed + 1,
+        total: progress.total,
+        result: outcome.ok
+          ? { ...progress.result, succeeded: [...progress.result.succeeded, { id: outcome.id, result: outcome.result }] }
+          : { ...progress.result, failed: [...progress.result.failed, { id: outcome.id, error: outcome.error }] }
+      }), initial)
+    );
   }
 
   /**
-   * Set error state
+   * Record a status change for both the participant and the operation
    */
-  private setError(error: string | null): void {
-    this.errorSignal.set(error);
+  private track(
+    id: number,
+    operation: ParticipantOperation,
+    status: RequestState['status'],
+    error: string | null = null
+  ): void {
+    this.store.setEntityState(id, operation, status, error);
+    this.store.setOperationState(operation, status, error);
   }
 
   /**
-   * Handle HTTP errors and return user-friendly error messages
+   * Serialize a list query into Laravel-style query parameters
    */
-  private handleError(error: HttpErrorResponse): Observable<never> {
-    let errorMessage = 'An unexpected error occurred';
-    
-    if (error.error instanceof ErrorEvent) {
-      // Client-side error
-      errorMessage = `Error: ${error.error.message}`;
-    } else {
-      // Server-side error
-      switch (error.status) {
-        case 400:
-          errorMessage = 'Bad request. Please check your input.';
-          break;
-        case 401:
-          errorMessage = 'Unauthorized. Please check your API key.';
-          break;
-        case 403:
-          errorMessage = 'Forbidden. You do not have permission to perform this action.';
-          break;
-        case 404:
-          errorMessage = 'Resource not found.';
-          break;
-        case 422:
-          errorMessage = 'Validation error. Please check your input.';
-          if (error.error?.errors) {
-            const validationErrors = Object.values(error.error.errors).flat();
-            errorMessage = `Validation error: ${validationErrors.join(', ')}`;
-          }
-          break;
-        case 500:
-          errorMessage = 'Server error. Please try again later.';
-          break;
-        default:
-          errorMessage = `Error ${error.status}: ${error.error?.message || error.message}`;
+  private buildQueryParams(query: ParticipantQuery): HttpParams {
+    let params = new HttpParams()
+      .set('page', query.page)
+      .set('per_page', query.perPage);
+
+    const sort = formatSort(query);
+    if (sort) {
+      params = params.set('sort', sort);
+    }
+
+    const search = query.search?.trim();
+    if (search) {
+      params = params.set('search', search);
+    }
+
+    Object.entries(query.filters ?? {}).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        params = params.set(`filter[${key}]`, value);
       }
+    });
+
+    const conditions = query.conditions ?? [];
+    conditions.forEach(condition => {
+      params = params.append('where[]', formatCondition(condition));
+    });
+    if (conditions.length && query.match === 'any') {
+      params = params.set('match', 'any');
+    }
+
+    return params;
+  }
+
+  /**
+   * Restrict a list request to the cohort selected in the app shell
+   */
+  private scoped(params: HttpParams): HttpParams {
+    const cohortId = this.cohortsService.selectedCohortId();
+    return cohortId === null ? params : params.set('filter[cohort_id]', cohortId);
+  }
+
+  /**
+   * Normalize list responses: the API returns a bare array when no
+   * pagination parameters are sent, and a paginator envelope otherwise
+   */
+  private toPaginatedResponse(
+    response: Participant[] | PaginatedResponse<Participant>
+  ): PaginatedResponse<Participant> {
+    if (Array.isArray(response)) {
+      return {
+        data: response,
+        total: response.length,
+        current_page: 1,
+        last_page: 1,
+        per_page: response.length
+      };
+    }
+    return response;
+  }
+
+  /**
+   * Undo an optimistic change and tell the user what was reverted
+   */
+  private rollback(
+    error: HttpErrorResponse,
+    reverted: string,
+    undo: (message: string) => void,
+    notify: boolean = true
+  ): Observable<never> {
+    const apiError = ApiError.fromHttpError(error);
+    undo(apiError.message);
+    if (notify) {
+      this.notificationService.showError(`${apiError.message} Reverted: ${reverted}.`);
     }
-    
     console.error('API Error:', error);
-    return throwError(() => new Error(errorMessage));
+    return throwError(() => apiError);
+  }
+
+  /**
+   * Handle HTTP errors and rethrow them as typed ApiErrors
+   */
+  private handleError(error: HttpErrorResponse): Observable<never> {
+    const apiError = ApiError.fromHttpError(error);
+    console.error('API Error:', error);
+    return throwError(() => apiError);
   }
 }
@@ -0,0 +1,268 @@
+import { Injectable, Signal, computed, signal } from '@angular/core';
+
+import { Participant, PaginationMeta, ParticipantQuery } from '../models/participant.model';
+import {
+  IDLE_REQUEST_STATE,
+  ParticipantOperation,
+  RequestState,
+  RequestStatus
+} from '../models/request-state.model';
+
+/**
+ * Shape of the participants entity store
+ */
+interface ParticipantsState {
+  entities: Record<number, Participant>;
+  ids: number[];
+  pagination: PaginationMeta;
+  query: ParticipantQuery | null;
+  operations: Record<ParticipantOperation, RequestState>;
+  entityStatus: Record<number, Partial<Record<ParticipantOperation, RequestState>>>;
+}
+
+const INITIAL_STATE: ParticipantsState = {
+  entities: {},
+  ids: [],
+  pagination: {
+    total: 0,
+    currentPage: 1,
+    lastPage: 1,
+    perPage: 0
+  },
+  query: null,
+  operations: {
+    list: IDLE_REQUEST_STATE,
+    get: IDLE_REQUEST_STATE,
+    create: IDLE_REQUEST_STATE,
+    update: IDLE_REQUEST_STATE,
+    delete: IDLE_REQUEST_STATE
+  },
+  entityStatus: {}
+};
+
+/**
+ * ParticipantsStore
+ *
+ * Normalized, signal-based entity store for participants.
+ * Participants are kept in a map keyed by id, with `ids` holding the order
+ * of the current list page. Request status is tracked per operation and
+ * per participant so that, for example, deleting one row does not put the
+ * list or the dashboard into a loading state.
+ *
+ * Written to by ParticipantsService; components read it through the
+ * selectors re-exposed by that service.
+ *
+ * @author HERE AND NOW AI Development Team
+ * @version 1.0.0
+ * @since Angular 20.2.1
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ParticipantsStore {
+  private readonly state = signal<ParticipantsState>(INITIAL_STATE);
+
+  // Selector caches so repeated lookups return the same signal instance
+  private readonly operationSelectors = new Map<ParticipantOperation, Signal<RequestState>>();
+  private readonly entityStateSelectors = new Map<string, Signal<RequestState>>();
+  private readonly entitySelectors = new Map<number, Signal<Participant | undefined>>();
+
+  // Selectors
+  readonly participants = computed(() => {
+    const { ids, entities } = this.state();
+    return ids.map(id => entities[id]).filter((p): p is Participant => !!p);
+  });
+  readonly pagination = computed(() => this.state().pagination);
+  readonly listQuery = computed(() => this.state().query);
+  readonly pendingIds = computed<ReadonlySet<number>>(() => {
+    const pending = new Set<number>();
+    Object.entries(this.state().entityStatus).forEach(([id, operations]) => {
+      if (Object.values(operations).some(op => op?.status === 'pending')) {
+        pending.add(Number(id));
+      }
+    });
+    return pending;
+  });
+
+  /**
+   * Select the status of an operation across all participants
+   */
+  selectOperation(operation: ParticipantOperation): Signal<RequestState> {
+    let selector = this.operationSelectors.get(operation);
+    if (!selector) {
+      selector = computed(() => this.state().operations[operation]);
+      this.operationSelectors.set(operation, selector);
+    }
+    return selector;
+  }
+
+  /**
+   * Select the status of an operation for a single participant
+   */
+  selectEntityState(id: number, operation: ParticipantOperation): Signal<RequestState> {
+    const key = `${id}:${operation}`;
+    let selector = this.entityStateSelectors.get(key);
+    if (!selector) {
+      selector = computed(() => this.state().entityStatus[id]?.[operation] ?? IDLE_REQUEST_STATE);
+      this.entityStateSelectors.set(key, selector);
+    }
+    return selector;
+  }
+
+  /**
+   * Select a participant by id, whether or not it is on the current page
+   */
+  selectParticipant(id: number): Signal<Participant | undefined> {
+    let selector = this.entitySelectors.get(id);
+    if (!selector) {
+      selector = computed(() => this.state().entities[id]);
+      this.entitySelectors.set(id, selector);
+    }
+    return selector;
+  }
+
+  /**
+   * Snapshot lookup of a participant by id
+   */
+  getParticipant(id: number): Participant | undefined {
+    return this.state().entities[id];
+  }
+
+  /**
+   * Snapshot of the current list order
+   */
+  getIds(): number[] {
+    return this.state().ids;
+  }
+
+  /**
+   * Replace the current list page, merging its rows into the entity map
+   * `query` is the list query of the page, null for the full collection
+   */
+  setList(participants: Participant[], pagination: PaginationMeta, query: ParticipantQuery | null = null): void {
+    this.state.update(state => {
+      // Rows removed locally whose DELETE has not been confirmed stay hidden on reload
+      const visible = participants.filter(p => state.entityStatus[p.id]?.delete?.status !== 'pending');
+      return {
+        ...state,
+        entities: { ...state.entities, ...this.toEntities(visible) },
+        ids: visible.map(p => p.id),
+        pagination: this.withTotal(pagination, visible.length - participants.length),
+        query
+      };
+    });
+  }
+
+  /**
+   * Insert or replace a participant; appends to the list when `index` is given
+   * and the id is not already listed
+   */
+  upsert(participant: Participant, index?: number): void {
+    this.state.update(state => {
+      const listed = state.ids.includes(participant.id);
+      const ids = [...state.ids];
+      if (!listed && index !== undefined) {
+        ids.splice(Math.min(index, ids.length), 0, participant.id);
+      }
+      return {
+        ...state,
+        entities: { ...state.entities, [participant.id]: participant },
+        ids,
+        pagination: !listed && index !== undefined
+          ? this.withTotal(state.pagination, 1)
+          : state.pagination
+      };
+    });
+  }
+
+  /**
+   * Insert or replace several participants without changing the list order
+   */
+  upsertMany(participants: Participant[]): void {
+    this.state.update(state => ({
+      ...state,
+      entities: { ...state.entities, ...this.toEntities(participants) }
+    }));
+  }
+
+  /**
+   * Swap a temporary id for the id assigned by the server
+   */
+  replaceId(tempId: number, participant: Participant): void {
+    this.state.update(state => {
+      const { [tempId]: _removed, ...entities } = state.entities;
+      const { [tempId]: _status, ...entityStatus } = state.entityStatus;
+      return {
+        ...state,
+        entities: { ...entities, [participant.id]: participant },
+        ids: state.ids.map(id => (id === tempId ? participant.id : id)),
+        entityStatus
+      };
+    });
+  }
+
+  /**
+   * Remove a participant from the map and the list
+   */
+  remove(id: number): void {
+    this.state.update(state => {
+      if (!(id in state.entities)) {
+        return state;
+      }
+      const { [id]: _removed, ...entities } = state.entities;
+      const listed = state.ids.includes(id);
+      return {
+        ...state,
+        entities,
+        ids: state.ids.filter(existing => existing !== id),
+        pagination: listed ? this.withTotal(state.pagination, -1) : state.pagination
+      };
+    });
+  }
+
+  /**
+   * Record the status of an operation
+   */
+  setOperationState(operation: ParticipantOperation, status: RequestStatus, error: string | null = null): void {
+    this.state.update(state => ({
+      ...state,
+      operations: { ...state.operations, [operation]: { status, error } }
+    }));
+  }
+
+  /**
+   * Record the status of an operation on one participant
+   */
+  setEntityState(
+    id: number,
+    operation: ParticipantOperation,
+    status: RequestStatus,
+    error: string | null = null
+  ): void {
+    this.state.update(state => ({
+      ...state,
+      entityStatus: {
+        ...state.entityStatus,
+        [id]: { ...state.entityStatus[id], [operation]: { status, error } }
+      }
+    }));
+  }
+
+  /**
+   * Reset an operation back to idle, e.g. to dismiss its error
+   */
+  clearOperationState(operation: ParticipantOperation): void {
+    this.setOperationState(operation, 'idle');
+  }
+
+  private toEntities(participants: Participant[]): Record<number, Participant> {
+    return participants.reduce<Record<number, Participant>>((entities, participant) => {
+      entities[participant.id] = participant;
+      return entities;
+    }, {});
+  }
+
+  private withTotal(pagination: PaginationMeta, delta: number): PaginationMeta {
+    return { ...pagination, total: Math.max(0, pagination.total + delta) };
+  }
+}
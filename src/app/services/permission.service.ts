@@ -0,0 +1,41 @@
+import { Injectable, Signal, computed } from '@angular/core';
+
+import { Permission, ROLE_PERMISSIONS, UserRole } from '../models/permission.model';
+import { AuthService } from './auth.service';
+
+/**
+ * PermissionService
+ *
+ * Answers what the signed-in user may do, based on the role sent by the
+ * auth endpoints. Checks read signals, so templates and computed values
+ * update when the user signs in or out.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PermissionService {
+  readonly role: Signal<UserRole | null>;
+  private readonly granted: Signal<ReadonlySet<Permission>>;
+
+  constructor(private authService: AuthService) {
+    this.role = computed(() => this.authService.user()?.role ?? null);
+    this.granted = computed(() => {
+      const role = this.role();
+      return new Set(role ? ROLE_PERMISSIONS[role] ?? [] : []);
+    });
+  }
+
+  /**
+   * Whether the current user has a permission
+   */
+  can(permission: Permission): boolean {
+    return this.granted().has(permission);
+  }
+
+  /**
+   * Whether the current user has at least one of the permissions
+   */
+  canAny(permissions: Permission[]): boolean {
+    return permissions.some(permission => this.can(permission));
+  }
+}
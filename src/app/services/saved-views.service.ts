@@ -0,0 +1,231 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, defer, of, throwError } from 'rxjs';
+import { catchError, map, tap } from 'rxjs/operators';
+
+import { SavedView, SavedViewDraft } from '../models/saved-view.model';
+import { ApiError } from '../models/api-error.model';
+import { AuthService } from './auth.service';
+import { ConfigService } from './config.service';
+
+const STORAGE_KEY = 'participant-admin.views';
+const DEFAULT_STORAGE_KEY = 'participant-admin.default-views';
+
+/**
+ * SavedViewsService
+ *
+ * Named participant list views. Views are kept in `localStorage`, or on the
+ * API when `savedViews.url` is configured. Personal views are only listed
+ * for their owner; shared views are listed for everyone, and only the owner
+ * can change or delete a view.
+ *
+ * The default landing view is a per-user preference and is always kept in
+ * this browser.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SavedViewsService {
+  private readonly viewList = signal<SavedView[]>([]);
+  private readonly defaultIds = signal<Record<number, string>>(this.restoreDefaults());
+
+  // Public readonly signals: the views the signed-in user can open, by name
+  readonly views = computed(() => {
+    const userId = this.authService.user()?.id;
+    return this.viewList()
+      .filter(view => view.visibility === 'shared' || view.owner_id === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  });
+  readonly personalViews = computed(() => this.views().filter(view => view.visibility === 'personal'));
+  readonly sharedViews = computed(() => this.views().filter(view => view.visibility === 'shared'));
+  readonly defaultView = computed(() => {
+    const userId = this.authService.user()?.id;
+    const id = userId === undefined ? undefined : this.defaultIds()[userId];
+    return this.views().find(view => view.id === id) ?? null;
+  });
+
+  constructor(
+    private http: HttpClient,
+    private configService: ConfigService,
+    private authService: AuthService
+  ) {}
+
+  /**
+   * Load the views from the API or this browser
+   */
+  load(): Observable<SavedView[]> {
+    if (!this.apiUrl) {
+      return defer(() => {
+        this.viewList.set(this.readStorage());
+        return of(this.viewList());
+      });
+    }
+    return this.http.get<SavedView[]>(this.apiUrl).pipe(
+      map(views => views.map(view => this.normalize(view))),
+      tap(views => this.viewList.set(views)),
+      catchError((error: HttpErrorResponse) => this.handleError(error))
+    );
+  }
+
+  /**
+   * Save a new view owned by the signed-in user
+   */
+  create(draft: SavedViewDraft): Observable<SavedView> {
+    if (this.apiUrl) {
+      return this.http.post<SavedView>(this.apiUrl, draft).pipe(
+        map(view => this.normalize(view)),
+        tap(view => this.upsert(view)),
+        catchError((error: HttpErrorResponse) => this.handleError(error))
+      );
+    }
+    return defer(() => {
+      const user = this.authService.user();
+      const now = new Date().toISOString();
+      const view: SavedView = {
+        ...draft,
+        id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+        owner_id: user?.id ?? 0,
+        owner_name: user?.name ?? '',
+        created_at: now,
+        updated_at: now
+      };
+      this.upsert(view);
+      return of(view);
+    });
+  }
+
+  /**
+   * Rename a view, change its visibility or replace its list state
+   */
+  update(id: string, changes: Partial<SavedViewDraft>): Observable<SavedView> {
+    const existing = this.find(id);
+    if (!existing || !this.canEdit(existing)) {
+      return throwError(() => new ApiError(403, 'forbidden', 'Only the owner can change this view.'));
+    }
+    if (this.apiUrl) {
+      return this.http.put<SavedView>(`${this.apiUrl}/${id}`, changes).pipe(
+        map(view => this.normalize(view)),
+        tap(view => this.upsert(view)),
+        catchError((error: HttpErrorResponse) => this.handleError(error))
+      );
+    }
+    return defer(() => {
+      const view = { ...existing, ...changes, updated_at: new Date().toISOString() };
+      this.upsert(view);
+      return of(view);
+    });
+  }
+
+  /**
+   * Delete a view
+   */
+  remove(id: string): Observable<void> {
+    const existing = this.find(id);
+    if (!existing || !this.canEdit(existing)) {
+      return throwError(() => new ApiError(403, 'forbidden', 'Only the owner can delete this view.'));
+    }
+    const removeLocally = () => {
+      this.viewList.update(views => views.filter(view => view.id !== id));
+      this.writeStorage();
+    };
+    if (this.apiUrl) {
+      return this.http.delete<void>(`${this.apiUrl}/${id}`).pipe(
+        tap(removeLocally),
+        catchError((error: HttpErrorResponse) => this.handleError(error))
+      );
+    }
+    return defer(() => {
+      removeLocally();
+      return of(undefined);
+    });
+  }
+
+  /**
+   * Make a view the signed-in user's landing view, or clear it with `null`
+   */
+  setDefault(id: string | null): void {
+    const userId = this.authService.user()?.id;
+    if (userId === undefined) {
+      return;
+    }
+    this.defaultIds.update(defaults => {
+      const { [userId]: _previous, ...others } = defaults;
+      return id === null ? others : { ...others, [userId]: id };
+    });
+    try {
+      localStorage.setItem(DEFAULT_STORAGE_KEY, JSON.stringify(this.defaultIds()));
+    } catch {
+      // Storage can be unavailable (private mode); the preference then lasts for this tab only
+    }
+  }
+
+  /**
+   * Find a view the signed-in user can open
+   */
+  find(id: string): SavedView | undefined {
+    return this.views().find(view => view.id === id);
+  }
+
+  /**
+   * Whether the signed-in user may change or delete a view
+   */
+  canEdit(view: SavedView): boolean {
+    return view.owner_id === this.authService.user()?.id;
+  }
+
+  private get apiUrl(): string {
+    const { url } = this.configService.config().savedViews;
+    return url ? `${this.configService.config().apiBaseUrl}${url}` : '';
+  }
+
+  /**
+   * Insert or replace a view and persist the list when kept in this browser
+   */
+  private upsert(view: SavedView): void {
+    this.viewList.update(views => [...views.filter(existing => existing.id !== view.id), view]);
+    this.writeStorage();
+  }
+
+  /**
+   * The API may use numeric ids; views are addressed by string ids in URLs
+   */
+  private normalize(view: SavedView): SavedView {
+    return { ...view, id: String(view.id) };
+  }
+
+  private readStorage(): SavedView[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+      return Array.isArray(stored) ? stored : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private writeStorage(): void {
+    if (this.apiUrl) {
+      return;
+    }
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.viewList()));
+    } catch {
+      // Storage can be unavailable (private mode); views then last for this tab only
+    }
+  }
+
+  private restoreDefaults(): Record<number, string> {
+    try {
+      const stored = JSON.parse(localStorage.getItem(DEFAULT_STORAGE_KEY) ?? '{}');
+      return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Handle HTTP errors and rethrow them as typed ApiErrors
+   */
+  private handleError(error: HttpErrorResponse): Observable<never> {
+    return throwError(() => ApiError.fromHttpError(error));
+  }
+}
@@ -0,0 +1,84 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, of } from 'rxjs';
+import { catchError, map, tap } from 'rxjs/operators';
+
+import { Skill, SkillDefinition, SkillField } from '../models/skill.model';
+import { ApiResponse } from '../models/participant.model';
+import { checkSkillCatalog, resolveSkillCatalog } from '../utils/skill-catalog.util';
+import { ConfigService } from './config.service';
+
+/**
+ * SkillCatalogService
+ *
+ * The skills participants are scored on. `load()` runs as an app initializer
+ * after the configuration: it uses `skills.catalog` from the configuration,
+ * or fetches the catalog from `skills.catalogUrl` when one is set and falls
+ * back to the configured catalog if that request fails.
+ *
+ * Retired skills stay in the catalog so their scores can still be labelled
+ * and shown; only active skills are offered for editing and statistics.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SkillCatalogService {
+  private readonly catalog = signal<Skill[]>([]);
+
+  // Public readonly signals
+  readonly skills = this.catalog.asReadonly();
+  readonly activeSkills = computed(() => this.catalog().filter(skill => !skill.retired));
+  readonly retiredSkills = computed(() => this.catalog().filter(skill => skill.retired));
+
+  constructor(
+    private http: HttpClient,
+    private configService: ConfigService
+  ) {
+    this.catalog.set(resolveSkillCatalog(this.configService.config().skills.catalog));
+  }
+
+  /**
+   * Load the catalog for the current configuration
+   * Never errors, so the application always starts
+   */
+  load(): Observable<Skill[]> {
+    const { catalogUrl, catalog } = this.configService.config().skills;
+    const fallback = resolveSkillCatalog(catalog);
+    if (!catalogUrl) {
+      this.catalog.set(fallback);
+      return of(fallback);
+    }
+
+    const url = `${this.configService.config().apiBaseUrl}${catalogUrl}`;
+    return this.http.get<SkillDefinition[] | ApiResponse<SkillDefinition[]>>(url).pipe(
+      map(response => {
+        const definitions = Array.isArray(response) ? response : response.data;
+        const problem = checkSkillCatalog(definitions);
+        if (problem) {
+          console.warn(`[SkillCatalogService] The catalog from ${catalogUrl} ${problem}; using the configured catalog`);
+          return fallback;
+        }
+        return resolveSkillCatalog(definitions);
+      }),
+      catchError((error: HttpErrorResponse) => {
+        console.warn(`[SkillCatalogService] Could not load ${catalogUrl}, using the configured catalog:`, error.message);
+        return of(fallback);
+      }),
+      tap(skills => this.catalog.set(skills))
+    );
+  }
+
+  /**
+   * Catalog entry for a participant field, including retired skills
+   */
+  find(field: SkillField): Skill | undefined {
+    return this.catalog().find(skill => skill.field === field);
+  }
+
+  /**
+   * Display name of a skill field; unknown fields are shown as their key
+   */
+  label(field: SkillField): string {
+    return this.find(field)?.label ?? field.replace(/_skill$/, '');
+  }
+}
@@ -4,6 +4,7 @@ import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
 export interface ConfirmDialogData {
   title: string;
   message: string;
+  details?: string[];
   confirmText?: string;
   cancelText?: string;
   type?: 'info' | 'warning' | 'danger';
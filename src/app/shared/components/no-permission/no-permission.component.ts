@@ -0,0 +1,46 @@
+import { Component, computed, inject, input } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router } from '@angular/router';
+
+import { PermissionService } from '../../../services/permission.service';
+import { AuthService } from '../../../services/auth.service';
+import { PERMISSION_DESCRIPTIONS, Permission, ROLE_LABELS } from '../../../models/permission.model';
+
+/**
+ * "No permission" state shown instead of content the user may not access
+ * Used as the `/no-permission` page (permission read from the query string)
+ * and inline, e.g. when the API answers 403
+ */
+@Component({
+  selector: 'app-no-permission',
+  templateUrl: './no-permission.component.html',
+  styleUrls: ['./no-permission.component.scss'],
+  standalone: false
+})
+export class NoPermissionComponent {
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly authService = inject(AuthService);
+  private readonly permissionService = inject(PermissionService);
+
+  // Permission that was missing; falls back to the `permission` query parameter
+  readonly permission = input<Permission | null>(null);
+
+  private readonly queryParams = toSignal(this.route.queryParamMap);
+
+  readonly user = this.authService.user;
+
+  readonly action = computed(() => {
+    const permission = this.permission() ?? (this.queryParams()?.get('permission') as Permission | null);
+    return permission ? PERMISSION_DESCRIPTIONS[permission] ?? null : null;
+  });
+
+  readonly roleLabel = computed(() => {
+    const role = this.permissionService.role();
+    return role ? ROLE_LABELS[role] : null;
+  });
+
+  goToList(): void {
+    this.router.navigate(['/participants']);
+  }
+}
@@ -0,0 +1,65 @@
+import { Directive, EmbeddedViewRef, TemplateRef, ViewContainerRef, effect, inject, input } from '@angular/core';
+
+import { Permission } from '../../models/permission.model';
+import { PermissionService } from '../../services/permission.service';
+
+/**
+ * Structural directive that shows content only when the user has a permission
+ *
+ * Usage:
+ *   <button *appCan="'participant.create'">Add</button>
+ *   <button *appCan="['participant.update', 'participant.delete']">Bulk actions</button>
+ *   <button *appCan="'participant.delete'; mode: 'disable'">Delete</button>
+ *
+ * In 'disable' mode the content stays visible but is disabled and marked
+ * with the `permission-denied` class, so users can see the action exists.
+ * Components with their own `disabled` binding (e.g. MatButton) overwrite the
+ * attribute on change detection, so such buttons must also bind
+ * `[disabled]` to the permission, and their handlers must check it.
+ */
+@Directive({
+  selector: '[appCan]',
+  standalone: false
+})
+export class CanDirective {
+  private readonly templateRef = inject(TemplateRef<unknown>);
+  private readonly viewContainer = inject(ViewContainerRef);
+  private readonly permissionService = inject(PermissionService);
+
+  // Permission, or list of permissions of which any one is enough
+  readonly appCan = input.required<Permission | Permission[]>();
+  readonly appCanMode = input<'hide' | 'disable'>('hide');
+
+  private view: EmbeddedViewRef<unknown> | null = null;
+
+  constructor() {
+    effect(() => {
+      const required = this.appCan();
+      const allowed = this.permissionService.canAny(Array.isArray(required) ? required : [required]);
+
+      if (!allowed && this.appCanMode() === 'hide') {
+        this.viewContainer.clear();
+        this.view = null;
+        return;
+      }
+
+      this.view ??= this.viewContainer.createEmbeddedView(this.templateRef);
+      this.view.rootNodes
+        .filter((node): node is HTMLElement => node instanceof HTMLElement)
+        .forEach(element => this.setDenied(element, !allowed));
+    });
+  }
+
+  private setDenied(element: HTMLElement, denied: boolean): void {
+    element.classList.toggle('permission-denied', denied);
+    if (denied) {
+      element.setAttribute('disabled', 'true');
+      element.setAttribute('aria-disabled', 'true');
+      element.setAttribute('title', 'You do not have permission for this action');
+    } else if (element.getAttribute('aria-disabled') === 'true') {
+      element.removeAttribute('disabled');
+      element.removeAttribute('aria-disabled');
+      element.removeAttribute('title');
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { DOCUMENT } from '@angular/common';
+import { DestroyRef, Directive, ElementRef, Renderer2, effect, inject, input, output } from '@angular/core';
+
+const MIN_WIDTH = 60;
+
+/**
+ * Attribute directive that lets users drag the right edge of a table header
+ * to change the width of the column
+ *
+ * Usage:
+ *   <th mat-header-cell *matHeaderCellDef [appResizableColumn]="widths.email"
+ *       (columnResize)="saveWidth('email', $event)">Email</th>
+ *
+ * Without a width the column keeps its automatic width. `columnResize`
+ * emits the new width in pixels once the user lets go of the handle.
+ */
+@Directive({
+  selector: '[appResizableColumn]',
+  standalone: false,
+  host: { class: 'resizable-column' }
+})
+export class ResizableColumnDirective {
+  private readonly element = inject<ElementRef<HTMLElement>>(ElementRef);
+  private readonly renderer = inject(Renderer2);
+  private readonly document = inject(DOCUMENT);
+
+  readonly appResizableColumn = input<number | undefined>();
+  readonly columnResize = output<number>();
+
+  constructor() {
+    const handle: HTMLElement = this.renderer.createElement('span');
+    this.renderer.addClass(handle, 'column-resize-handle');
+    this.renderer.setAttribute(handle, 'aria-hidden', 'true');
+    this.renderer.appendChild(this.element.nativeElement, handle);
+
+    const stopListening = this.renderer.listen(handle, 'pointerdown', (event: PointerEvent) =>
+      this.startResize(event)
+    );
+    inject(DestroyRef).onDestroy(stopListening);
+
+    effect(() => this.setWidth(this.appResizableColumn()));
+  }
+
+  private startResize(event: PointerEvent): void {
+    // Keep the press from starting a sort or a text selection
+    event.preventDefault();
+    event.stopPropagation();
+
+    const startX = event.clientX;
+    const startWidth = this.element.nativeElement.offsetWidth;
+    let width = startWidth;
+
+    const stopMove = this.renderer.listen(this.document, 'pointermove', (move: PointerEvent) => {
+      width = Math.max(MIN_WIDTH, startWidth + move.clientX - startX);
+      this.setWidth(width);
+    });
+    const stopUp = this.renderer.listen(this.document, 'pointerup', () => {
+      stopMove();
+      stopUp();
+      this.swallowNextClick();
+      if (width !== startWidth) {
+        this.columnResize.emit(width);
+      }
+    });
+  }
+
+  /**
+   * The click that ends a drag lands on the header and would toggle the sort
+   */
+  private swallowNextClick(): void {
+    const swallow = (click: Event) => click.stopPropagation();
+    this.document.addEventListener('click', swallow, { capture: true, once: true });
+    setTimeout(() => this.document.removeEventListener('click', swallow, { capture: true }));
+  }
+
+  private setWidth(width: number | undefined): void {
+    const element = this.element.nativeElement;
+    for (const property of ['width', 'min-width', 'max-width']) {
+      if (width === undefined) {
+        this.renderer.removeStyle(element, property);
+      } else {
+        this.renderer.setStyle(element, property, `${width}px`);
+      }
+    }
+  }
+}
@@ -19,6 +19,10 @@ import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatChipsModule } from '@angular/material/chips';
 import { MatCheckboxModule } from '@angular/material/checkbox';
 import { MatRadioModule } from '@angular/material/radio';
+import { MatStepperModule } from '@angular/material/stepper';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { DragDropModule } from '@angular/cdk/drag-drop';
 
 /**
  * Material Module - Centralizes all Angular Material imports
@@ -45,7 +49,11 @@ import { MatRadioModule } from '@angular/material/radio';
     MatTooltipModule,
     MatChipsModule,
     MatCheckboxModule,
-    MatRadioModule
+    MatRadioModule,
+    MatStepperModule,
+    MatProgressBarModule,
+    MatDatepickerModule,
+    DragDropModule
   ]
 })
 export class MaterialModule { }
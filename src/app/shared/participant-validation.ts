@@ -0,0 +1,115 @@
+import { FormControl, ValidationErrors, ValidatorFn, Validators } from '@angular/forms';
+
+import { CreateParticipantDto, ParticipantDetailField, ParticipantField } from '../models/participant.model';
+import { SkillField, isSkillField } from '../models/skill.model';
+
+/**
+ * Participant Validation Rules
+ *
+ * Single source of the client-side rules for participant fields, shared by
+ * the participant form and the spreadsheet import so both accept exactly the
+ * same data. Skill scores share one rule, whatever the skill catalog contains.
+ */
+
+/**
+ * Validators applied to every skill score (0 = not specified)
+ */
+export const SKILL_VALIDATORS: ValidatorFn[] = [Validators.min(0), Validators.max(10)];
+
+/**
+ * Validators applied to each participant field other than skills
+ */
+export const PARTICIPANT_VALIDATORS: Record<ParticipantDetailField, ValidatorFn[]> = {
+  name: [Validators.required, Validators.minLength(2), Validators.maxLength(100)],
+  email: [Validators.required, Validators.email, Validators.maxLength(255)],
+  whatsapp: [Validators.required, Validators.pattern(/^[\+]?[0-9\s\-\(\)]{10,20}$/)],
+  linkedin: [Validators.pattern(/^https?:\/\/(www\.)?linkedin\.com\/.*$/)],
+  github_id: [Validators.maxLength(50)],
+  outcome: [Validators.maxLength(1000)]
+};
+
+/**
+ * Validators for any participant field, including skill scores
+ */
+export function validatorsFor(field: ParticipantField): ValidatorFn[] {
+  return isSkillField(field) ? SKILL_VALIDATORS : PARTICIPANT_VALIDATORS[field];
+}
+
+/**
+ * User-friendly labels of the fields other than skills;
+ * skill labels come from the skill catalog
+ */
+export const PARTICIPANT_FIELD_LABELS: Record<ParticipantDetailField, string> = {
+  name: 'Name',
+  email: 'Email',
+  whatsapp: 'WhatsApp',
+  linkedin: 'LinkedIn',
+  github_id: 'GitHub ID',
+  outcome: 'Outcome'
+};
+
+/**
+ * Get user-friendly field label
+ */
+export function getFieldLabel(field: string): string {
+  return PARTICIPANT_FIELD_LABELS[field as ParticipantDetailField] || field;
+}
+
+/**
+ * Turn a control's validation errors into a single message
+ */
+export function describeValidationErrors(field: string, errors: ValidationErrors): string {
+  if (errors['server']) {
+    return errors['server'];
+  }
+  if (errors['required']) {
+    return `${getFieldLabel(field)} is required`;
+  }
+  if (errors['email']) {
+    return 'Please enter a valid email address';
+  }
+  if (errors['minlength']) {
+    return `${getFieldLabel(field)} must be at least ${errors['minlength'].requiredLength} characters`;
+  }
+  if (errors['maxlength']) {
+    return `${getFieldLabel(field)} cannot exceed ${errors['maxlength'].requiredLength} characters`;
+  }
+  if (errors['pattern']) {
+    if (field === 'whatsapp') {
+      return 'Please enter a valid WhatsApp number (10-20 digits, can include +, -, (, ), spaces)';
+    }
+    if (field === 'linkedin') {
+      return 'Please enter a valid LinkedIn URL (https://linkedin.com/...)';
+    }
+    return 'Please enter a valid format';
+  }
+  if (errors['min'] || errors['max']) {
+    return 'Skill level must be between 0 and 10';
+  }
+
+  return 'Invalid input';
+}
+
+/**
+ * Validate a complete participant outside a form, including the given skills
+ * Returns a message per invalid field; empty when the participant is valid
+ */
+export function validateParticipant(
+  dto: CreateParticipantDto,
+  skillFields: readonly SkillField[]
+): Partial<Record<ParticipantField, string>> {
+  const messages: Partial<Record<ParticipantField, string>> = {};
+  const fields: ParticipantField[] = [
+    ...(Object.keys(PARTICIPANT_VALIDATORS) as ParticipantDetailField[]),
+    ...skillFields
+  ];
+
+  fields.forEach(field => {
+    const control = new FormControl(dto[field], validatorsFor(field));
+    if (control.errors) {
+      messages[field] = describeValidationErrors(field, control.errors);
+    }
+  });
+
+  return messages;
+}
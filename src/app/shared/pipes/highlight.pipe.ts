@@ -0,0 +1,40 @@
+import { Pipe, PipeTransform } from '@angular/core';
+
+import { ParsedSearch, SearchField, matchRanges } from '../../utils/participant-search.util';
+
+/**
+ * Marks the parts of a participant field matched by the list search
+ *
+ * Usage:
+ *   <strong [innerHTML]="participant.name | highlight: searchTerms() : 'name'"></strong>
+ *
+ * Returns escaped HTML with the matches wrapped in `<mark>`, for binding to `innerHTML`.
+ */
+@Pipe({
+  name: 'highlight',
+  standalone: false
+})
+export class HighlightPipe implements PipeTransform {
+  transform(value: string | null | undefined, search: ParsedSearch | null, field: SearchField): string {
+    const text = value ?? '';
+    if (!search) {
+      return escapeHtml(text);
+    }
+
+    let html = '';
+    let position = 0;
+    for (const [start, end] of matchRanges(text, field, search)) {
+      html += `${escapeHtml(text.slice(position, start))}<mark>${escapeHtml(text.slice(start, end))}</mark>`;
+      position = end;
+    }
+    return html + escapeHtml(text.slice(position));
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
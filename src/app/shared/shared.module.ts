@@ -0,0 +1,34 @@
+import { NgModule } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import { MaterialModule } from './material.module';
+import { CanDirective } from './directives/can.directive';
+import { ResizableColumnDirective } from './directives/resizable-column.directive';
+import { HighlightPipe } from './pipes/highlight.pipe';
+import { NoPermissionComponent } from './components/no-permission/no-permission.component';
+import { ConfirmDialogComponent } from './components/confirm-dialog/confirm-dialog.component';
+
+/**
+ * Shared Module - Components, directives and pipes used across feature modules
+ */
+@NgModule({
+  declarations: [
+    CanDirective,
+    ResizableColumnDirective,
+    HighlightPipe,
+    NoPermissionComponent,
+    ConfirmDialogComponent
+  ],
+  imports: [
+    CommonModule,
+    MaterialModule
+  ],
+  exports: [
+    CanDirective,
+    ResizableColumnDirective,
+    HighlightPipe,
+    NoPermissionComponent,
+    ConfirmDialogComponent
+  ]
+})
+export class SharedModule { }
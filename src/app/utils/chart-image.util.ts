@@ -0,0 +1,64 @@
+import { Chart, ChartConfiguration, Plugin, registerables } from 'chart.js';
+
+/**
+ * Chart Image Utilities
+ *
+ * Renders Chart.js configurations on a detached canvas at a fixed size, so
+ * charts can be exported as images independently of the screen size and of
+ * whether the chart is currently visible.
+ */
+
+// PNGs are transparent by default; exported charts get a white background
+const WHITE_BACKGROUND: Plugin = {
+  id: 'exportBackground',
+  beforeDraw: chart => {
+    const { ctx, width, height } = chart;
+    ctx.save();
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, width, height);
+    ctx.restore();
+  }
+};
+
+let registered = false;
+
+/**
+ * PNG data URL of a chart drawn at `width` × `height` CSS pixels, at twice the
+ * resolution for sharp printing; `title` is drawn above the chart when given
+ */
+export function renderChartImage(
+  config: ChartConfiguration,
+  width: number,
+  height: number,
+  title?: string
+): string {
+  if (!registered) {
+    // Registering is idempotent; charts may be exported before any is shown
+    Chart.register(...registerables);
+    registered = true;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const chart = new Chart(canvas, {
+    ...config,
+    options: {
+      ...config.options,
+      responsive: false,
+      animation: false,
+      devicePixelRatio: 2,
+      plugins: {
+        ...config.options?.plugins,
+        title: title
+          ? { display: true, text: title, font: { size: 16, weight: 'bold' } }
+          : { display: false }
+      }
+    },
+    plugins: [...(config.plugins ?? []), WHITE_BACKGROUND]
+  });
+  const image = chart.toBase64Image('image/png');
+  chart.destroy();
+  return image;
+}
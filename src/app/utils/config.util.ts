@@ -0,0 +1,128 @@
+/**
+ * Configuration Utilities
+ *
+ * Validates a parsed JSON document against the shape of a default
+ * configuration object and merges the valid parts over it. Every setting
+ * keeps its default type: a string stays a string, nested groups stay
+ * objects and arrays keep the element type of the default. Settings that
+ * fail a check are reported and keep their default value.
+ */
+
+/**
+ * Extra check for a single setting; returns a problem description or null
+ */
+export type ConfigRule = (value: unknown) => string | null;
+
+/**
+ * Merged configuration plus a description of every rejected setting
+ */
+export interface ConfigMergeResult<T> {
+  config: T;
+  problems: string[];
+}
+
+/**
+ * Merge `overrides` over `defaults`, keeping defaults wherever an override is
+ * missing or invalid. `rules` are keyed by dotted path, e.g. `auth.loginUrl`;
+ * a rule for a group of settings checks the merged group as a whole.
+ */
+export function mergeConfig<T extends object>(
+  defaults: T,
+  overrides: unknown,
+  rules: Record<string, ConfigRule> = {}
+): ConfigMergeResult<T> {
+  const problems: string[] = [];
+  if (!isPlainObject(overrides)) {
+    problems.push('The configuration must be a JSON object.');
+    return { config: defaults, problems };
+  }
+  const config = mergeValue(defaults, overrides, '', rules, problems) as T;
+  return { config, problems };
+}
+
+export const nonNegativeNumber: ConfigRule = value =>
+  (value as number) >= 0 ? null : 'must not be negative';
+
+export const positiveNumber: ConfigRule = value =>
+  (value as number) > 0 ? null : 'must be greater than 0';
+
+export const fraction: ConfigRule = value =>
+  (value as number) >= 0 && (value as number) <= 1 ? null : 'must be between 0 and 1';
+
+export const absoluteUrl: ConfigRule = value =>
+  /^https?:\/\/[^\s/]+/i.test(value as string) ? null : 'must be an absolute http(s) URL';
+
+export const relativePath: ConfigRule = value =>
+  (value as string).startsWith('/') ? null : 'must start with "/"';
+
+export const hexColor: ConfigRule = value =>
+  /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value as string) ? null : 'must be a hex color such as #004040';
+
+function mergeValue(
+  defaultValue: unknown,
+  override: unknown,
+  path: string,
+  rules: Record<string, ConfigRule>,
+  problems: string[]
+): unknown {
+  if (override === undefined) {
+    return defaultValue;
+  }
+
+  if (isPlainObject(defaultValue)) {
+    if (!isPlainObject(override)) {
+      problems.push(`"${path}" must be an object; the default is kept.`);
+      return defaultValue;
+    }
+    Object.keys(override)
+      .filter(key => !(key in defaultValue))
+      .forEach(key => problems.push(`"${join(path, key)}" is not a known setting and is ignored.`));
+    const group = Object.fromEntries(
+      Object.entries(defaultValue).map(([key, value]) => [
+        key,
+        mergeValue(value, override[key], join(path, key), rules, problems)
+      ])
+    );
+    const groupProblem = rules[path]?.(group) ?? null;
+    if (groupProblem) {
+      problems.push(`"${path}" ${groupProblem}; the default is kept.`);
+      return defaultValue;
+    }
+    return group;
+  }
+
+  const typeProblem = checkType(defaultValue, override);
+  const ruleProblem = typeProblem ? null : (rules[path]?.(override) ?? null);
+  if (typeProblem || ruleProblem) {
+    problems.push(`"${path}" ${typeProblem ?? ruleProblem}; the default is kept.`);
+    return defaultValue;
+  }
+  return override;
+}
+
+/**
+ * Compare an override with the type of its default value
+ */
+function checkType(defaultValue: unknown, override: unknown): string | null {
+  if (Array.isArray(defaultValue)) {
+    const elementType = defaultValue.length ? typeof defaultValue[0] : null;
+    const valid = Array.isArray(override)
+      && (elementType === null || override.every(item => typeof item === elementType));
+    return valid ? null : `must be an array${elementType ? ` of ${elementType}s` : ''}`;
+  }
+  if (typeof override !== typeof defaultValue) {
+    return `must be a ${typeof defaultValue}`;
+  }
+  if (typeof override === 'number' && !Number.isFinite(override)) {
+    return 'must be a finite number';
+  }
+  return null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
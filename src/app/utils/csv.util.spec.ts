@@ -0,0 +1,66 @@
+import { detectDelimiter, parseCsv, toCsv } from './csv.util';
+
+describe('csv.util', () => {
+  describe('toCsv', () => {
+    it('quotes cells with delimiters, quotes or line breaks', () => {
+      expect(toCsv([['a,b', 'say "hi"', 'two\nlines', 'plain']])).toBe(
+        '"a,b","say ""hi""","two\nlines",plain'
+      );
+    });
+
+    it('joins rows with CRLF', () => {
+      expect(toCsv([['a', 1], ['b', 2]])).toBe('a,1\r\nb,2');
+    });
+
+    it('prefixes text that would run as a formula with an apostrophe', () => {
+      expect(toCsv([['=HYPERLINK("http://x")', '+SUM(A1)', '-2+cmd|x', '@A1']])).toBe(
+        `"'=HYPERLINK(""http://x"")",'+SUM(A1),'-2+cmd|x,'@A1`
+      );
+    });
+
+    it('leaves phone numbers and numbers unchanged', () => {
+      expect(toCsv([['+91 98765 43210', '+1 (555) 010-9999', '-4.5', -3]])).toBe(
+        '+91 98765 43210,+1 (555) 010-9999,-4.5,-3'
+      );
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('reads quoted fields, escaped quotes and line breaks inside quotes', () => {
+      expect(parseCsv('name,note\r\n"Kumar, Ravi","said ""hi""\nthen left"')).toEqual([
+        ['name', 'note'],
+        ['Kumar, Ravi', 'said "hi"\nthen left']
+      ]);
+    });
+
+    it('drops a byte order mark and blank lines', () => {
+      expect(parseCsv('\uFEFFa,b\n\n1,2\n')).toEqual([
+        ['a', 'b'],
+        ['1', '2']
+      ]);
+    });
+
+    it('detects semicolon and tab delimiters', () => {
+      expect(detectDelimiter('a;b;c\n1;2;3')).toBe(';');
+      expect(parseCsv('a\tb\n1\t2')).toEqual([
+        ['a', 'b'],
+        ['1', '2']
+      ]);
+    });
+  });
+
+  describe('round trip', () => {
+    it('reads back what it writes, including WhatsApp numbers', () => {
+      const rows = [
+        ['Name', 'WhatsApp', 'Outcome'],
+        ['Ravi Kumar', '+91 98765 43210', 'Placed, "junior" role'],
+        ['Priya Sharma', '+91 91234 56789', 'Two\nlines']
+      ];
+      expect(parseCsv(toCsv(rows))).toEqual(rows);
+    });
+
+    it('keeps the apostrophe on neutralized formulas', () => {
+      expect(parseCsv(toCsv([['=1+1']]))).toEqual([["'=1+1"]]);
+    });
+  });
+});
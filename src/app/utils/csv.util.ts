@@ -0,0 +1,117 @@
+/**
+ * CSV Utilities
+ *
+ * Minimal RFC 4180 reader and writer for spreadsheet imports and exports.
+ * The reader handles quoted fields, escaped quotes, line breaks inside
+ * quotes, a UTF-8 byte order mark and comma, semicolon or tab delimiters
+ * (as exported by Excel in different locales). The writer neutralizes
+ * cells that spreadsheets would run as formulas.
+ */
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Guess the delimiter from the first line of the file
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  let best = ',';
+  let bestCount = 0;
+  CANDIDATE_DELIMITERS.forEach(delimiter => {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/**
+ * Parse CSV text into rows of cells; blank lines are dropped
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+/**
+ * Text cells starting with one of these are run as formulas by spreadsheets
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Phone numbers and other numeric text, e.g. `+91 98765 43210` or `-4.5`;
+ * they cannot call functions, so they are written unchanged and survive a
+ * round trip through the importer
+ */
+const NUMERIC_TEXT = /^[+-]?[\d\s().-]+$/;
+
+/**
+ * Prefix text that a spreadsheet would run as a formula with an apostrophe
+ * (CSV injection), so user-entered names or outcomes stay plain text
+ */
+function neutralizeFormula(value: string): string {
+  return FORMULA_PREFIX.test(value) && !NUMERIC_TEXT.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Quote a cell when it contains the delimiter, quotes or line breaks
+ */
+function escapeCsvCell(value: string, delimiter: string): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+/**
+ * Serialize rows of cells to CSV text with CRLF line endings; numbers are
+ * written as they are, text is guarded against formula injection
+ */
+export function toCsv(rows: (string | number)[][], delimiter: string = ','): string {
+  return rows
+    .map(cells => cells
+      .map(cell => escapeCsvCell(typeof cell === 'number' ? String(cell) : neutralizeFormula(cell), delimiter))
+      .join(delimiter))
+    .join('\r\n');
+}
@@ -0,0 +1,24 @@
+/**
+ * Date Utilities
+ *
+ * Conversions between Date objects and the calendar dates (YYYY-MM-DD)
+ * the API uses for date-only fields. Calendar dates are read and written in
+ * local time so a picked day never shifts across a timezone boundary.
+ */
+
+/**
+ * Parse a YYYY-MM-DD date as local midnight; null when empty or invalid
+ */
+export function parseDateString(value: string | null | undefined): Date | null {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+}
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+export function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
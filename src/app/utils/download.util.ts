@@ -0,0 +1,40 @@
+/**
+ * Download Utilities
+ *
+ * Saves client-side generated files through a temporary object URL.
+ */
+
+/**
+ * Prompt the browser to save a blob under the given file name
+ */
+export function saveBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url));
+}
+
+/**
+ * Build a file name such as "participants-2025-01-31.csv"
+ */
+export function datedFileName(prefix: string, extension: string, date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return `${prefix}-${stamp}.${extension}`;
+}
+
+/**
+ * Blob holding the bytes of a base64 data URL, e.g. a chart image
+ */
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data] = dataUrl.split(',');
+  const type = /^data:([^;,]+)/.exec(header)?.[1] ?? 'application/octet-stream';
+  const bytes = Uint8Array.from(atob(data), char => char.charCodeAt(0));
+  return new Blob([bytes], { type });
+}
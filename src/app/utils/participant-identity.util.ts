@@ -0,0 +1,65 @@
+/**
+ * Participant Identity Utilities
+ *
+ * Normalizers that reduce contact details to a comparable key, so the same
+ * person is recognised across differently formatted registrations. Every
+ * function returns an empty string when there is nothing to compare.
+ */
+
+/**
+ * Compare phone numbers by their last ten digits so "+91 98765 43210"
+ * and "09876543210" match
+ */
+export function normalizePhone(phone: string | null | undefined): string {
+  const digits = (phone ?? '').replace(/\D/g, '');
+  return digits.length >= 10 ? digits.slice(-10) : '';
+}
+
+/**
+ * Lower-cased, trimmed email address
+ */
+export function normalizeEmail(email: string | null | undefined): string {
+  return (email ?? '').trim().toLowerCase();
+}
+
+/**
+ * Mailbox part of an email without dots and "+tag" suffixes, so
+ * "john.doe+course@gmail.com" and "johndoe@yahoo.com" match
+ */
+export function emailLocalPart(email: string | null | undefined): string {
+  const [local = ''] = normalizeEmail(email).split('@');
+  return local.replace(/\+.*$/, '').replace(/[._-]/g, '');
+}
+
+/**
+ * GitHub user name without profile URL or leading "@"
+ */
+export function normalizeGithub(githubId: string | null | undefined): string {
+  return (githubId ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/^(https?:\/\/)?(www\.)?github\.com\//, '')
+    .replace(/^@/, '')
+    .replace(/\/.*$/, '');
+}
+
+/**
+ * LinkedIn profile slug, ignoring protocol, subdomain, query and trailing slash
+ */
+export function normalizeLinkedin(url: string | null | undefined): string {
+  const match = (url ?? '').trim().toLowerCase().match(/linkedin\.com\/in\/([^/?#]+)/);
+  return match ? decodeURIComponent(match[1]) : '';
+}
+
+/**
+ * Lower-cased name with accents, punctuation and extra whitespace removed
+ */
+export function normalizeName(name: string | null | undefined): string {
+  return (name ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
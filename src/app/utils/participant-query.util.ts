@@ -0,0 +1,209 @@
+import { ParamMap, Params } from '@angular/router';
+
+import {
+  DEFAULT_PARTICIPANT_QUERY,
+  ParticipantQuery,
+  ParticipantSortField
+} from '../models/participant.model';
+import {
+  MissingField,
+  ParticipantCondition,
+  SkillOperator,
+  TextOperator
+} from '../models/participant-filter.model';
+import { SavedViewState } from '../models/saved-view.model';
+import { isSkillField } from '../models/skill.model';
+import { parseDateString } from './date.util';
+
+/**
+ * Participant Query Utilities
+ *
+ * Conversions of the participants list query to and from text: filter
+ * conditions as `field:operator:value` tokens, the sort as `-field`, the
+ * whole query as router query params so the list state survives reloads,
+ * can be shared as a link and follows the browser history, and the state
+ * kept by saved views. A drill-down from the dashboard adds `from` with a
+ * description of the chart element it came from.
+ */
+
+const SORT_FIELDS: readonly string[] = ['name', 'email', 'created_at', 'updated_at'];
+const SKILL_OPERATORS: readonly string[] = ['gte', 'lte', 'eq'];
+const TEXT_OPERATORS: readonly string[] = ['contains', 'equals'];
+const MISSING_FIELDS: readonly string[] = ['linkedin', 'github_id'];
+const MAX_PER_PAGE = 100;
+const MAX_ORIGIN_LENGTH = 200;
+
+/**
+ * Write a condition as a `field:operator:value` token
+ */
+export function formatCondition(condition: ParticipantCondition): string {
+  switch (condition.type) {
+    case 'skill':
+      return `${condition.field}:${condition.operator}:${condition.value}`;
+    case 'outcome':
+      return `outcome:${condition.operator}:${condition.value}`;
+    case 'created':
+      return `created_at:between:${condition.from ?? ''}..${condition.to ?? ''}`;
+    case 'missing':
+      return `${condition.field}:missing`;
+  }
+}
+
+/**
+ * Read a `field:operator:value` token; null when it is not a valid condition
+ * The value is everything after the second colon, so outcome texts may contain colons
+ */
+export function parseCondition(token: string): ParticipantCondition | null {
+  const [field, operator = '', ...rest] = token.split(':');
+  const value = rest.join(':');
+
+  if (isSkillField(field) && SKILL_OPERATORS.includes(operator)) {
+    const score = Number(value);
+    return value !== '' && Number.isInteger(score) && score >= 0 && score <= 10
+      ? { type: 'skill', field, operator: operator as SkillOperator, value: score }
+      : null;
+  }
+  if (field === 'outcome' && TEXT_OPERATORS.includes(operator)) {
+    return value.trim() ? { type: 'outcome', operator: operator as TextOperator, value } : null;
+  }
+  if (field === 'created_at' && operator === 'between') {
+    const [from = '', to = ''] = value.split('..');
+    const bound = (date: string) => (parseDateString(date) ? date : null);
+    return bound(from) || bound(to) ? { type: 'created', from: bound(from), to: bound(to) } : null;
+  }
+  if (MISSING_FIELDS.includes(field) && operator === 'missing' && !value) {
+    return { type: 'missing', field: field as MissingField };
+  }
+  return null;
+}
+
+/**
+ * Write the sort of a query as the API expects it: `field` or `-field`;
+ * empty when the list is unsorted
+ */
+export function formatSort(query: Pick<ParticipantQuery, 'sortField' | 'sortDirection'>): string {
+  if (!query.sortField) {
+    return '';
+  }
+  return `${query.sortDirection === 'desc' ? '-' : ''}${query.sortField}`;
+}
+
+/**
+ * Read a sort written by `formatSort`; unknown fields leave the list unsorted
+ */
+export function parseSort(sort: string): Pick<ParticipantQuery, 'sortField' | 'sortDirection'> {
+  const field = sort.replace(/^-/, '');
+  if (!SORT_FIELDS.includes(field) && !isSkillField(field)) {
+    return { sortField: undefined, sortDirection: undefined };
+  }
+  return { sortField: field as ParticipantSortField, sortDirection: sort.startsWith('-') ? 'desc' : 'asc' };
+}
+
+/**
+ * Router query params describing a list query; defaults are left out to keep links short
+ */
+export function queryToParams(query: ParticipantQuery): Params {
+  const params: Params = {};
+  if (query.page !== DEFAULT_PARTICIPANT_QUERY.page) {
+    params['page'] = query.page;
+  }
+  if (query.perPage !== DEFAULT_PARTICIPANT_QUERY.perPage) {
+    params['per_page'] = query.perPage;
+  }
+  const sort = formatSort(query);
+  if (sort !== formatSort(DEFAULT_PARTICIPANT_QUERY)) {
+    params['sort'] = sort;
+  }
+  const search = query.search?.trim();
+  if (search) {
+    params['search'] = search;
+  }
+  const conditions = query.conditions ?? [];
+  if (conditions.length) {
+    params['where'] = conditions.map(formatCondition);
+    if (query.match === 'any') {
+      params['match'] = 'any';
+    }
+  }
+  if (query.origin) {
+    params['from'] = query.origin;
+  }
+  return params;
+}
+
+/**
+ * List query described by router query params
+ * Invalid or unknown values fall back to the defaults, so hand-edited links still open
+ */
+export function queryFromParams(params: ParamMap): ParticipantQuery {
+  const query: ParticipantQuery = { ...DEFAULT_PARTICIPANT_QUERY };
+
+  const page = positiveInteger(params.get('page'));
+  if (page) {
+    query.page = page;
+  }
+  const perPage = positiveInteger(params.get('per_page'));
+  if (perPage) {
+    query.perPage = Math.min(perPage, MAX_PER_PAGE);
+  }
+
+  const sort = params.get('sort');
+  if (sort !== null) {
+    Object.assign(query, parseSort(sort));
+  }
+
+  const search = params.get('search')?.trim();
+  if (search) {
+    query.search = search;
+  }
+
+  const conditions = params.getAll('where')
+    .map(parseCondition)
+    .filter((condition): condition is ParticipantCondition => !!condition);
+  if (conditions.length) {
+    query.conditions = conditions;
+    query.match = params.get('match') === 'any' ? 'any' : 'all';
+  }
+
+  const origin = params.get('from')?.trim().slice(0, MAX_ORIGIN_LENGTH);
+  if (origin) {
+    query.origin = origin;
+  }
+
+  return query;
+}
+
+/**
+ * State saved by a view for a list query and its visible columns
+ */
+export function viewStateFromQuery(query: ParticipantQuery, columns: string[] | null): SavedViewState {
+  const conditions = (query.conditions ?? []).map(formatCondition);
+  return {
+    search: query.search?.trim() ?? '',
+    sort: formatSort(query),
+    match: conditions.length ? query.match ?? 'all' : 'all',
+    conditions,
+    columns
+  };
+}
+
+/**
+ * First page of the list query a view describes
+ */
+export function queryFromViewState(state: SavedViewState): ParticipantQuery {
+  const conditions = state.conditions
+    .map(parseCondition)
+    .filter((condition): condition is ParticipantCondition => !!condition);
+  return {
+    ...DEFAULT_PARTICIPANT_QUERY,
+    ...parseSort(state.sort),
+    search: state.search || undefined,
+    conditions: conditions.length ? conditions : undefined,
+    match: conditions.length ? state.match : undefined
+  };
+}
+
+function positiveInteger(value: string | null): number | null {
+  const number = Number(value);
+  return value && Number.isInteger(number) && number > 0 ? number : null;
+}
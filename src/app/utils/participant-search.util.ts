@@ -0,0 +1,267 @@
+import { Participant } from '../models/participant.model';
+import { SkillField, skillField, skillScore } from '../models/skill.model';
+import { typoDistance } from './text-similarity.util';
+
+/**
+ * Participant Search Utilities
+ *
+ * Search syntax of the participants list, the relevance ranking behind it
+ * and the ranges to highlight in matching cells:
+ * - every word must match name, email, WhatsApp (digits only), GitHub ID,
+ *   LinkedIn or outcome; words of four or more characters may contain a typo
+ * - `"ravi kumar"` matches the words together
+ * - `email:gmail` limits a word to one field (`name`, `email`, `whatsapp`
+ *   or `phone`, `github`, `linkedin`, `outcome`)
+ * - `python:>6` compares a skill score with `>`, `>=`, `<`, `<=` or `=`;
+ *   only skills of the catalog count, so `room:5` stays plain text
+ *
+ * The mock backend ranks with these functions; a real API is expected to
+ * understand the same syntax.
+ */
+
+/**
+ * Participant fields covered by the free text search
+ */
+export type SearchField = 'name' | 'email' | 'whatsapp' | 'github_id' | 'linkedin' | 'outcome';
+
+export type ScoreComparison = '>' | '>=' | '<' | '<=' | '=';
+
+/**
+ * Word or phrase to find, in one field or in all of them
+ */
+export interface SearchTerm {
+  text: string;
+  field: SearchField | null;
+}
+
+/**
+ * Skill score comparison such as `python:>6`
+ */
+export interface SkillTerm {
+  field: SkillField;
+  comparison: ScoreComparison;
+  value: number;
+}
+
+/**
+ * Search text split into terms
+ */
+export interface ParsedSearch {
+  terms: SearchTerm[];
+  skills: SkillTerm[];
+}
+
+/**
+ * Range of characters to highlight, end exclusive
+ */
+export type MatchRange = [start: number, end: number];
+
+const SEARCH_FIELDS: readonly SearchField[] = ['name', 'email', 'whatsapp', 'github_id', 'linkedin', 'outcome'];
+
+// A match in the name counts most, one in the free text outcome least
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  email: 2,
+  whatsapp: 2,
+  github_id: 2,
+  linkedin: 1,
+  outcome: 1
+};
+
+// Field prefixes accepted in `field:word`
+const FIELD_PREFIXES: Record<string, SearchField> = {
+  name: 'name',
+  email: 'email',
+  whatsapp: 'whatsapp',
+  phone: 'whatsapp',
+  github: 'github_id',
+  github_id: 'github_id',
+  linkedin: 'linkedin',
+  outcome: 'outcome'
+};
+
+// How well a term matches a field value
+const EXACT_WORD = 1;
+const WORD_PREFIX = 0.8;
+const SUBSTRING = 0.6;
+const TYPO = 0.4;
+
+// Optional `field:` prefix, then a quoted phrase or a single word
+const TOKEN_PATTERN = /(?:([a-z][\w]*):)?(?:"([^"]*)"|(\S+))/gi;
+const COMPARISON_PATTERN = /^(>=|<=|>|<|=)?(\d+(?:\.\d+)?)$/;
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+// Phone searches need a few digits, otherwise every number matches
+const MIN_PHONE_DIGITS = 3;
+
+/**
+ * Split search text into terms; a prefix that is neither a field nor a skill
+ * of `skillFields` followed by a score comparison stays part of the word
+ * (e.g. `https://...` or `room:5`)
+ */
+export function parseSearch(search: string, skillFields: readonly SkillField[]): ParsedSearch {
+  const parsed: ParsedSearch = { terms: [], skills: [] };
+
+  for (const [, prefix, quoted, word] of search.matchAll(TOKEN_PATTERN)) {
+    const text = (quoted ?? word).trim().toLowerCase();
+    const key = prefix?.toLowerCase();
+    const field = key ? FIELD_PREFIXES[key] ?? null : null;
+    const skill = key && !field && skillFields.includes(skillField(key)) ? skillField(key) : null;
+    const comparison = skill ? COMPARISON_PATTERN.exec(text) : null;
+
+    if (skill && comparison) {
+      parsed.skills.push({
+        field: skill,
+        comparison: (comparison[1] ?? '=') as ScoreComparison,
+        value: Number(comparison[2])
+      });
+    } else if (text) {
+      parsed.terms.push({ text: key && !field ? `${key}:${text}` : text, field });
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Whether a parsed search has nothing to look for
+ */
+export function isEmptySearch(search: ParsedSearch): boolean {
+  return search.terms.length === 0 && search.skills.length === 0;
+}
+
+/**
+ * Relevance of a participant for a search, 0 when it does not match
+ * Every skill comparison and every term must match; better and more
+ * important matches rank higher
+ */
+export function searchScore(participant: Participant, search: ParsedSearch): number {
+  if (!search.skills.every(term => compareScore(skillScore(participant, term.field), term))) {
+    return 0;
+  }
+
+  let total = 0;
+  for (const term of search.terms) {
+    const fields = term.field ? [term.field] : SEARCH_FIELDS;
+    const best = Math.max(
+      ...fields.map(field => termScore(term.text, participant[field] ?? '', field) * FIELD_WEIGHTS[field])
+    );
+    if (best === 0) {
+      return 0;
+    }
+    total += best;
+  }
+  return search.terms.length ? total : 1;
+}
+
+/**
+ * Character ranges of a field value matched by the search, sorted and merged
+ */
+export function matchRanges(value: string, field: SearchField, search: ParsedSearch): MatchRange[] {
+  const ranges = search.terms
+    .filter(term => !term.field || term.field === field)
+    .flatMap(term => (field === 'whatsapp' ? phoneRanges(value, term.text) : textRanges(value, term.text)))
+    .sort((a, b) => a[0] - b[0]);
+
+  return ranges.reduce<MatchRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+    return merged;
+  }, []);
+}
+
+function compareScore(score: number, term: SkillTerm): boolean {
+  switch (term.comparison) {
+    case '>':
+      return score > term.value;
+    case '>=':
+      return score >= term.value;
+    case '<':
+      return score < term.value;
+    case '<=':
+      return score <= term.value;
+    case '=':
+      return score === term.value;
+  }
+}
+
+function termScore(term: string, value: string, field: SearchField): number {
+  if (field === 'whatsapp') {
+    return phoneScore(term, value);
+  }
+
+  const text = value.toLowerCase();
+  const words: string[] = text.match(WORD_PATTERN) ?? [];
+  if (words.includes(term) || text === term) {
+    return EXACT_WORD;
+  }
+  if (words.some(word => word.startsWith(term)) || text.startsWith(term)) {
+    return WORD_PREFIX;
+  }
+  if (text.includes(term)) {
+    return SUBSTRING;
+  }
+  return words.some(word => isTypo(term, word)) ? TYPO : 0;
+}
+
+function phoneScore(term: string, value: string): number {
+  const digits = phoneDigits(term);
+  if (!digits) {
+    return 0;
+  }
+  const number = value.replace(/\D/g, '');
+  if (number === digits) {
+    return EXACT_WORD;
+  }
+  return number.includes(digits) ? SUBSTRING : 0;
+}
+
+/**
+ * Digits of a phone number search, or '' when the term is not one
+ */
+function phoneDigits(term: string): string {
+  const digits = term.replace(/\D/g, '');
+  return /^[+\d\s\-()]+$/.test(term) && digits.length >= MIN_PHONE_DIGITS ? digits : '';
+}
+
+/**
+ * Whether a word is the term with a typo: one edit for short terms, two for
+ * long ones, also when the word continues after the term
+ */
+function isTypo(term: string, word: string): boolean {
+  if (term.length < 4) {
+    return false;
+  }
+  const allowed = term.length >= 8 ? 2 : 1;
+  return typoDistance(term, word) <= allowed || typoDistance(term, word.slice(0, term.length)) <= allowed;
+}
+
+function textRanges(value: string, term: string): MatchRange[] {
+  const text = value.toLowerCase();
+  const ranges: MatchRange[] = [];
+  for (let index = text.indexOf(term); index !== -1; index = text.indexOf(term, index + term.length)) {
+    ranges.push([index, index + term.length]);
+  }
+  if (ranges.length) {
+    return ranges;
+  }
+
+  // No literal match: highlight the words that match with a typo
+  return [...text.matchAll(WORD_PATTERN)]
+    .filter(match => isTypo(term, match[0]))
+    .map(match => [match.index, match.index + match[0].length]);
+}
+
+function phoneRanges(value: string, term: string): MatchRange[] {
+  const digits = phoneDigits(term);
+  if (!digits) {
+    return [];
+  }
+  // Positions of the digits in the formatted number
+  const positions = [...value.matchAll(/\d/g)].map(match => match.index);
+  const start = positions.map(position => value[position]).join('').indexOf(digits);
+  return start === -1 ? [] : [[positions[start], positions[start + digits.length - 1] + 1]];
+}
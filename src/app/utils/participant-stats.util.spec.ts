@@ -0,0 +1,354 @@
+import { Participant } from '../models/participant.model';
+import { SkillField } from '../models/skill.model';
+import {
+  averageSkill,
+  correlationMatrix,
+  mean,
+  median,
+  participantStats,
+  pearsonCorrelation,
+  percentile,
+  registeredBetween,
+  registrationTrend,
+  skillBandOf,
+  skillBands,
+  skillCorrelation,
+  skillStatistics,
+  standardDeviation
+} from './participant-stats.util';
+
+const PYTHON: SkillField = 'python_skill';
+const ANGULAR: SkillField = 'angular_skill';
+const JAVA: SkillField = 'java_skill';
+
+let nextId = 1;
+
+function participant(scores: Partial<Record<SkillField, number>>, createdAt = '2025-03-10T09:00:00'): Participant {
+  const id = nextId++;
+  return {
+    id,
+    name: `Participant ${id}`,
+    whatsapp: '+91 90000 00000',
+    email: `participant${id}@example.com`,
+    linkedin: '',
+    github_id: '',
+    outcome: '',
+    cohort_id: null,
+    created_at: createdAt,
+    updated_at: createdAt,
+    ...scores
+  };
+}
+
+describe('participant-stats.util', () => {
+  describe('mean', () => {
+    it('averages the values', () => {
+      expect(mean([2, 4, 9])).toBe(5);
+    });
+
+    it('is 0 for no values', () => {
+      expect(mean([])).toBe(0);
+    });
+  });
+
+  describe('median', () => {
+    it('takes the middle of an odd count', () => {
+      expect(median([9, 1, 5])).toBe(5);
+    });
+
+    it('averages the two middle values of an even count', () => {
+      expect(median([8, 2, 4, 6])).toBe(5);
+    });
+
+    it('is 0 for no values', () => {
+      expect(median([])).toBe(0);
+    });
+  });
+
+  describe('standardDeviation', () => {
+    it('computes the population standard deviation', () => {
+      expect(standardDeviation([2, 4, 4, 4, 5, 5, 7, 9])).toBe(2);
+    });
+
+    it('is 0 for equal values, a single value and no values', () => {
+      expect(standardDeviation([6, 6, 6])).toBe(0);
+      expect(standardDeviation([6])).toBe(0);
+      expect(standardDeviation([])).toBe(0);
+    });
+  });
+
+  describe('percentile', () => {
+    const values = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+    it('returns the smallest and largest value at 0 and 100', () => {
+      expect(percentile(values, 0)).toBe(1);
+      expect(percentile(values, 100)).toBe(10);
+    });
+
+    it('interpolates between the closest ranks', () => {
+      expect(percentile(values, 25)).toBeCloseTo(3.25, 10);
+      expect(percentile(values, 90)).toBeCloseTo(9.1, 10);
+    });
+
+    it('does not depend on the order of the values', () => {
+      expect(percentile([10, 1, 7, 4], 50)).toBe(5.5);
+    });
+
+    it('is 0 for no values', () => {
+      expect(percentile([], 75)).toBe(0);
+    });
+
+    it('rejects percentiles outside 0-100', () => {
+      expect(() => percentile(values, -1)).toThrowError(RangeError);
+      expect(() => percentile(values, 101)).toThrowError(RangeError);
+    });
+  });
+
+  describe('pearsonCorrelation', () => {
+    it('is 1 for values rising together and -1 for values moving apart', () => {
+      expect(pearsonCorrelation([1, 2, 3, 4], [2, 4, 6, 8])).toBe(1);
+      expect(pearsonCorrelation([1, 2, 3, 4], [8, 6, 4, 2])).toBe(-1);
+    });
+
+    it('measures a partial relation', () => {
+      expect(pearsonCorrelation([1, 2, 3, 4, 5], [2, 1, 4, 3, 5])).toBeCloseTo(0.8, 10);
+    });
+
+    it('is null for fewer than two pairs or values that do not vary', () => {
+      expect(pearsonCorrelation([], [])).toBeNull();
+      expect(pearsonCorrelation([5], [7])).toBeNull();
+      expect(pearsonCorrelation([5, 5, 5], [1, 2, 3])).toBeNull();
+    });
+
+    it('rejects unpaired values', () => {
+      expect(() => pearsonCorrelation([1, 2], [1])).toThrowError(RangeError);
+    });
+  });
+
+  describe('skillBands', () => {
+    it('splits 1-10 into 1-3, 4-6 and 7-10 by default', () => {
+      expect(skillBands()).toEqual({
+        low: { label: 'Low (1-3)', min: 1, max: 3 },
+        medium: { label: 'Medium (4-6)', min: 4, max: 6 },
+        high: { label: 'High (7-10)', min: 7, max: 10 }
+      });
+    });
+
+    it('follows configured thresholds', () => {
+      const bands = skillBands({ medium: 2, high: 9 });
+      expect(bands.low).toEqual({ label: 'Low (1)', min: 1, max: 1 });
+      expect(bands.medium).toEqual({ label: 'Medium (2-8)', min: 2, max: 8 });
+      expect(bands.high).toEqual({ label: 'High (9-10)', min: 9, max: 10 });
+    });
+
+    it('rejects thresholds that leave a band empty', () => {
+      expect(() => skillBands({ medium: 1, high: 7 })).toThrowError(RangeError);
+      expect(() => skillBands({ medium: 7, high: 7 })).toThrowError(RangeError);
+      expect(() => skillBands({ medium: 4, high: 11 })).toThrowError(RangeError);
+    });
+  });
+
+  describe('skillBandOf', () => {
+    it('places scores on the band boundaries', () => {
+      expect(skillBandOf(1)).toBe('low');
+      expect(skillBandOf(3)).toBe('low');
+      expect(skillBandOf(4)).toBe('medium');
+      expect(skillBandOf(6)).toBe('medium');
+      expect(skillBandOf(7)).toBe('high');
+      expect(skillBandOf(10)).toBe('high');
+    });
+
+    it('has no band for "not specified"', () => {
+      expect(skillBandOf(0)).toBeNull();
+    });
+
+    it('follows configured thresholds', () => {
+      expect(skillBandOf(6, { medium: 3, high: 6 })).toBe('high');
+      expect(skillBandOf(2, { medium: 3, high: 6 })).toBe('low');
+    });
+  });
+
+  describe('averageSkill', () => {
+    it('leaves out "not specified" and rounds to one decimal', () => {
+      const participants = [5, 6, 6, 0].map(score => participant({ [PYTHON]: score }));
+      expect(averageSkill(participants, PYTHON)).toBe(5.7);
+    });
+
+    it('treats a missing score as "not specified"', () => {
+      expect(averageSkill([participant({})], PYTHON)).toBe(0);
+    });
+  });
+
+  describe('skillStatistics', () => {
+    it('describes the scores of one skill', () => {
+      const participants = [2, 4, 4, 4, 5, 5, 7, 9].map(score => participant({ [PYTHON]: score }));
+      const statistics = skillStatistics(participants, PYTHON);
+
+      expect(statistics.scored).toBe(8);
+      expect(statistics.notSpecified).toBe(0);
+      expect(statistics.mean).toBe(5);
+      expect(statistics.median).toBe(4.5);
+      expect(statistics.standardDeviation).toBe(2);
+      expect(statistics.percentiles).toEqual({ p25: 4, p75: 5.5, p90: 7.6 });
+      expect(statistics.bands).toEqual({ low: 1, medium: 5, high: 2 });
+    });
+
+    it('counts "not specified" separately from the scores', () => {
+      const participants = [participant({ [PYTHON]: 8 }), participant({ [PYTHON]: 0 }), participant({})];
+      const statistics = skillStatistics(participants, PYTHON);
+
+      expect(statistics.scored).toBe(1);
+      expect(statistics.notSpecified).toBe(2);
+      expect(statistics.mean).toBe(8);
+      expect(statistics.median).toBe(8);
+      expect(statistics.standardDeviation).toBe(0);
+      expect(statistics.bands).toEqual({ low: 0, medium: 0, high: 1 });
+    });
+
+    it('returns complete zero statistics for no participants', () => {
+      expect(skillStatistics([], PYTHON)).toEqual({
+        scored: 0,
+        notSpecified: 0,
+        mean: 0,
+        median: 0,
+        standardDeviation: 0,
+        percentiles: { p25: 0, p75: 0, p90: 0 },
+        bands: { low: 0, medium: 0, high: 0 }
+      });
+    });
+
+    it('bands the scores at configured thresholds', () => {
+      const participants = [1, 2, 5, 6, 9].map(score => participant({ [PYTHON]: score }));
+      expect(skillStatistics(participants, PYTHON, { medium: 2, high: 6 }).bands)
+        .toEqual({ low: 1, medium: 2, high: 2 });
+    });
+  });
+
+  describe('participantStats', () => {
+    it('counts everyone and keys the statistics by skill field', () => {
+      const participants = [participant({ [PYTHON]: 3, [ANGULAR]: 0 }), participant({ [PYTHON]: 9, [ANGULAR]: 6 })];
+      const stats = participantStats(participants, [PYTHON, ANGULAR]);
+
+      expect(stats.totalCount).toBe(2);
+      expect(Object.keys(stats.skills)).toEqual([PYTHON, ANGULAR]);
+      expect(stats.skills[PYTHON]?.mean).toBe(6);
+      expect(stats.skills[ANGULAR]?.scored).toBe(1);
+      expect(stats.skills[ANGULAR]?.notSpecified).toBe(1);
+    });
+
+    it('has no skill statistics without skills', () => {
+      expect(participantStats([participant({ [PYTHON]: 5 })], [])).toEqual({ totalCount: 1, skills: {} });
+    });
+  });
+
+  describe('skillCorrelation', () => {
+    it('only pairs participants scored in both skills', () => {
+      const participants = [
+        participant({ [PYTHON]: 2, [JAVA]: 3 }),
+        participant({ [PYTHON]: 5, [JAVA]: 6 }),
+        participant({ [PYTHON]: 8, [JAVA]: 9 }),
+        participant({ [PYTHON]: 9, [JAVA]: 0 }),
+        participant({ [JAVA]: 1 })
+      ];
+
+      expect(skillCorrelation(participants, PYTHON, JAVA)).toEqual({ x: PYTHON, y: JAVA, coefficient: 1, pairs: 3 });
+    });
+
+    it('rounds the coefficient to two decimals', () => {
+      const participants = [[1, 1], [2, 3], [3, 2], [4, 4]].map(([python, java]) =>
+        participant({ [PYTHON]: python, [JAVA]: java })
+      );
+      expect(skillCorrelation(participants, PYTHON, JAVA).coefficient).toBe(0.8);
+    });
+
+    it('has no coefficient without enough pairs', () => {
+      const participants = [participant({ [PYTHON]: 4, [JAVA]: 6 }), participant({ [PYTHON]: 7 })];
+      expect(skillCorrelation(participants, PYTHON, JAVA)).toEqual({ x: PYTHON, y: JAVA, coefficient: null, pairs: 1 });
+    });
+  });
+
+  describe('correlationMatrix', () => {
+    const participants = [
+      participant({ [PYTHON]: 2, [ANGULAR]: 8, [JAVA]: 3 }),
+      participant({ [PYTHON]: 5, [ANGULAR]: 5, [JAVA]: 6 }),
+      participant({ [PYTHON]: 8, [ANGULAR]: 2, [JAVA]: 9 })
+    ];
+
+    it('compares every skill with every skill, in field order', () => {
+      const matrix = correlationMatrix(participants, [PYTHON, ANGULAR, JAVA]);
+
+      expect(matrix.length).toBe(3);
+      expect(matrix.every(row => row.length === 3)).toBeTrue();
+      expect(matrix[0][1].x).toBe(PYTHON);
+      expect(matrix[0][1].y).toBe(ANGULAR);
+      expect(matrix[0][1].coefficient).toBe(-1);
+      expect(matrix[0][2].coefficient).toBe(1);
+    });
+
+    it('is symmetric with a diagonal of 1', () => {
+      const matrix = correlationMatrix(participants, [PYTHON, ANGULAR, JAVA]);
+
+      expect(matrix.map((row, i) => row[i].coefficient)).toEqual([1, 1, 1]);
+      expect(matrix[2][1]).toEqual({ x: JAVA, y: ANGULAR, coefficient: matrix[1][2].coefficient, pairs: 3 });
+    });
+
+    it('is empty without skills', () => {
+      expect(correlationMatrix(participants, [])).toEqual([]);
+    });
+  });
+
+  describe('registeredBetween', () => {
+    const participants = [
+      participant({}, '2025-03-01T08:00:00'),
+      participant({}, '2025-03-15T23:30:00'),
+      participant({}, '2025-04-02T10:00:00')
+    ];
+
+    it('includes both calendar dates', () => {
+      expect(registeredBetween(participants, new Date(2025, 2, 1), new Date(2025, 2, 15)).length).toBe(2);
+    });
+
+    it('leaves an open end unbounded', () => {
+      expect(registeredBetween(participants, new Date(2025, 2, 2), null).length).toBe(2);
+      expect(registeredBetween(participants, null, new Date(2025, 2, 31)).length).toBe(2);
+      expect(registeredBetween(participants, null, null).length).toBe(3);
+    });
+  });
+
+  describe('registrationTrend', () => {
+    const participants = [
+      participant({ [PYTHON]: 4 }, '2025-01-06T10:00:00'),
+      participant({ [PYTHON]: 8 }, '2025-01-20T10:00:00'),
+      participant({ [PYTHON]: 0 }, '2025-03-03T10:00:00')
+    ];
+
+    it('groups registrations per month, including months without any', () => {
+      const trend = registrationTrend(participants, 'month', [PYTHON]);
+
+      expect(trend.map(period => period.registrations)).toEqual([2, 0, 1]);
+      expect(trend.map(period => period.cumulative)).toEqual([2, 2, 3]);
+      expect(trend.map(period => period.averageSkills[PYTHON])).toEqual([6, 0, 0]);
+      expect(trend[0].start).toEqual(new Date(2025, 0, 1));
+      expect(trend[0].end).toEqual(new Date(2025, 0, 31));
+    });
+
+    it('starts weeks on Monday', () => {
+      const trend = registrationTrend([participant({}, '2025-01-12T10:00:00')], 'week', []);
+
+      expect(trend.length).toBe(1);
+      expect(trend[0].start).toEqual(new Date(2025, 0, 6));
+      expect(trend[0].end).toEqual(new Date(2025, 0, 12));
+    });
+
+    it('covers the given range even where nobody registered', () => {
+      const trend = registrationTrend([], 'day', [], new Date(2025, 0, 30), new Date(2025, 1, 2));
+
+      expect(trend.map(period => period.start.getDate())).toEqual([30, 31, 1, 2]);
+      expect(trend.every(period => period.registrations === 0)).toBeTrue();
+    });
+
+    it('is empty without participants or a range', () => {
+      expect(registrationTrend([], 'month', [PYTHON])).toEqual([]);
+    });
+  });
+});
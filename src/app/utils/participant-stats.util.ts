@@ -0,0 +1,342 @@
+import { Participant, ParticipantStats, SkillCorrelation, SkillStatistics } from '../models/participant.model';
+import {
+  DEFAULT_SKILL_BAND_THRESHOLDS,
+  SkillBand,
+  SkillBandThresholds,
+  SkillField,
+  skillScore
+} from '../models/skill.model';
+import { toDateString } from './date.util';
+
+/**
+ * Participant Statistics Utilities
+ *
+ * Skill and registration statistics shared by the dashboard and the
+ * participant profile, as pure functions of a list of participants. A score
+ * of 0 means "not specified": it is counted on its own and left out of
+ * averages, medians, spreads, percentiles and bands. Functions of plain
+ * numbers return 0 for an empty list, and statistics shown to users are
+ * rounded to one decimal.
+ */
+
+/**
+ * Label and inclusive score range of one skill band
+ */
+export interface SkillBandRange {
+  label: string;
+  min: number;
+  max: number;
+}
+
+/**
+ * Bands in display order
+ */
+export const SKILL_BAND_ORDER: readonly SkillBand[] = ['low', 'medium', 'high'];
+
+/**
+ * Arithmetic mean
+ */
+export function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * Middle value; the mean of the two middle values for an even count
+ */
+export function median(values: number[]): number {
+  return percentile(values, 50);
+}
+
+/**
+ * Population standard deviation
+ */
+export function standardDeviation(values: number[]): number {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+}
+
+/**
+ * Percentile (0-100) interpolated linearly between the closest ranks, as
+ * spreadsheet PERCENTILE.INC does
+ */
+export function percentile(values: number[], p: number): number {
+  if (p < 0 || p > 100) {
+    throw new RangeError(`Percentile must be between 0 and 100, got ${p}`);
+  }
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Pearson correlation of paired values; null for fewer than two pairs or
+ * when either side does not vary
+ */
+export function pearsonCorrelation(xs: number[], ys: number[]): number | null {
+  if (xs.length !== ys.length) {
+    throw new RangeError(`Correlation needs paired values, got ${xs.length} and ${ys.length}`);
+  }
+  if (xs.length < 2) {
+    return null;
+  }
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  });
+  if (varianceX === 0 || varianceY === 0) {
+    return null;
+  }
+  // Rounding errors can push a perfect correlation just past ±1
+  return Math.max(-1, Math.min(1, covariance / Math.sqrt(varianceX * varianceY)));
+}
+
+/**
+ * Score ranges and labels of the bands split at the given thresholds
+ */
+export function skillBands(thresholds: SkillBandThresholds = DEFAULT_SKILL_BAND_THRESHOLDS): Record<SkillBand, SkillBandRange> {
+  const { medium, high } = thresholds;
+  if (!(medium >= 2 && medium < high && high <= 10)) {
+    throw new RangeError(`Invalid skill bands: medium starts at ${medium}, high at ${high}`);
+  }
+  const band = (label: string, min: number, max: number): SkillBandRange => ({
+    label: `${label} (${min === max ? min : `${min}-${max}`})`,
+    min,
+    max
+  });
+  return {
+    low: band('Low', 1, medium - 1),
+    medium: band('Medium', medium, high - 1),
+    high: band('High', high, 10)
+  };
+}
+
+/**
+ * Band of a score; null for 0 ("not specified")
+ */
+export function skillBandOf(
+  score: number,
+  thresholds: SkillBandThresholds = DEFAULT_SKILL_BAND_THRESHOLDS
+): SkillBand | null {
+  if (score <= 0) {
+    return null;
+  }
+  return score >= thresholds.high ? 'high' : score >= thresholds.medium ? 'medium' : 'low';
+}
+
+/**
+ * Average score of one skill rounded to one decimal, 0 when nobody has a score
+ */
+export function averageSkill(participants: Participant[], field: SkillField): number {
+  return round(mean(scoresOf(participants, field)));
+}
+
+/**
+ * Statistics of one skill over a list of participants
+ */
+export function skillStatistics(
+  participants: Participant[],
+  field: SkillField,
+  thresholds: SkillBandThresholds = DEFAULT_SKILL_BAND_THRESHOLDS
+): SkillStatistics {
+  const scores = scoresOf(participants, field);
+  const bands: Record<SkillBand, number> = { low: 0, medium: 0, high: 0 };
+  scores.forEach(score => {
+    const band = skillBandOf(score, thresholds);
+    if (band) {
+      bands[band]++;
+    }
+  });
+
+  return {
+    scored: scores.length,
+    notSpecified: participants.length - scores.length,
+    mean: round(mean(scores)),
+    median: round(median(scores)),
+    standardDeviation: round(standardDeviation(scores)),
+    percentiles: {
+      p25: round(percentile(scores, 25)),
+      p75: round(percentile(scores, 75)),
+      p90: round(percentile(scores, 90))
+    },
+    bands
+  };
+}
+
+/**
+ * Dashboard statistics of the given skills over a list of participants
+ */
+export function participantStats(
+  participants: Participant[],
+  fields: SkillField[],
+  thresholds: SkillBandThresholds = DEFAULT_SKILL_BAND_THRESHOLDS
+): ParticipantStats {
+  return {
+    totalCount: participants.length,
+    skills: Object.fromEntries(fields.map(field => [field, skillStatistics(participants, field, thresholds)]))
+  };
+}
+
+/**
+ * Correlation of the scores of two skills over the participants scored in both
+ */
+export function skillCorrelation(participants: Participant[], x: SkillField, y: SkillField): SkillCorrelation {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  participants.forEach(p => {
+    const scoreX = skillScore(p, x);
+    const scoreY = skillScore(p, y);
+    if (scoreX > 0 && scoreY > 0) {
+      xs.push(scoreX);
+      ys.push(scoreY);
+    }
+  });
+  const coefficient = pearsonCorrelation(xs, ys);
+  return { x, y, coefficient: coefficient === null ? null : Math.round(coefficient * 100) / 100, pairs: xs.length };
+}
+
+/**
+ * Correlations of every pair of skills; row `i`, column `j` compares
+ * `fields[i]` with `fields[j]`, and each pair is computed once
+ */
+export function correlationMatrix(participants: Participant[], fields: SkillField[]): SkillCorrelation[][] {
+  const matrix: SkillCorrelation[][] = fields.map(() => []);
+  fields.forEach((x, i) => {
+    for (let j = i; j < fields.length; j++) {
+      const correlation = skillCorrelation(participants, x, fields[j]);
+      matrix[i][j] = correlation;
+      matrix[j][i] = { ...correlation, x: fields[j], y: x };
+    }
+  });
+  return matrix;
+}
+
+/**
+ * Grouping of registrations in the trend charts
+ */
+export type TrendGranularity = 'day' | 'week' | 'month';
+
+/**
+ * Registrations of one day, week or month
+ *
+ * @property {Date} start - First day of the period (weeks start on Monday)
+ * @property {Date} end - Last day of the period
+ * @property {number} registrations - Participants registered in the period
+ * @property {number} cumulative - Registrations up to and including the period
+ * @property {Record<SkillField, number>} averageSkills - Average score of the period's intake, 0 when nobody has one
+ */
+export interface IntakePeriod {
+  start: Date;
+  end: Date;
+  registrations: number;
+  cumulative: number;
+  averageSkills: Partial<Record<SkillField, number>>;
+}
+
+/**
+ * Participants registered between two calendar dates, both included; an open end is unbounded
+ */
+export function registeredBetween(participants: Participant[], from: Date | null, to: Date | null): Participant[] {
+  const first = from ? toDateString(from) : null;
+  const last = to ? toDateString(to) : null;
+  return participants.filter(p => {
+    const day = toDateString(new Date(p.created_at));
+    return (!first || day >= first) && (!last || day <= last);
+  });
+}
+
+/**
+ * Registrations per period, including periods without any, from the first
+ * to the last registration or over the given range
+ */
+export function registrationTrend(
+  participants: Participant[],
+  granularity: TrendGranularity,
+  fields: SkillField[],
+  from: Date | null = null,
+  to: Date | null = null
+): IntakePeriod[] {
+  const times = participants.map(p => new Date(p.created_at).getTime());
+  if (times.length === 0 && !(from && to)) {
+    return [];
+  }
+
+  const first = periodStart(from ?? new Date(times.reduce((min, time) => Math.min(min, time))), granularity);
+  const last = periodStart(to ?? new Date(times.reduce((max, time) => Math.max(max, time))), granularity);
+
+  const intakes = new Map<number, Participant[]>();
+  participants.forEach((p, index) => {
+    const key = periodStart(new Date(times[index]), granularity).getTime();
+    const intake = intakes.get(key);
+    if (intake) {
+      intake.push(p);
+    } else {
+      intakes.set(key, [p]);
+    }
+  });
+
+  const periods: IntakePeriod[] = [];
+  let cumulative = 0;
+  for (let start = first; start <= last; start = nextPeriod(start, granularity)) {
+    const intake = intakes.get(start.getTime()) ?? [];
+    cumulative += intake.length;
+    const next = nextPeriod(start, granularity);
+    periods.push({
+      start,
+      end: new Date(next.getFullYear(), next.getMonth(), next.getDate() - 1),
+      registrations: intake.length,
+      cumulative,
+      averageSkills: Object.fromEntries(fields.map(field => [field, averageSkill(intake, field)]))
+    });
+  }
+  return periods;
+}
+
+/**
+ * Local midnight of the first day of the period containing a date
+ */
+function periodStart(date: Date, granularity: TrendGranularity): Date {
+  switch (granularity) {
+    case 'day':
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    case 'week':
+      // getDay() is 0 for Sunday; weeks start on Monday
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+    case 'month':
+      return new Date(date.getFullYear(), date.getMonth(), 1);
+  }
+}
+
+function nextPeriod(start: Date, granularity: TrendGranularity): Date {
+  switch (granularity) {
+    case 'day':
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+    case 'week':
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7);
+    case 'month':
+      return new Date(start.getFullYear(), start.getMonth() + 1, 1);
+  }
+}
+
+/**
+ * Scores of one skill, leaving out "not specified"
+ */
+function scoresOf(participants: Participant[], field: SkillField): number[] {
+  return participants
+    .map(p => skillScore(p, field))
+    .filter(score => score > 0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,92 @@
+import { Skill, SkillBandThresholds, SkillDefinition, skillField } from '../models/skill.model';
+
+/**
+ * Skill Catalog Utilities
+ *
+ * Validation of catalog documents and score bands from config.json or the
+ * API, and conversion of catalogs into the ordered list of skills the
+ * application renders.
+ */
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+const COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Describe the first problem of a catalog document, or null when it is valid
+ * Usable as a config rule for `skills.catalog`
+ */
+export function checkSkillCatalog(value: unknown): string | null {
+  if (!Array.isArray(value) || value.length === 0) {
+    return 'must be a non-empty array of skills';
+  }
+  const keys = new Set<string>();
+  for (const [index, entry] of value.entries()) {
+    const problem = checkSkillDefinition(entry);
+    if (problem) {
+      return `entry ${index} ${problem}`;
+    }
+    const key = (entry as SkillDefinition).key;
+    if (keys.has(key)) {
+      return `entry ${index} repeats the key "${key}"`;
+    }
+    keys.add(key);
+  }
+  return null;
+}
+
+/**
+ * Describe the problem of band thresholds, or null when they split 1-10 into three bands
+ * Usable as a config rule for `skills.bands`
+ */
+export function checkSkillBands(value: unknown): string | null {
+  const { medium, high } = value as SkillBandThresholds;
+  if (!Number.isInteger(medium) || !Number.isInteger(high)) {
+    return 'must use whole scores';
+  }
+  return medium >= 2 && medium < high && high <= 10
+    ? null
+    : 'must start the medium band above 1 and the high band above it, at 10 at most';
+}
+
+/**
+ * Resolve catalog entries into skills sorted by `order`, then label
+ */
+export function resolveSkillCatalog(definitions: SkillDefinition[]): Skill[] {
+  return definitions
+    .map(definition => ({
+      ...definition,
+      field: skillField(definition.key),
+      retired: definition.retired ?? false,
+      aliases: definition.aliases ?? []
+    }))
+    .sort((a, b) => a.order - b.order || a.label.localeCompare(b.label));
+}
+
+function checkSkillDefinition(entry: unknown): string | null {
+  if (typeof entry !== 'object' || entry === null) {
+    return 'must be an object';
+  }
+  const { key, label, icon, color, order, retired, aliases } = entry as Record<string, unknown>;
+  if (typeof key !== 'string' || !KEY_PATTERN.test(key)) {
+    return 'needs a "key" of lowercase letters, digits and underscores';
+  }
+  if (typeof label !== 'string' || !label.trim()) {
+    return 'needs a "label"';
+  }
+  if (typeof icon !== 'string' || !icon.trim()) {
+    return 'needs an "icon"';
+  }
+  if (typeof color !== 'string' || !COLOR_PATTERN.test(color)) {
+    return 'needs a hex "color" such as #3776ab';
+  }
+  if (typeof order !== 'number' || !Number.isFinite(order)) {
+    return 'needs a numeric "order"';
+  }
+  if (retired !== undefined && typeof retired !== 'boolean') {
+    return 'has a "retired" flag that is not a boolean';
+  }
+  if (aliases !== undefined && !(Array.isArray(aliases) && aliases.every(alias => typeof alias === 'string'))) {
+    return 'has "aliases" that are not an array of strings';
+  }
+  return null;
+}
@@ -0,0 +1,88 @@
+/**
+ * Text Similarity Utilities
+ *
+ * Edit-distance helpers for fuzzy matching of short strings such as names.
+ */
+
+/**
+ * Levenshtein distance between two strings (insertions, deletions and
+ * substitutions each cost one)
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) {
+    return 0;
+  }
+  if (!a.length || !b.length) {
+    return a.length || b.length;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Lower bound of the Levenshtein distance from the characters alone, ignoring
+ * their order; cheap enough to rule out most pairs before the real distance
+ */
+export function bagDistance(a: string, b: string): number {
+  const counts = new Map<string, number>();
+  for (const char of a) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let onlyInB = 0;
+  for (const char of b) {
+    const count = counts.get(char) ?? 0;
+    if (count > 0) {
+      counts.set(char, count - 1);
+    } else {
+      onlyInB++;
+    }
+  }
+  const onlyInA = a.length - (b.length - onlyInB);
+  return Math.max(onlyInA, onlyInB);
+}
+
+/**
+ * Edit distance that also counts swapping two neighbouring characters as one
+ * edit (optimal string alignment), so "rvai" is one typo away from "ravi"
+ */
+export function typoDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/**
+ * Similarity from 0 (nothing shared) to 1 (identical), based on edit distance
+ */
+export function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+}
+
+/**
+ * Similarity of two names that ignores word order, so "Kumar Ravi" and
+ * "Ravi Kumar" match; expects names already normalized
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const sortTokens = (value: string) => value.split(' ').filter(Boolean).sort().join(' ');
+  return Math.max(similarity(a, b), similarity(sortTokens(a), sortTokens(b)));
+}
@@ -1,8 +1,35 @@
 export const environment = {
   production: false,
   apiBaseUrl: 'https://api.hereandnowai.com/public/api',
-  apiKeyHeaderName: 'X-API-KEY',
-  apiKeyValue: 'K00soZRLnUorzLFcR73TmyyvmSJ0Lco5', // Configure this with your actual API key
+  auth: {
+    loginUrl: '/login', // Endpoints are relative to apiBaseUrl
+    refreshUrl: '/refresh',
+    logoutUrl: '/logout',
+    refreshLeewayMs: 60000 // Refresh tokens this long before they expire
+  },
+  deleteUndoWindowMs: 6000, // How long "Undo" is offered before a delete is sent to the API
+  skills: {
+    catalogUrl: '', // e.g. '/skills' to fetch the catalog from the API; empty uses the list below
+    catalog: [
+      { key: 'python', label: 'Python', icon: 'code', color: '#3776ab', order: 1 },
+      { key: 'angular', label: 'Angular', icon: 'web', color: '#dd0031', order: 2 },
+      { key: 'javascript', label: 'JavaScript', icon: 'javascript', color: '#f7df1e', order: 3, aliases: ['js'] },
+      { key: 'html', label: 'HTML', icon: 'language', color: '#e34c26', order: 4 },
+      { key: 'css', label: 'CSS', icon: 'palette', color: '#1572b6', order: 5 },
+      { key: 'java', label: 'Java', icon: 'coffee', color: '#ed8b00', order: 6 }
+    ],
+    bands: { medium: 4, high: 7 } // First score of the medium and high bands on the dashboard
+  },
+  savedViews: {
+    url: '' // e.g. '/views' to keep saved views on the API; empty keeps them in this browser
+  },
+  mockBackend: {
+    enabled: false, // Serve /participants from an in-memory store instead of the API
+    latencyMs: 400,
+    errorRate: 0, // 0..1 probability of a simulated failure per request
+    errorStatuses: [500],
+    tokenTtlMs: 3600000 // Lifetime of tokens issued by the mock /login and /refresh
+  },
   brand: {
     organizationName: 'HERE AND NOW AI',
     website: 'https://hereandnowai.com',